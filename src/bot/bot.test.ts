@@ -0,0 +1,423 @@
+import {
+  AnyOrder,
+  ObjectiveDto,
+  ObjectiveType,
+  OrderType,
+  ScenarioName,
+  ServerGameProps,
+  UnitDtoPartialId,
+} from "@lob-sdk/types";
+import { GameDataManager, GameEra } from "@lob-sdk/game-data-manager";
+import {
+  createTestGame,
+  getScenarioProps,
+} from "@lob-sdk/server-game/test-utils";
+import { Bot } from "./bot";
+import { BotNapoleonic } from "./bot-napoleonic";
+import { BotWW2 } from "./bot-ww2";
+import { BOT_DIFFICULTY_PROFILES } from "./difficulty-profiles";
+import { BotBehavior, BotDifficulty } from "./types";
+
+describe("Bot", () => {
+  const createGame = (
+    era: GameEra,
+    scenarioName: ScenarioName,
+    props: Partial<ServerGameProps> = {}
+  ) => createTestGame({ ...getScenarioProps(era, scenarioName), ...props });
+
+  it.each<[GameEra, ScenarioName]>([
+    ["napoleonic", "clash-at-chelmnitz"],
+    ["ww2", "battle-of-moscow"],
+  ])("should play the %s era", async (era, scenarioName) => {
+    const game = createGame(era, scenarioName);
+    const bot = new Bot(GameDataManager.get(era), game, 1);
+
+    const submission = await bot.play();
+
+    expect(submission.turn).toBe(1);
+    expect(submission.orders.length).toBeGreaterThan(0);
+    expect(() => game.submitOrders(1, submission)).not.toThrow();
+  });
+
+  it("should only create the era presets for their era", () => {
+    const napoleonic = GameDataManager.get("napoleonic");
+    const game = createGame("napoleonic", "clash-at-chelmnitz");
+
+    expect(new BotNapoleonic(napoleonic, game, 1)).toBeInstanceOf(Bot);
+    expect(() => new BotWW2(napoleonic, game, 1)).toThrow(
+      "BotWW2 can't play the era napoleonic"
+    );
+  });
+
+  describe("difficulty", () => {
+    const napoleonic = GameDataManager.get("napoleonic");
+
+    it("should make the same decisions with the same seed", async () => {
+      const play = (seed: number) => {
+        const game = createGame("napoleonic", "clash-at-chelmnitz");
+        return new Bot(napoleonic, game, 1, undefined, {
+          difficulty: {
+            ...BOT_DIFFICULTY_PROFILES[BotDifficulty.Easy],
+            targetSelectionAccuracy: 0,
+          },
+          seed,
+        }).play();
+      };
+
+      expect(await play(7)).toEqual(await play(7));
+      expect(await play(7)).not.toEqual(await play(8));
+    });
+
+    it("should move in straight lines and wait between orders on easy", async () => {
+      const game = createGame("napoleonic", "clash-at-chelmnitz");
+      const bot = new Bot(napoleonic, game, 1, undefined, {
+        difficulty: BotDifficulty.Easy,
+      });
+      const { reactionLag } = BOT_DIFFICULTY_PROFILES[BotDifficulty.Easy];
+
+      const getPositions = () =>
+        game.getUnitsOfPlayer(1).map((unit) => unit.position.clone());
+
+      let firstOrders: AnyOrder[] = [];
+
+      for (let turn = 1; turn <= reactionLag + 1; turn++) {
+        const submission = await bot.play();
+        const positions = getPositions();
+
+        submission.orders.forEach((order) => {
+          if ("path" in order && order.path) {
+            expect(order.path).toHaveLength(1);
+          }
+        });
+
+        if (turn === 1) {
+          firstOrders = submission.orders;
+        } else {
+          expect(submission.orders).toEqual(
+            expect.arrayContaining(firstOrders)
+          );
+          expect(submission.orders).toHaveLength(firstOrders.length);
+        }
+
+        game.submitOrders(1, submission);
+        game.executeTurn();
+
+        expect(
+          getPositions().filter(
+            (position, i) => position.distanceTo(positions[i]) > 0
+          ).length
+        ).toBeGreaterThan(0);
+      }
+    });
+
+    it("should give the held orders again without the waypoints the units passed", async () => {
+      const game = createGame("napoleonic", "clash-at-chelmnitz");
+      const bot = new Bot(napoleonic, game, 1, undefined, {
+        difficulty: {
+          ...BOT_DIFFICULTY_PROFILES[BotDifficulty.Normal],
+          reactionLag: 1,
+        },
+      });
+
+      const getPaths = (orders: AnyOrder[]) =>
+        new Map(
+          orders.map((order) => [
+            order.id,
+            "path" in order && order.path ? order.path : [],
+          ])
+        );
+
+      const firstSubmission = await bot.play();
+      game.submitOrders(1, firstSubmission);
+      game.executeTurn();
+
+      const firstPaths = getPaths(firstSubmission.orders);
+      const paths = getPaths((await bot.play()).orders);
+
+      expect([...paths.keys()]).toEqual(
+        expect.arrayContaining([...firstPaths.keys()])
+      );
+      paths.forEach((path, id) => {
+        expect(firstPaths.get(id)!.slice(-path.length)).toEqual(path);
+      });
+      expect(
+        [...paths].filter(
+          ([id, path]) => path.length < firstPaths.get(id)!.length
+        ).length
+      ).toBeGreaterThan(0);
+    });
+
+    it("should change formations only when the profile allows it", async () => {
+      const normal = new Bot(
+        napoleonic,
+        createGame("napoleonic", "clash-at-chelmnitz"),
+        1
+      );
+      const hard = new Bot(
+        napoleonic,
+        createGame("napoleonic", "clash-at-chelmnitz"),
+        1,
+        undefined,
+        { difficulty: BotDifficulty.Hard }
+      );
+
+      expect((await normal.play()).formationChanges).toEqual([]);
+      expect((await hard.play()).formationChanges).toContainEqual({
+        unitId: expect.any(Number),
+        formationId: "column",
+      });
+    });
+  });
+
+  describe("objectives", () => {
+    const napoleonic = GameDataManager.get("napoleonic");
+    const TILE_SIZE = 16;
+
+    /**
+     * A 60x60 tiles grass map with a building at tile (11, 12), next to the objectives
+     * at (168, 168), and an enemy far away, besides the given units.
+     */
+    const createSkirmish = (
+      objectives: ObjectiveDto<false>[],
+      units: UnitDtoPartialId[] = []
+    ) => {
+      const terrains = Array.from({ length: 60 }, () => Array(60).fill(0));
+      terrains[11][12] = 2;
+
+      return createGame("napoleonic", "clash-at-chelmnitz", {
+        fogOfWar: false,
+        state: {
+          players: [],
+          teams: [],
+          units: [
+            { player: 1, pos: { x: 160, y: 400 }, rotation: 0, type: 1 },
+            { player: 2, pos: { x: 900, y: 900 }, rotation: 0, type: 1 },
+            ...units,
+          ],
+          map: {
+            width: 60 * TILE_SIZE,
+            height: 60 * TILE_SIZE,
+            terrains,
+            heightMap: terrains.map((column) => column.map(() => 0)),
+          },
+          objectives,
+          triggers: [],
+        },
+      });
+    };
+
+    const getDestination = async (bot: Bot) => {
+      const [order] = (await bot.play()).orders;
+
+      expect(order).toMatchObject({ type: OrderType.Walk });
+      return "path" in order && order.path ? order.path.at(-1) : null;
+    };
+
+    it("should garrison the big objectives on defensive terrain when losing them would lose the game", async () => {
+      const game = createSkirmish([
+        { pos: { x: 168, y: 168 }, player: 1, type: ObjectiveType.Big },
+        { pos: { x: 800, y: 800 }, player: 2, type: ObjectiveType.Big },
+      ]);
+
+      expect(await getDestination(new Bot(napoleonic, game, 1))).toEqual([
+        184, 200,
+      ]);
+    });
+
+    it("should spread the units garrisoning an objective over its free tiles", async () => {
+      const game = createSkirmish(
+        [
+          { pos: { x: 168, y: 168 }, player: 1, type: ObjectiveType.Big },
+          { pos: { x: 800, y: 800 }, player: 2, type: ObjectiveType.Big },
+        ],
+        [
+          { player: 1, pos: { x: 176, y: 400 }, rotation: 0, type: 1 },
+          { player: 1, pos: { x: 192, y: 400 }, rotation: 0, type: 1 },
+        ]
+      );
+
+      const { orders } = await new Bot(napoleonic, game, 1).play();
+      const posts = orders.map((order) =>
+        "path" in order && order.path ? order.path.at(-1)?.join() : null
+      );
+
+      expect(posts).toHaveLength(3);
+      expect(new Set(posts).size).toBe(3);
+      expect(posts).toContain("184,200");
+    });
+
+    it("should counter-attack the objectives an enemy is capturing", async () => {
+      const game = createSkirmish([
+        { pos: { x: 168, y: 168 }, player: 1, captureProgress: 0.5 },
+        { pos: { x: 200, y: 600 }, player: 2 },
+      ]);
+
+      expect(await getDestination(new Bot(napoleonic, game, 1))).toEqual([
+        168, 168,
+      ]);
+    });
+
+    it("should only hold the closest allied objective with defensive groups while it is at risk", async () => {
+      const config = napoleonic.getBotConfig();
+      const defensiveConfig = {
+        ...config,
+        strategies: {
+          ...config.strategies,
+          Infantry: {
+            ...config.strategies.Infantry,
+            behavior: BotBehavior.Defensive,
+          },
+        },
+      };
+      // The unit at (160, 700) forms the second group, the defensive one.
+      const getFreeGroupDestination = async (
+        allyObjective: ObjectiveType,
+        defensive: boolean
+      ) => {
+        const game = createSkirmish(
+          [
+            { pos: { x: 168, y: 168 }, player: 1, type: allyObjective },
+            { pos: { x: 800, y: 800 }, player: 2, type: ObjectiveType.Big },
+          ],
+          [{ player: 1, pos: { x: 160, y: 700 }, rotation: 0, type: 1 }]
+        );
+        const bot = new Bot(
+          napoleonic,
+          game,
+          1,
+          defensive ? defensiveConfig : config
+        );
+        const { orders } = await bot.play();
+        const freeUnit = game.getUnitsOfPlayer(1)[1];
+        const order = orders.find(({ id }) => id === freeUnit.id)!;
+
+        return "path" in order && order.path ? order.path.at(-1) : null;
+      };
+
+      const [x, y] = (await getFreeGroupDestination(ObjectiveType.Big, true))!;
+      expect(Math.hypot(x - 168, y - 168)).toBeLessThan(3 * TILE_SIZE);
+      expect(
+        await getFreeGroupDestination(ObjectiveType.Small, true)
+      ).toEqual(await getFreeGroupDestination(ObjectiveType.Small, false));
+      expect(
+        await getFreeGroupDestination(ObjectiveType.Big, false)
+      ).not.toEqual([x, y]);
+    });
+  });
+
+  describe("tactics", () => {
+    const napoleonic = GameDataManager.get("napoleonic");
+    const LINE_INFANTRY = 1;
+    const DRAGOONS = 2;
+    const FOOT_ARTILLERY = 3;
+
+    /**
+     * A 60x60 tiles grass map with the given units. Their ids follow their order.
+     */
+    const createBattle = (units: UnitDtoPartialId[]) => {
+      const terrains = Array.from({ length: 60 }, () => Array(60).fill(0));
+
+      return createGame("napoleonic", "clash-at-chelmnitz", {
+        fogOfWar: false,
+        state: {
+          players: [],
+          teams: [],
+          units,
+          map: {
+            width: 60 * 16,
+            height: 60 * 16,
+            terrains,
+            heightMap: terrains.map((column) => column.map(() => 0)),
+          },
+          objectives: [],
+          triggers: [],
+        },
+      });
+    };
+
+    const unit = (
+      player: number,
+      type: number,
+      x: number,
+      y: number
+    ): UnitDtoPartialId => ({ player, pos: { x, y }, rotation: 0, type });
+
+    it("should form a square and face the cavalry that threatens a unit", async () => {
+      const game = createBattle([
+        unit(1, LINE_INFANTRY, 400, 400),
+        unit(2, DRAGOONS, 400, 500),
+      ]);
+      const [infantry, cavalry] = game.getUnits();
+      const bot = new Bot(napoleonic, game, 1, undefined, {
+        difficulty: BotDifficulty.Hard,
+      });
+
+      const { orders, formationChanges } = await bot.play();
+
+      expect(formationChanges).toEqual([
+        { unitId: infantry.id, formationId: "square" },
+      ]);
+      expect(orders).toEqual([
+        { type: OrderType.Rotate, id: infantry.id, targetId: cavalry.id },
+      ]);
+    });
+
+    it("should fall back with damaged units unless the profile forbids it", async () => {
+      const game = createBattle([
+        { ...unit(1, LINE_INFANTRY, 400, 400), hp: 100 },
+        unit(2, LINE_INFANTRY, 400, 500),
+      ]);
+      const [infantry] = game.getUnits();
+      const normal = new Bot(napoleonic, game, 1);
+      const easy = new Bot(napoleonic, game, 1, undefined, {
+        difficulty: BotDifficulty.Easy,
+      });
+
+      const [order] = (await normal.play()).orders;
+
+      expect(order).toMatchObject({
+        type: OrderType.Fallback,
+        id: infantry.id,
+      });
+      expect("path" in order && order.path!.at(-1)![1]).toBeLessThan(400);
+      expect((await easy.play()).orders).not.toContainEqual(
+        expect.objectContaining({ type: OrderType.Fallback })
+      );
+    });
+
+    it("should fire at the targets with the highest autofire priority", async () => {
+      const game = createBattle([
+        unit(1, FOOT_ARTILLERY, 400, 400),
+        unit(2, FOOT_ARTILLERY, 400, 600),
+        unit(2, LINE_INFANTRY, 400, 700),
+      ]);
+      const [artillery, , infantry] = game.getUnits();
+      const bot = new Bot(napoleonic, game, 1, undefined, {
+        difficulty: BotDifficulty.Hard,
+      });
+
+      expect((await bot.play()).orders).toEqual([
+        { type: OrderType.Shoot, id: artillery.id, targetId: infantry.id },
+      ]);
+    });
+
+    it("should hold area of effect fire while allies are close to the enemies in range", async () => {
+      const game = createBattle([
+        unit(1, FOOT_ARTILLERY, 400, 400),
+        unit(2, LINE_INFANTRY, 400, 700),
+        unit(1, LINE_INFANTRY, 400, 720),
+      ]);
+      const [artillery] = game.getUnits();
+      const cannonBall = napoleonic.getDamageTypeByName("8lb-cannon-ball");
+      const bot = new Bot(napoleonic, game, 1, undefined, {
+        difficulty: BotDifficulty.Hard,
+      });
+
+      const { autofireConfigChanges } = await bot.play();
+
+      expect(autofireConfigChanges).toEqual([
+        { unitId: artillery.id, holdFireDamageTypes: [cannonBall.id] },
+      ]);
+    });
+  });
+});
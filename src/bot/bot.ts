@@ -0,0 +1,1298 @@
+import {
+  AnyOrder,
+  EntityId,
+  FormationTemplate,
+  IObjective,
+  IServerGame,
+  IUnit,
+  ObjectiveType,
+  OrderPathPoint,
+  OrderType,
+  RangeUnitTemplate,
+  UnitAutofireConfigChange,
+  UnitCategoryId,
+  UnitFormationChange,
+} from "@lob-sdk/types";
+import {
+  GameDataManager,
+  RangedDamageTypeTemplate,
+} from "@lob-sdk/game-data-manager";
+import { Point2, Vector2 } from "@lob-sdk/vector";
+import { UnitGroup } from "./unit-group";
+import { TurnSubmission } from "@lob-sdk/types";
+import {
+  BotBehavior,
+  BotConfig,
+  BotDifficulty,
+  BotDifficultyProfile,
+  BotOptions,
+  BotUnitCategory,
+  IBot,
+  OnBotPlayScript,
+  UnitStrategy,
+} from "./types";
+import { BOT_DIFFICULTY_PROFILES } from "./difficulty-profiles";
+import { Random } from "@lob-sdk/random";
+import { AStar } from "@lob-sdk/a-star";
+import { getSquaredDistance } from "@lob-sdk/utils";
+import { douglasPeucker } from "@lob-sdk/douglas-peucker";
+
+/** Distance in tiles from the flank of an enemy group that flanking groups move to. */
+const FLANK_DISTANCE = 6;
+
+/** Distance in tiles behind the supported group that support groups stay at. */
+const SUPPORT_DISTANCE = 3;
+
+/** Distance in tiles within which enemies that can charge make units form up against them. */
+const CHARGE_THREAT_DISTANCE = 8;
+
+/** Distance in tiles that damaged units fall back from the closest enemy. */
+const FALLBACK_DISTANCE = 4;
+
+/** Distance in tiles around an enemy where allies can be hit by area of effect fire at it. */
+const FRIENDLY_FIRE_DISTANCE = 3;
+
+/**
+ * An objective a group was sent to, either to hold it or to counter-attack its capture.
+ */
+interface ObjectiveAssignment {
+  objective: IObjective;
+  hold: boolean;
+}
+
+/**
+ * The last orders the bot gave to a unit, the turn it gave them and where the unit was when
+ * they were last given.
+ */
+interface LastOrders {
+  orders: AnyOrder[];
+  turn: number;
+  from: Vector2;
+}
+
+/**
+ * A bot that can play any era. Its behavior comes from a {@link BotConfig}, by default the one
+ * of the era of the game data manager.
+ * Uses unit grouping and strategic decision-making to control units.
+ *
+ * How well it plays depends on its {@link BotDifficultyProfile}. Its random decisions come from
+ * its own seeded generator, so the same seed and game give the same orders.
+ */
+export class Bot implements IBot {
+  /** The team number this bot belongs to. */
+  public team: number;
+  private allyGroups: UnitGroup[] = [];
+  private enemyGroups: UnitGroup[] = [];
+  private onBotPlayScript: OnBotPlayScript | null = null;
+  private scriptName: string | null = null;
+  private config: BotConfig;
+  private difficulty: BotDifficultyProfile;
+  private random: Random;
+  private formationChanges: UnitFormationChange[] = [];
+  private autofireConfigChanges: UnitAutofireConfigChange[] = [];
+  private shootTargets = new Set<EntityId>();
+  private objectiveAssignments = new Map<UnitGroup, ObjectiveAssignment>();
+  private garrisonTiles = new Set<string>();
+  private lastOrders = new Map<EntityId, LastOrders>();
+
+  private getBotUnitCategory(categoryId: UnitCategoryId): BotUnitCategory {
+    return this.config.categoryGroups[categoryId];
+  }
+
+  private getMaxGroupSize(botCategory: BotUnitCategory): number {
+    return this.config.maxGroupSize[botCategory];
+  }
+
+  private getGroupCohesion(botCategory: BotUnitCategory): number {
+    // Get the strategy for this category dynamically
+    const strategy = this.getStrategyForType(botCategory);
+    return strategy.groupCohesion;
+  }
+
+  /**
+   * Creates a new Bot instance.
+   * @param gameDataManager - The game data manager instance.
+   * @param game - The server game instance.
+   * @param playerNumber - The player number this bot controls.
+   * @param config - Optional bot configuration that overrides the one of the era.
+   * @param options - Difficulty and seed of the bot.
+   * @throws Error if the override configuration is invalid for the era.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: IServerGame,
+    private playerNumber: number,
+    config?: BotConfig,
+    { difficulty = BotDifficulty.Normal, seed = 0 }: BotOptions = {}
+  ) {
+    if (config) {
+      this.gameDataManager.validateBotConfig(config);
+    }
+
+    this.config = config ?? this.gameDataManager.getBotConfig();
+    this.difficulty =
+      typeof difficulty === "string"
+        ? BOT_DIFFICULTY_PROFILES[difficulty]
+        : difficulty;
+    this.random = new Random(seed);
+    this.team = this.game.getPlayerTeam(this.playerNumber);
+  }
+
+  /**
+   * Sets a custom bot play script that overrides the default bot behavior.
+   * @param onBotPlayScript - The custom script function.
+   * @param scriptName - Optional name for the script.
+   */
+  setOnBotPlayScript(onBotPlayScript: OnBotPlayScript, scriptName?: string) {
+    this.onBotPlayScript = onBotPlayScript;
+    this.scriptName = scriptName || null;
+  }
+
+  /**
+   * Gets the name of the currently set bot script, if any.
+   * @returns The script name, or null if no custom script is set.
+   */
+  getScriptName(): string | null {
+    return this.scriptName;
+  }
+
+  /**
+   * Executes the bot's turn, generating orders for all controlled units.
+   * @returns A promise that resolves to the turn submission with orders.
+   */
+  async play(): Promise<TurnSubmission> {
+    if (this.onBotPlayScript) {
+      try {
+        const result = await this.onBotPlayScript(this.game, this.playerNumber);
+
+        if (result) {
+          /**
+           * If the custom bot script returns a turn submission,
+           * use it instead of the default bot behavior.
+           */
+          return result;
+        }
+      } catch (error) {
+        console.error("Error executing custom bot script:", error);
+        // Fall back to default bot behavior on error
+      }
+    }
+
+    const myUnits = this.getMyUnits();
+    const enemies = this.getEnemyUnits();
+
+    const turnSubmission: TurnSubmission = {
+      turn: this.game.turnNumber,
+      orders: [],
+      autofireConfigChanges: [],
+      formationChanges: [],
+    };
+
+    const orders = turnSubmission.orders;
+
+    if (enemies.length === 0) {
+      return turnSubmission;
+    }
+
+    // Reset groups
+    this.allyGroups = this.formGroups(myUnits);
+    this.enemyGroups = this.formGroups(enemies);
+    this.formationChanges = turnSubmission.formationChanges!;
+    this.autofireConfigChanges = turnSubmission.autofireConfigChanges!;
+    this.shootTargets.clear();
+    this.objectiveAssignments = this.assignObjectives();
+    this.garrisonTiles.clear();
+
+    for (const group of this.allyGroups) {
+      const groupType = this.getBotUnitCategory(group.category);
+      this.processUnitGroup(group, groupType, orders);
+    }
+
+    if (this.difficulty.useShootOrders) {
+      myUnits.forEach((unit) => this.updateHoldFire(unit));
+    }
+
+    return turnSubmission;
+  }
+
+  private getMyUnits() {
+    return this.game
+      .getUnits()
+      .filter((unit) => unit.player === this.playerNumber);
+  }
+
+  private getEnemyUnits() {
+    if (this.difficulty.respectFogOfWar) {
+      // Use fog of war filtered method to only see visible enemy units
+      return this.game.getVisibleEnemyUnits(this.playerNumber);
+    }
+
+    return this.game.getUnits().filter((unit) => unit.team !== this.team);
+  }
+
+  private getNearbyEnemies(unit: IUnit, radius: number) {
+    const nearbyUnits = this.difficulty.respectFogOfWar
+      ? this.game.getVisibleNearbyUnits(
+          this.playerNumber,
+          unit.position,
+          radius
+        )
+      : this.game.getNearbyUnits(unit.position, radius);
+
+    return nearbyUnits.filter(
+      (enemy) => enemy.team !== unit.team && !enemy.isRouting()
+    );
+  }
+
+  private getClosestEnemy(unit: IUnit, enemies: IUnit[]) {
+    return this.difficulty.respectFogOfWar
+      ? this.game.getVisibleClosestUnitOf(
+          this.playerNumber,
+          unit.position,
+          enemies
+        )
+      : this.game.getClosestUnitOf(unit.position, enemies);
+  }
+
+  /**
+   * Picks the best target, or a random one when the bot misjudges the situation
+   * according to its target selection accuracy.
+   */
+  private selectTarget<T>(best: T, candidates: T[]): T {
+    if (this.random.chance(this.difficulty.targetSelectionAccuracy)) {
+      return best;
+    }
+
+    return this.random.pick(candidates) ?? best;
+  }
+
+  /**
+   * Whether the reaction lag of the bot allows to re-order a unit given its last orders.
+   */
+  private canReorder(lastOrders: LastOrders) {
+    return this.game.turnNumber - lastOrders.turn > this.difficulty.reactionLag;
+  }
+
+  /**
+   * Removes from the path of an order the waypoints a unit already passed, so that giving the
+   * order again doesn't send the unit back. The unit is taken to be on the segment of the path
+   * closest to it.
+   * @param order - The order.
+   * @param from - Where the unit was when the order was given.
+   * @param position - Where the unit is now.
+   * @returns The order with the remaining path, or the order itself if it has no path.
+   */
+  private trimPassedWaypoints(
+    order: AnyOrder,
+    from: Vector2,
+    position: Vector2
+  ): AnyOrder {
+    if (!("path" in order) || !order.path) {
+      return order;
+    }
+
+    let start = from;
+    let closestIndex = 0;
+    let closestDistance = Infinity;
+
+    order.path.forEach((point, i) => {
+      const end = Vector2.fromArray(point);
+      const distance = this.getSquaredDistanceToSegment(position, start, end);
+
+      // On ties the unit is at a waypoint, which it passed unless it's the last one.
+      if (distance <= closestDistance) {
+        closestIndex = i;
+        closestDistance = distance;
+      }
+
+      start = end;
+    });
+
+    return { ...order, path: order.path.slice(closestIndex) };
+  }
+
+  private getSquaredDistanceToSegment(
+    point: Vector2,
+    start: Vector2,
+    end: Vector2
+  ) {
+    const segment = end.subtract(start);
+    const squaredLength = segment.dot(segment);
+    const t =
+      squaredLength === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(1, point.subtract(start).dot(segment) / squaredLength)
+          );
+
+    return point.squaredDistanceTo(start.add(segment.scale(t)));
+  }
+
+  private processUnitGroup(
+    group: UnitGroup,
+    groupType: BotUnitCategory,
+    orders: AnyOrder[]
+  ) {
+    if (group.size === 0) return;
+
+    const strategy = this.getStrategyForType(groupType);
+    const assignment =
+      this.objectiveAssignments.get(group) ??
+      this.getDefensiveAssignment(group, strategy.behavior);
+
+    if (assignment?.hold) {
+      this.orderUnits(group, orders, (unit) =>
+        this.holdObjective(unit, assignment.objective, orders)
+      );
+      return;
+    }
+
+    const targetPosition = assignment
+      ? assignment.objective.position
+      : this.getTargetPosition(group, strategy.behavior);
+
+    if (targetPosition === null) {
+      return;
+    }
+
+    this.orderUnits(group, orders, (unit) =>
+      this.processUnit(unit, groupType, strategy, targetPosition, orders)
+    );
+  }
+
+  /**
+   * Gives orders to the units of a group that the reaction lag allows to re-order. The others
+   * keep their last orders, which are given again since the game clears the orders every turn,
+   * without the waypoints the units already passed.
+   */
+  private orderUnits(
+    group: UnitGroup,
+    orders: AnyOrder[],
+    processUnit: (unit: IUnit) => void
+  ) {
+    group.units.forEach((unit) => {
+      const lastOrders = this.lastOrders.get(unit.id);
+
+      if (lastOrders && !this.canReorder(lastOrders)) {
+        lastOrders.orders = lastOrders.orders.map((order) =>
+          this.trimPassedWaypoints(order, lastOrders.from, unit.position)
+        );
+        lastOrders.from = unit.position.clone();
+        orders.push(...lastOrders.orders);
+        return;
+      }
+
+      const orderCount = orders.length;
+      processUnit(unit);
+
+      if (orders.length > orderCount) {
+        this.lastOrders.set(unit.id, {
+          orders: orders.slice(orderCount),
+          turn: this.game.turnNumber,
+          from: unit.position.clone(),
+        });
+      }
+    });
+  }
+
+  /**
+   * Sends the closest groups to counter-attack the objectives of the team that an enemy is
+   * capturing, the most advanced captures first. When losing the big objectives would lose the
+   * game, the closest groups also garrison the big objectives of the team.
+   */
+  private assignObjectives() {
+    const assignments = new Map<UnitGroup, ObjectiveAssignment>();
+    const allyObjectives = this.game
+      .getObjectives()
+      .filter((objective) => objective.team === this.team);
+
+    const assignClosestGroup = (objective: IObjective, hold: boolean) => {
+      const freeGroups = this.allyGroups.filter(
+        (group) =>
+          !assignments.has(group) &&
+          this.getGroupBehavior(group) !== BotBehavior.Support
+      );
+      const group = this.getClosestGroup(objective.position, freeGroups);
+
+      if (group) {
+        assignments.set(group, { objective, hold });
+      }
+    };
+
+    const contestedObjectives = allyObjectives
+      .filter((objective) => (objective.captureProgress ?? 0) > 0)
+      .sort((a, b) => (b.captureProgress ?? 0) - (a.captureProgress ?? 0));
+
+    for (const objective of contestedObjectives) {
+      assignClosestGroup(objective, false);
+    }
+
+    if (this.areBigObjectivesAtRisk()) {
+      for (const objective of allyObjectives) {
+        if (
+          objective.type === ObjectiveType.Big &&
+          !contestedObjectives.includes(objective)
+        ) {
+          assignClosestGroup(objective, true);
+        }
+      }
+    }
+
+    return assignments;
+  }
+
+  /**
+   * Whether losing the big objectives of the team would lose the game, see
+   * {@link IServerGame.shouldTeamLoseForNoBigObjectives}.
+   */
+  private areBigObjectivesAtRisk() {
+    return (
+      this.game.hasBigObjectives(this.team) &&
+      this.game
+        .getObjectives()
+        .some(
+          (objective) =>
+            objective.type === ObjectiveType.Big &&
+            objective.team !== 0 &&
+            objective.team !== this.team
+        )
+    );
+  }
+
+  /**
+   * Defensive groups hold the closest allied objective while an enemy is capturing it, or
+   * while it is a big objective and losing the big objectives would lose the game. Otherwise
+   * they advance like the other groups.
+   */
+  private getDefensiveAssignment(
+    group: UnitGroup,
+    behavior: BotBehavior
+  ): ObjectiveAssignment | null {
+    if (behavior !== BotBehavior.Defensive) {
+      return null;
+    }
+
+    const objective = this.game.getClosestAllyObjective(
+      group.getCenter(),
+      this.team
+    );
+
+    if (!objective) {
+      return null;
+    }
+
+    const isAtRisk =
+      (objective.captureProgress ?? 0) > 0 ||
+      (objective.type === ObjectiveType.Big && this.areBigObjectivesAtRisk());
+
+    return isAtRisk ? { objective, hold: true } : null;
+  }
+
+  /**
+   * Gets where a group that isn't defending an objective goes, according to its behavior.
+   */
+  private getTargetPosition(
+    group: UnitGroup,
+    behavior: BotBehavior
+  ): Vector2 | null {
+    const groupCenter = group.getCenter();
+    const closestEnemyGroup = this.getClosestGroup(
+      groupCenter,
+      this.enemyGroups
+    );
+    const enemyGroup =
+      closestEnemyGroup &&
+      this.selectTarget(closestEnemyGroup, this.enemyGroups);
+
+    switch (behavior) {
+      case BotBehavior.Direct:
+      case BotBehavior.Offensive:
+        if (enemyGroup) {
+          return enemyGroup.getCenter();
+        }
+        break;
+      case BotBehavior.Flanking:
+        if (enemyGroup) {
+          return this.getFlankPosition(groupCenter, enemyGroup.getCenter());
+        }
+        break;
+      case BotBehavior.Support: {
+        const supportedGroup = this.getClosestGroup(
+          groupCenter,
+          this.allyGroups.filter(
+            (other) => this.getGroupBehavior(other) !== BotBehavior.Support
+          )
+        );
+
+        if (supportedGroup) {
+          return this.getSupportPosition(
+            supportedGroup.getCenter(),
+            enemyGroup?.getCenter() ?? null
+          );
+        }
+        break;
+      }
+    }
+
+    const closestEnemyObjective = this.game.getClosestEnemyObjective(
+      groupCenter,
+      this.team
+    );
+
+    const targetPositions: Vector2[] = [];
+
+    if (closestEnemyGroup) {
+      targetPositions.push(closestEnemyGroup.getCenter());
+    }
+
+    if (closestEnemyObjective) {
+      targetPositions.push(closestEnemyObjective.position);
+    }
+
+    const closestTarget = groupCenter.getClosestVector(targetPositions);
+    if (closestTarget === null) {
+      return null;
+    }
+
+    return this.selectTarget(closestTarget, [
+      ...this.enemyGroups.map((enemyGroup) => enemyGroup.getCenter()),
+      ...(closestEnemyObjective ? [closestEnemyObjective.position] : []),
+    ]);
+  }
+
+  /**
+   * Gets the side of an enemy group that is closest to the flanking group.
+   */
+  private getFlankPosition(groupCenter: Vector2, enemyCenter: Vector2) {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const flankOffset = enemyCenter
+      .subtract(groupCenter)
+      .normalize()
+      .perp()
+      .scale(FLANK_DISTANCE * TILE_SIZE);
+    const flankPosition = groupCenter.getClosestVector([
+      enemyCenter.add(flankOffset),
+      enemyCenter.subtract(flankOffset),
+    ])!;
+
+    return this.clampToMap(flankPosition);
+  }
+
+  /**
+   * Gets a position behind the supported group, away from the enemy.
+   */
+  private getSupportPosition(
+    supportedCenter: Vector2,
+    enemyCenter: Vector2 | null
+  ) {
+    if (!enemyCenter) {
+      return supportedCenter;
+    }
+
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const supportPosition = supportedCenter.add(
+      supportedCenter
+        .subtract(enemyCenter)
+        .normalize()
+        .scale(SUPPORT_DISTANCE * TILE_SIZE)
+    );
+
+    return this.clampToMap(supportPosition);
+  }
+
+  private clampToMap({ x, y }: Point2) {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const width = this.game.map.terrains.length * TILE_SIZE;
+    const height = (this.game.map.terrains[0]?.length ?? 0) * TILE_SIZE;
+
+    return new Vector2(
+      Math.min(Math.max(x, 0), width - 1),
+      Math.min(Math.max(y, 0), height - 1)
+    );
+  }
+
+  private getGroupBehavior(group: UnitGroup) {
+    return this.getStrategyForType(this.getBotUnitCategory(group.category))
+      .behavior;
+  }
+
+  /**
+   * Moves a unit to its post at an objective, or holds the post and fires at the enemies
+   * in range once it's there.
+   */
+  private holdObjective(
+    unit: IUnit,
+    objective: IObjective,
+    orders: AnyOrder[]
+  ) {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const post = this.getGarrisonPosition(unit, objective);
+
+    if (unit.position.distanceTo(post) > TILE_SIZE / 2) {
+      this.changeToMarchFormation(unit);
+      orders.push({
+        type: OrderType.Walk,
+        id: unit.id,
+        path: this.getMovementPath(unit, post),
+      });
+      return;
+    }
+
+    if (this.faceChargeThreat(unit, orders)) {
+      return;
+    }
+
+    const nearbyEnemies = this.getNearbyEnemies(unit, unit.getMaxRange());
+
+    if (nearbyEnemies.length > 0) {
+      this.changeToFireFormation(unit);
+      this.shootAt(unit, nearbyEnemies, orders);
+    }
+  }
+
+  /**
+   * Gets the post of a unit holding an objective: the free tile within the capture radius with
+   * the best defense modifier for the unit, like buildings and forests for infantry, and the
+   * closest one to the objective among equals, so units holding it spread over the free tiles.
+   * Falls back to the objective itself if no tile is free.
+   */
+  private getGarrisonPosition(unit: IUnit, objective: IObjective): Vector2 {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const { radius } = this.gameDataManager.getGameRules().objectives;
+    const { terrains } = this.game.map;
+    const centerX = Math.floor(objective.position.x / TILE_SIZE);
+    const centerY = Math.floor(objective.position.y / TILE_SIZE);
+    const tileRadius = Math.floor(radius / TILE_SIZE);
+    let bestTile: string | null = null;
+    let bestPosition = objective.position;
+    let bestModifier = -Infinity;
+    let bestDistance = Infinity;
+
+    for (let x = centerX - tileRadius; x <= centerX + tileRadius; x++) {
+      for (let y = centerY - tileRadius; y <= centerY + tileRadius; y++) {
+        const terrain = terrains[x]?.[y];
+        const tile = `${x},${y}`;
+
+        if (
+          terrain === undefined ||
+          this.garrisonTiles.has(tile) ||
+          !this.gameDataManager.isPassable(terrain)
+        ) {
+          continue;
+        }
+
+        const position = new Vector2(
+          x * TILE_SIZE + TILE_SIZE / 2,
+          y * TILE_SIZE + TILE_SIZE / 2
+        );
+        const distance = position.distanceTo(objective.position);
+        const modifier = this.gameDataManager.getUnitTerrainDefenseModifier(
+          unit.category,
+          terrain
+        );
+
+        if (
+          distance <= radius &&
+          (modifier > bestModifier ||
+            (modifier === bestModifier && distance < bestDistance))
+        ) {
+          bestTile = tile;
+          bestPosition = position;
+          bestModifier = modifier;
+          bestDistance = distance;
+        }
+      }
+    }
+
+    if (bestTile) {
+      this.garrisonTiles.add(bestTile);
+    }
+
+    return bestPosition;
+  }
+
+  private processUnit(
+    unit: IUnit,
+    groupType: BotUnitCategory,
+    strategy: UnitStrategy,
+    targetPosition: Vector2,
+    orders: AnyOrder[]
+  ) {
+    const nearbyEnemies = this.getNearbyEnemies(unit, unit.getMaxRange() * 2);
+    const closestEnemy = this.getClosestEnemy(unit, nearbyEnemies);
+
+    if (closestEnemy && this.shouldFallBack(unit, strategy)) {
+      this.fallBack(unit, closestEnemy, orders);
+      return;
+    }
+
+    if (this.faceChargeThreat(unit, orders)) {
+      return;
+    }
+
+    // Process unit based on strategy properties dynamically
+    this.processUnitByStrategy(
+      unit,
+      closestEnemy,
+      strategy,
+      targetPosition,
+      orders
+    );
+  }
+
+  /**
+   * Whether a unit is damaged enough to fall back from the enemies, according to the fallback
+   * HP ratio of its strategy.
+   */
+  private shouldFallBack(unit: IUnit, strategy: UnitStrategy) {
+    return (
+      this.difficulty.useFallback &&
+      strategy.fallbackHpRatio !== undefined &&
+      unit.hp < unit.template.hp * strategy.fallbackHpRatio &&
+      this.gameDataManager.canUseOrder(unit.category, OrderType.Fallback)
+    );
+  }
+
+  /**
+   * Falls back away from an enemy, still facing it.
+   */
+  private fallBack(unit: IUnit, enemy: IUnit, orders: AnyOrder[]) {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const fallbackPosition = this.clampToMap(
+      unit.position.add(
+        unit.position
+          .subtract(enemy.position)
+          .normalize()
+          .scale(FALLBACK_DISTANCE * TILE_SIZE)
+      )
+    );
+
+    orders.push({
+      type: OrderType.Fallback,
+      id: unit.id,
+      path: this.getMovementPath(unit, fallbackPosition),
+      rotation: fallbackPosition.getRotationTo(enemy.position),
+    });
+  }
+
+  /**
+   * Forms a unit up against the closest enemy that can charge it: changes to the formation that
+   * resists charges best, like a square, and stands facing the enemy, firing at it when in range.
+   * @returns Whether the unit is threatened by a charge.
+   */
+  private faceChargeThreat(unit: IUnit, orders: AnyOrder[]) {
+    const threat = this.getChargeThreat(unit);
+
+    if (!threat) {
+      return false;
+    }
+
+    this.changeToBestFormation(
+      unit,
+      (formation) =>
+        (formation.chargeResistanceModifier ?? 0) +
+        (formation.flankChargeResistance ?? 0) +
+        (formation.rearChargeResistance ?? 0)
+    );
+
+    const orderCount = orders.length;
+
+    if (unit.position.distanceTo(threat.position) <= unit.getMaxRange()) {
+      this.shootAt(unit, [threat], orders);
+    }
+
+    if (
+      orders.length === orderCount &&
+      this.gameDataManager.canUseOrder(unit.category, OrderType.Rotate)
+    ) {
+      orders.push({ type: OrderType.Rotate, id: unit.id, targetId: threat.id });
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets the closest enemy of a category that can charge, see {@link UnitStrategy.chargeThreat},
+   * if the unit itself isn't of such a category.
+   */
+  private getChargeThreat(unit: IUnit) {
+    if (
+      !this.difficulty.useFormations ||
+      this.getUnitStrategy(unit).chargeThreat
+    ) {
+      return null;
+    }
+
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const threats = this.getNearbyEnemies(
+      unit,
+      CHARGE_THREAT_DISTANCE * TILE_SIZE
+    ).filter((enemy) => this.getUnitStrategy(enemy).chargeThreat);
+
+    return this.getClosestEnemy(unit, threats);
+  }
+
+  private processUnitByStrategy(
+    unit: IUnit,
+    closestEnemy: IUnit | null,
+    strategy: UnitStrategy,
+    targetPosition: Vector2,
+    orders: AnyOrder[]
+  ) {
+    // Handle charging logic if strategy has chargeThreshold
+    if (closestEnemy && strategy.chargeThreshold !== undefined) {
+      const shouldCharge =
+        closestEnemy.org < unit.org &&
+        Math.abs(unit.org - closestEnemy.org) >=
+          strategy.chargeThreshold * this.difficulty.chargeThresholdMultiplier;
+
+      if (shouldCharge) {
+        orders.push({
+          type: OrderType.Run,
+          id: unit.id,
+          targetId: closestEnemy.id,
+        });
+        return;
+      }
+    }
+
+    // Handle Fire & Advance vs Walk preference
+    if (closestEnemy && strategy.preferFireAndAdvance !== undefined) {
+      if (strategy.preferFireAndAdvance) {
+        const path = this.getMovementPath(unit, closestEnemy.position);
+        orders.push({
+          type: OrderType.FireAndAdvance,
+          id: unit.id,
+          path: path,
+        });
+      } else {
+        orders.push({
+          type: OrderType.Walk,
+          id: unit.id,
+          targetId: closestEnemy.id,
+        });
+      }
+      return;
+    }
+
+    // Handle artillery avoidance for cavalry
+    if (strategy.avoidArtillery && closestEnemy) {
+      const enemyGroupType = this.getBotUnitCategory(closestEnemy.category);
+      // Find groups that are NOT of the same type as the enemy
+      const alternativeGroups = this.enemyGroups.filter(
+        (group) => this.getBotUnitCategory(group.category) !== enemyGroupType
+      );
+      if (alternativeGroups.length > 0) {
+        const alternativeTarget = this.getClosestGroup(
+          unit.position,
+          alternativeGroups
+        );
+        if (alternativeTarget) {
+          targetPosition = alternativeTarget.getCenter();
+        }
+      }
+    }
+
+    // Handle artillery distance maintenance
+    if (
+      strategy.maintainDistance &&
+      strategy.minDistanceFromEnemies !== undefined
+    ) {
+      const nearbyEnemies = this.getNearbyEnemies(
+        unit,
+        strategy.minDistanceFromEnemies *
+          this.gameDataManager.getGameConstants().TILE_SIZE
+      );
+
+      if (nearbyEnemies.length > 0) {
+        const enemyCenter = this.getClosestGroup(
+          unit.position,
+          this.enemyGroups
+        )?.getCenter();
+        if (enemyCenter) {
+          const direction = unit.position.subtract(enemyCenter).normalize();
+          const retreatPosition = unit.position.add(
+            direction.scale(
+              strategy.minDistanceFromEnemies *
+                this.gameDataManager.getGameConstants().TILE_SIZE
+            )
+          );
+          const path = this.getMovementPath(unit, retreatPosition);
+          this.changeToMarchFormation(unit);
+          orders.push({
+            type: OrderType.Walk,
+            id: unit.id,
+            path,
+          });
+        }
+        return;
+      }
+    }
+
+    // Check if unit is already in range (for artillery)
+    const nearbyEnemies = this.getNearbyEnemies(unit, unit.getMaxRange());
+
+    if (nearbyEnemies.length > 0) {
+      // Stay in position if already in range
+      this.changeToFireFormation(unit);
+      this.shootAt(unit, nearbyEnemies, orders);
+      return;
+    }
+
+    // Default movement towards target
+    const path = this.getMovementPath(unit, targetPosition);
+    this.changeToMarchFormation(unit);
+
+    if (strategy.preferRun) {
+      orders.push({
+        type: OrderType.Run,
+        id: unit.id,
+        path,
+      });
+    } else {
+      orders.push({
+        type: OrderType.Walk,
+        id: unit.id,
+        path,
+      });
+    }
+  }
+
+  /**
+   * Fires at the enemy with the highest autofire priority for the category of the unit. Among
+   * equal priorities, fire is focused on the enemies other units already fire at, then on the
+   * closest one.
+   */
+  private shootAt(unit: IUnit, enemies: IUnit[], orders: AnyOrder[]) {
+    if (
+      !this.difficulty.useShootOrders ||
+      !this.gameDataManager.canUseOrder(unit.category, OrderType.Shoot) ||
+      !this.game.canUnitShoot(unit)
+    ) {
+      return;
+    }
+
+    const { autofirePriority } = this.gameDataManager.getUnitCategoryTemplate(
+      unit.category
+    );
+    const getPriority = (enemy: IUnit) =>
+      autofirePriority?.[enemy.category] ?? 0;
+    const isShotAt = (enemy: IUnit) => Number(this.shootTargets.has(enemy.id));
+    const [bestTarget] = [...enemies].sort(
+      (a, b) =>
+        getPriority(b) - getPriority(a) ||
+        isShotAt(b) - isShotAt(a) ||
+        unit.position.squaredDistanceTo(a.position) -
+          unit.position.squaredDistanceTo(b.position)
+    );
+
+    if (!bestTarget) {
+      return;
+    }
+
+    const target = this.selectTarget(bestTarget, enemies);
+    this.shootTargets.add(target.id);
+
+    orders.push({
+      type: OrderType.Shoot,
+      id: unit.id,
+      targetId: target.id,
+    });
+  }
+
+  /**
+   * Holds the autofire of the area of effect damage types of a unit while allies are close to
+   * the enemies in its range, unless their formation is immune to friendly fire of that damage
+   * type.
+   */
+  private updateHoldFire(unit: IUnit) {
+    const { rangedDamageTypes } = unit.template as RangeUnitTemplate;
+    const areaDamageTypes = (rangedDamageTypes ?? [])
+      .map((name) =>
+        this.gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>(
+          name
+        )
+      )
+      .filter((damageType) => damageType.areaOfEffect);
+
+    if (areaDamageTypes.length === 0) {
+      return;
+    }
+
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const formationManager = this.gameDataManager.getFormationManager();
+    const enemiesInRange = this.getNearbyEnemies(unit, unit.getMaxRange());
+    const alliesAtRisk = enemiesInRange.flatMap((enemy) =>
+      this.game
+        .getNearbyUnits<IUnit>(
+          enemy.position,
+          FRIENDLY_FIRE_DISTANCE * TILE_SIZE
+        )
+        .filter((ally) => ally.team === this.team && ally.id !== unit.id)
+    );
+    const holdFireDamageTypes = areaDamageTypes
+      .filter(({ name }) =>
+        alliesAtRisk.some(
+          (ally) =>
+            !formationManager.isFriendlyFireImmune(ally.currentFormation, name)
+        )
+      )
+      .map(({ id }) => id);
+
+    const currentHoldFire = unit.holdFireDamageTypes ?? [];
+
+    if (holdFireDamageTypes.join() !== currentHoldFire.join()) {
+      this.autofireConfigChanges.push({ unitId: unit.id, holdFireDamageTypes });
+    }
+  }
+
+  /**
+   * Changes to the fastest formation of the unit.
+   */
+  private changeToMarchFormation(unit: IUnit) {
+    this.changeToBestFormation(
+      unit,
+      (formation) => formation.movementModifier ?? 0
+    );
+  }
+
+  /**
+   * Changes to the formation with the best ranged attack, without giving up too much mobility.
+   */
+  private changeToFireFormation(unit: IUnit) {
+    this.changeToBestFormation(
+      unit,
+      (formation) =>
+        (formation.rangedAttackModifier ?? 0) +
+        (formation.movementModifier ?? 0)
+    );
+  }
+
+  /**
+   * Changes the formation of a unit to the one with the highest score, if it beats the current one.
+   * A unit changes formation at most once per turn, the first change wins.
+   */
+  private changeToBestFormation(
+    unit: IUnit,
+    getScore: (formation: FormationTemplate) => number
+  ) {
+    if (
+      !this.difficulty.useFormations ||
+      this.formationChanges.some((change) => change.unitId === unit.id)
+    ) {
+      return;
+    }
+
+    const formationManager = this.gameDataManager.getFormationManager();
+    const currentFormation = formationManager.getTemplate(
+      unit.currentFormation
+    );
+    let bestFormationId = unit.currentFormation;
+    let bestScore = currentFormation ? getScore(currentFormation) : -Infinity;
+
+    for (const { id } of unit.template.formations) {
+      const formation = formationManager.getTemplate(id);
+
+      if (formation && getScore(formation) > bestScore) {
+        bestFormationId = id;
+        bestScore = getScore(formation);
+      }
+    }
+
+    if (bestFormationId !== unit.currentFormation) {
+      this.formationChanges.push({
+        unitId: unit.id,
+        formationId: bestFormationId,
+      });
+    }
+  }
+
+  private getStrategyForType(groupType: BotUnitCategory) {
+    return this.config.strategies[groupType];
+  }
+
+  private getUnitStrategy(unit: IUnit) {
+    return this.getStrategyForType(this.getBotUnitCategory(unit.category));
+  }
+
+  private formGroups(units: IUnit[]) {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+
+    const groups: UnitGroup[] = [];
+
+    for (const unit of units) {
+      if (unit.isRoutingOrRecovering()) {
+        continue;
+      }
+
+      let addedToGroup = false;
+      const unitGroupType = this.getBotUnitCategory(unit.category);
+
+      for (const group of groups) {
+        const groupType = this.getBotUnitCategory(group.category);
+        const maxSize = this.getMaxGroupSize(groupType);
+
+        if (
+          group.size < maxSize &&
+          groupType === unitGroupType &&
+          unit.position.distanceTo(group.getCenter()) <=
+            TILE_SIZE * this.getGroupCohesion(groupType)
+        ) {
+          addedToGroup = true;
+          group.addUnit(unit);
+          break;
+        }
+      }
+
+      if (!addedToGroup) {
+        const newGroup = new UnitGroup([unit], unit.category);
+        groups.push(newGroup);
+      }
+    }
+
+    return groups;
+  }
+
+  private getClosestGroup(position: Point2, groups: UnitGroup[]) {
+    let closestGroup: UnitGroup | null = null;
+    let closestDistance = Infinity;
+
+    for (const group of groups) {
+      const squaredDistance = getSquaredDistance(position, group.getCenter());
+
+      if (squaredDistance < closestDistance) {
+        closestDistance = squaredDistance;
+        closestGroup = group;
+      }
+    }
+
+    return closestGroup;
+  }
+
+  private getMovementPath(
+    unit: IUnit,
+    { x: endX, y: endY }: Point2
+  ): OrderPathPoint[] {
+    if (!this.difficulty.usePathfinding) {
+      return [[endX, endY]];
+    }
+
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+
+    const formationDimensions = this.gameDataManager.getUnitDimensions(
+      unit.type,
+      unit.currentFormation
+    );
+
+    const getStepCost = (from: Point2, to: Point2) => {
+      const terrain = this.game.map.terrains[to.x][to.y];
+
+      const modifier = this.gameDataManager.getMovementModifier(
+        terrain,
+        unit.category
+      );
+
+      const terrainCost = this._getTerrainCost(modifier);
+      const isPassable = this.gameDataManager.isPassable(terrain);
+
+      if (!isPassable) {
+        return Infinity;
+      }
+
+      // Check for allied units at the target position
+      const positionToCheck = {
+        x: to.x * TILE_SIZE + TILE_SIZE / 2,
+        y: to.y * TILE_SIZE + TILE_SIZE / 2,
+      };
+
+      // Use unit's actual height for nearby units search
+      const unitHeight = formationDimensions.height;
+      const alliedUnits = this.game
+        .getNearbyUnits<IUnit>(positionToCheck, unitHeight)
+        .filter(
+          (u) =>
+            u.team === unit.team &&
+            u.id !== unit.id && // Don't count the unit itself
+            !u.isRoutingOrRecovering()
+        );
+
+      // Multiply cost if allied unit is present (e.g., multiply by 5)
+      const allyCostMultiplier = alliedUnits.length > 0 ? 5 : 1;
+
+      return terrainCost * allyCostMultiplier;
+    };
+
+    const tileWidth = this.game.map.terrains.length;
+    const tileHeight = this.game.map.terrains[0]?.length ?? 0;
+    const aStar = new AStar(tileWidth, tileHeight, getStepCost);
+
+    const startTile = {
+      x: Math.floor(unit.position.x / TILE_SIZE),
+      y: Math.floor(unit.position.y / TILE_SIZE),
+    };
+
+    const endTile = {
+      x: Math.floor(endX / TILE_SIZE),
+      y: Math.floor(endY / TILE_SIZE),
+    };
+
+    let path = aStar.findPath(startTile, endTile);
+
+    if (path === null) {
+      return []; // Don't move if no valid path exists
+    }
+
+    path = douglasPeucker(path);
+
+    const halfTileSize = TILE_SIZE / 2;
+
+    return path.reduce((acc: OrderPathPoint[], curr, i) => {
+      if (i === 0) {
+        return acc;
+      }
+
+      acc.push([
+        curr.x * TILE_SIZE + halfTileSize,
+        curr.y * TILE_SIZE + halfTileSize,
+      ]);
+
+      return acc;
+    }, []);
+  }
+
+  private _getTerrainCost(movementModifier: number) {
+    // Calculate speed factor: 1 is base speed, +modifier increases it, -modifier decreases it
+    const speedFactor = 1 + movementModifier; // e.g., +0.5 -> 1.5, -0.5 -> 0.5
+
+    // Cost is inverse of speed: faster = lower cost, slower = higher cost
+    const cost = 1 / speedFactor;
+
+    // Round to nearest integer, but allow fractional costs for positive modifiers
+    return cost;
+  }
+
+  /**
+   * Gets the player number this bot controls.
+   * @returns The player number.
+   */
+  getPlayerNumber(): number {
+    return this.playerNumber;
+  }
+
+  /**
+   * Gets the team number this bot belongs to.
+   * @returns The team number.
+   */
+  getTeam(): number {
+    return this.team;
+  }
+
+  /**
+   * Gets the skill parameters of the bot.
+   * @returns The difficulty profile.
+   */
+  getDifficultyProfile(): BotDifficultyProfile {
+    return this.difficulty;
+  }
+}
@@ -0,0 +1,50 @@
+import { BotDifficulty, BotDifficultyProfile } from "./types";
+
+/**
+ * Skill parameters of each bot difficulty.
+ */
+export const BOT_DIFFICULTY_PROFILES: Record<
+  BotDifficulty,
+  BotDifficultyProfile
+> = {
+  [BotDifficulty.Easy]: {
+    reactionLag: 2,
+    targetSelectionAccuracy: 0.5,
+    usePathfinding: false,
+    useFormations: false,
+    useShootOrders: false,
+    useFallback: false,
+    chargeThresholdMultiplier: 0.5,
+    respectFogOfWar: true,
+  },
+  [BotDifficulty.Normal]: {
+    reactionLag: 0,
+    targetSelectionAccuracy: 1,
+    usePathfinding: true,
+    useFormations: false,
+    useShootOrders: false,
+    useFallback: true,
+    chargeThresholdMultiplier: 1,
+    respectFogOfWar: true,
+  },
+  [BotDifficulty.Hard]: {
+    reactionLag: 0,
+    targetSelectionAccuracy: 1,
+    usePathfinding: true,
+    useFormations: true,
+    useShootOrders: true,
+    useFallback: true,
+    chargeThresholdMultiplier: 1,
+    respectFogOfWar: true,
+  },
+  [BotDifficulty.Expert]: {
+    reactionLag: 0,
+    targetSelectionAccuracy: 1,
+    usePathfinding: true,
+    useFormations: true,
+    useShootOrders: true,
+    useFallback: true,
+    chargeThresholdMultiplier: 1.25,
+    respectFogOfWar: false,
+  },
+};
@@ -1,3 +1,5 @@
+export * from "./bot";
 export * from "./bot-napoleonic";
 export * from "./bot-ww2";
+export * from "./difficulty-profiles";
 export * from "./types";
@@ -43,12 +43,33 @@ export interface BotConfig {
   };
 }
 
+/**
+ * How the groups of a bot unit category choose where to go.
+ */
+export enum BotBehavior {
+  /** Attacks the closest enemy group or enemy objective. */
+  Balanced = "balanced",
+  /** Attacks the flank of the closest enemy group. */
+  Flanking = "flanking",
+  /** Stays behind the closest allied group that isn't a support group. */
+  Support = "support",
+  /**
+   * Holds the closest allied objective while it is at risk, and otherwise attacks like
+   * {@link BotBehavior.Balanced}.
+   */
+  Defensive = "defensive",
+  /** Attacks the closest enemy group. */
+  Direct = "direct",
+  /** Attacks the closest enemy group, like {@link BotBehavior.Direct}. */
+  Offensive = "offensive",
+}
+
 /**
  * Strategy configuration for a unit category.
  */
 export interface UnitStrategy {
-  /** The behavior type (e.g., "balanced", "flanking", "support"). */
-  behavior: string;
+  /** How the groups choose where to go. */
+  behavior: BotBehavior;
   /** Whether to prefer fire and advance orders. */
   preferFireAndAdvance?: boolean;
   /** Organization threshold for charging. */
@@ -63,6 +84,52 @@ export interface UnitStrategy {
   maintainDistance?: boolean;
   /** Minimum distance to maintain from enemies (in tiles). */
   minDistanceFromEnemies?: number;
+  /** Whether enemy units of this category can charge, so the other units form up against them. */
+  chargeThreat?: boolean;
+  /** HP ratio, between 0 and 1, under which units fall back from the nearby enemies. */
+  fallbackHpRatio?: number;
+}
+
+/**
+ * Difficulty levels of the bots.
+ */
+export enum BotDifficulty {
+  Easy = "easy",
+  Normal = "normal",
+  Hard = "hard",
+  Expert = "expert",
+}
+
+/**
+ * Skill parameters of a bot.
+ */
+export interface BotDifficultyProfile {
+  /** Turns a unit keeps its last order before the bot re-orders it. 0 re-orders every turn. */
+  reactionLag: number;
+  /** Chance, between 0 and 1, of picking the best target instead of a random one. */
+  targetSelectionAccuracy: number;
+  /** Whether paths are found with A*. Otherwise units move in a straight line. */
+  usePathfinding: boolean;
+  /** Whether the bot changes the formations of its units. */
+  useFormations: boolean;
+  /** Whether units in range get Shoot orders. Otherwise they rely on autofire. */
+  useShootOrders: boolean;
+  /** Whether damaged units fall back from the nearby enemies. */
+  useFallback: boolean;
+  /** Multiplier of the charge thresholds of the strategies. Lower values charge with less organization advantage. */
+  chargeThresholdMultiplier: number;
+  /** Whether the bot only knows about the enemy units it can see. */
+  respectFogOfWar: boolean;
+}
+
+/**
+ * Options of a bot.
+ */
+export interface BotOptions {
+  /** Difficulty level or custom skill parameters. Default: {@link BotDifficulty.Normal}. */
+  difficulty?: BotDifficulty | BotDifficultyProfile;
+  /** Seed of the random decisions of the bot. Default: 0. */
+  seed?: number;
 }
 
 /**
@@ -98,4 +165,9 @@ export interface IBot {
    * @returns The team number.
    */
   getTeam(): number;
+  /**
+   * Gets the skill parameters of the bot.
+   * @returns The difficulty profile.
+   */
+  getDifficultyProfile(): BotDifficultyProfile;
 }
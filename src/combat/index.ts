@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./melee";
+export * from "./ranged";
@@ -0,0 +1,137 @@
+import { Direction } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { calculateMeleeDamage } from "./melee";
+import { CombatUnitSnapshot } from "./types";
+
+describe("calculateMeleeDamage()", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const templates = gameDataManager.getUnitTemplateManager();
+  const { flanking } = gameDataManager.getGameRules();
+
+  const infantry: CombatUnitSnapshot = { type: 1, terrain: 0 };
+  const dragoons: CombatUnitSnapshot = { type: 2, terrain: 0 };
+
+  it("should deal attack² / (attack + defense) without modifiers", () => {
+    const { hit, breakdown } = calculateMeleeDamage(
+      gameDataManager,
+      infantry,
+      infantry,
+      Direction.Front,
+      false
+    );
+    const { meleeAttack, meleeDefense } = templates.getTemplate(1);
+
+    expect(hit.damage).toBeCloseTo(
+      (meleeAttack * meleeAttack) / (meleeAttack + meleeDefense)
+    );
+    expect(hit.orgBonus).toBe(0);
+    expect(hit.charge).toBe(false);
+    expect(hit.backlashHit).toBeUndefined();
+    expect(breakdown.damageModifier).toBe(1);
+  });
+
+  it("should apply the terrain modifiers of both units", () => {
+    const { breakdown } = calculateMeleeDamage(
+      gameDataManager,
+      infantry,
+      { ...infantry, terrain: 1 },
+      Direction.Front,
+      false
+    );
+
+    expect(breakdown.defenseTerrainModifier).toBe(
+      gameDataManager.getUnitTerrainDefenseModifier("infantry", 1)
+    );
+    expect(breakdown.defense).toBeCloseTo(
+      templates.getTemplate(1).meleeDefense *
+        (1 + breakdown.defenseTerrainModifier)
+    );
+  });
+
+  it("should give flank attacks extra org damage unless the formation disables them", () => {
+    const flank = calculateMeleeDamage(
+      gameDataManager,
+      infantry,
+      infantry,
+      Direction.Left,
+      false
+    );
+    const square = calculateMeleeDamage(
+      gameDataManager,
+      infantry,
+      { ...infantry, formation: "square" },
+      Direction.Left,
+      false
+    );
+
+    expect(flank.hit.orgBonus).toBe(flanking!.meleeOrgDamageModifier);
+    expect(square.breakdown.side).toBe(Direction.Front);
+    expect(square.hit.orgBonus).toBe(0);
+  });
+
+  it("should reduce the charge bonus by the resistance left and cause a backlash", () => {
+    const front = calculateMeleeDamage(
+      gameDataManager,
+      dragoons,
+      infantry,
+      Direction.Front,
+      true
+    );
+    const rear = calculateMeleeDamage(
+      gameDataManager,
+      dragoons,
+      infantry,
+      Direction.Back,
+      true
+    );
+
+    expect(front.hit.charge).toBe(true);
+    expect(front.breakdown.effectiveChargeResistance).toBeGreaterThan(0);
+    expect(front.breakdown.chargeModifier).toBeLessThan(
+      front.breakdown.chargeBonus
+    );
+    expect(front.hit.backlashHit!.damage).toBeGreaterThan(0);
+    expect(front.hit.backlashHit!.damageType).toBe(
+      templates.getTemplate(1).meleeDamageType
+    );
+
+    expect(rear.breakdown.effectiveChargeResistance).toBe(0);
+    expect(rear.breakdown.chargeModifier).toBe(rear.breakdown.chargeBonus);
+    expect(rear.hit.backlashHit).toBeUndefined();
+    expect(rear.hit.damage).toBeGreaterThan(front.hit.damage);
+  });
+
+  it("should lose charge resistance with organization", () => {
+    const organized = calculateMeleeDamage(
+      gameDataManager,
+      dragoons,
+      infantry,
+      Direction.Front,
+      true
+    );
+    const disorganized = calculateMeleeDamage(
+      gameDataManager,
+      dragoons,
+      { ...infantry, org: 0 },
+      Direction.Front,
+      true
+    );
+
+    expect(disorganized.breakdown.chargeResistance).toBeLessThan(
+      organized.breakdown.chargeResistance
+    );
+  });
+
+  it("should not charge against categories the damage type cannot charge", () => {
+    const { hit, breakdown } = calculateMeleeDamage(
+      gameDataManager,
+      infantry,
+      dragoons,
+      Direction.Front,
+      true
+    );
+
+    expect(hit.charge).toBe(false);
+    expect(breakdown.chargeModifier).toBe(0);
+  });
+});
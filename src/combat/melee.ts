@@ -0,0 +1,261 @@
+import {
+  DamageHit,
+  Direction,
+  FormationTemplate,
+  OrderType,
+  UnitTemplate,
+} from "@lob-sdk/types";
+import {
+  GameDataManager,
+  MeleeDamageTypeTemplate,
+} from "@lob-sdk/game-data-manager";
+import {
+  CombatUnitSnapshot,
+  MeleeDamageBreakdown,
+  MeleeDamageResult,
+} from "./types";
+import { getFormation, getOrgProportion, getTemplate } from "./utils";
+
+/**
+ * Calculates the damage of a melee attack between two units.
+ *
+ * The base damage is `attack² / (attack + defense)`, with the terrain modifiers of both units.
+ * A charge adds the charge bonus of the attacker, reduced by the charge resistance of the
+ * defender's attacked side minus the charge penetration of the attacker. Whatever resistance
+ * is left makes the charger receive a backlash hit. Flank and rear attacks deal extra
+ * organization damage, unless the formation of the defender disables them.
+ *
+ * @param gameDataManager - The game data manager of the era.
+ * @param attacker - The attacking unit.
+ * @param defender - The defending unit.
+ * @param side - Side of the defender that is attacked.
+ * @param isCharging - Whether the attacker is charging.
+ * @returns The hit of the attack and the breakdown of its modifiers.
+ */
+export function calculateMeleeDamage(
+  gameDataManager: GameDataManager,
+  attacker: CombatUnitSnapshot,
+  defender: CombatUnitSnapshot,
+  side: Direction,
+  isCharging: boolean
+): MeleeDamageResult {
+  const {
+    MAX_DAMAGE_MODIFIER_CLAMP,
+    CHARGE_BACKLASH_BASE,
+    CHARGE_BACKLASH_DEFENDER_CHARGE_BONUS_MULTIPLIER,
+    CHARGE_BACKLASH_DEFENDER_RESISTANCE_MULTIPLIER,
+    CHARGE_BACKLASH_ATTACKER_RESISTANCE_OFFSET,
+  } = gameDataManager.getGameConstants();
+  const { flanking } = gameDataManager.getGameRules();
+
+  const attackerTemplate = getTemplate(gameDataManager, attacker);
+  const defenderTemplate = getTemplate(gameDataManager, defender);
+  const attackerFormation = getFormation(gameDataManager, attacker);
+  const defenderFormation = getFormation(gameDataManager, defender);
+  const damageType =
+    gameDataManager.getDamageTypeByName<MeleeDamageTypeTemplate>(
+      attackerTemplate.meleeDamageType
+    );
+
+  const attackTerrainModifier = gameDataManager.getUnitTerrainAttackModifier(
+    attackerTemplate.category,
+    attacker.terrain
+  );
+  const defenseTerrainModifier = gameDataManager.getUnitTerrainDefenseModifier(
+    defenderTemplate.category,
+    defender.terrain
+  );
+  const attack = attackerTemplate.meleeAttack * (1 + attackTerrainModifier);
+  const defense = defenderTemplate.meleeDefense * (1 + defenseTerrainModifier);
+  const baseDamage = getBaseDamage(attack, defense);
+
+  const effectiveSide =
+    ((side === Direction.Left || side === Direction.Right) &&
+      defenderFormation.disablesFlankMelee) ||
+    (side === Direction.Back && defenderFormation.disablesRearMelee)
+      ? Direction.Front
+      : side;
+  const isFlank =
+    effectiveSide === Direction.Left || effectiveSide === Direction.Right;
+  const isRear = effectiveSide === Direction.Back;
+
+  const charge =
+    isCharging &&
+    !gameDataManager
+      .getChargeRestrictions(damageType.name)
+      ?.has(defenderTemplate.category);
+
+  const chargeBonus =
+    (attackerTemplate.chargeBonus / 100) *
+    (1 +
+      (attackerFormation.chargeBonusModifier ?? 0) +
+      gameDataManager.getChargeBonusModifier(
+        attackerTemplate.category,
+        attacker.terrain
+      ));
+
+  let sidePenetrationModifier = 0;
+
+  if (isFlank) {
+    sidePenetrationModifier = flanking?.chargePenetrationModifier ?? 0;
+  } else if (isRear) {
+    sidePenetrationModifier = flanking?.rearChargePenetrationModifier ?? 0;
+  }
+
+  const chargePenetration =
+    (attackerTemplate.chargePenetration ?? 0) *
+    (1 + (attackerFormation.chargePenetrationModifier ?? 0)) *
+    (1 + sidePenetrationModifier);
+  const chargeResistance = getChargeResistance(
+    gameDataManager,
+    defender,
+    defenderTemplate,
+    defenderFormation,
+    effectiveSide
+  );
+  const effectiveChargeResistance = charge
+    ? Math.min(1, Math.max(0, chargeResistance - chargePenetration))
+    : 0;
+  const chargeModifier = charge
+    ? chargeBonus * (1 - effectiveChargeResistance)
+    : 0;
+
+  const damageTypeModifier = damageType.damageModifier ?? 0;
+  const formationModifier = defenderFormation.receivedMeleeDamageModifier ?? 0;
+  const categoryResistance = gameDataManager.getUnitCategoryResistance(
+    defenderTemplate.category,
+    damageType.name
+  );
+  const damageModifier = Math.max(
+    1 + MAX_DAMAGE_MODIFIER_CLAMP,
+    (1 + chargeModifier + damageTypeModifier + formationModifier) *
+      (1 - categoryResistance)
+  );
+
+  let orgBonus = 0;
+
+  if (isFlank) {
+    orgBonus = flanking?.meleeOrgDamageModifier ?? 0;
+  } else if (isRear) {
+    orgBonus = flanking?.rearMeleeOrgDamageModifier ?? 0;
+  }
+
+  let backlashModifier = 0;
+
+  if (effectiveChargeResistance > 0) {
+    const attackerChargeResistance = getChargeResistance(
+      gameDataManager,
+      attacker,
+      attackerTemplate,
+      attackerFormation,
+      Direction.Front
+    );
+    const shieldingResistance =
+      attackerChargeResistance - CHARGE_BACKLASH_ATTACKER_RESISTANCE_OFFSET;
+    const attackerExposure = 1 - Math.min(1, Math.max(0, shieldingResistance));
+
+    backlashModifier =
+      effectiveChargeResistance *
+      (CHARGE_BACKLASH_BASE +
+        (defenderTemplate.chargeBonus / 100) *
+          CHARGE_BACKLASH_DEFENDER_CHARGE_BONUS_MULTIPLIER +
+        Math.max(0, chargeResistance) *
+          CHARGE_BACKLASH_DEFENDER_RESISTANCE_MULTIPLIER) *
+      attackerExposure;
+  }
+
+  const hit: DamageHit = {
+    damage: baseDamage * damageModifier,
+    orgBonus,
+    damageType: damageType.name,
+    charge,
+  };
+
+  if (backlashModifier > 0) {
+    const counterAttack =
+      defenderTemplate.meleeAttack *
+      (1 +
+        gameDataManager.getUnitTerrainAttackModifier(
+          defenderTemplate.category,
+          defender.terrain
+        ));
+    const counterDefense =
+      attackerTemplate.meleeDefense *
+      (1 +
+        gameDataManager.getUnitTerrainDefenseModifier(
+          attackerTemplate.category,
+          attacker.terrain
+        ));
+
+    hit.backlashHit = {
+      damage: getBaseDamage(counterAttack, counterDefense) * backlashModifier,
+      orgBonus: 0,
+      damageType: defenderTemplate.meleeDamageType,
+    };
+  }
+
+  const breakdown: MeleeDamageBreakdown = {
+    attack,
+    attackTerrainModifier,
+    defense,
+    defenseTerrainModifier,
+    baseDamage,
+    side: effectiveSide,
+    charge,
+    chargeBonus,
+    chargePenetration,
+    chargeResistance,
+    effectiveChargeResistance,
+    chargeModifier,
+    damageTypeModifier,
+    formationModifier,
+    categoryResistance,
+    damageModifier,
+    orgBonus,
+    backlashModifier,
+  };
+
+  return { hit, breakdown };
+}
+
+/**
+ * Gets the charge resistance of a unit against a charge on one of its sides.
+ * Resistance is lost as the unit loses organization.
+ */
+function getChargeResistance(
+  gameDataManager: GameDataManager,
+  unit: CombatUnitSnapshot,
+  template: UnitTemplate,
+  formation: FormationTemplate,
+  side: Direction
+): number {
+  const { CHARGE_RESISTANCE_LOSS_BY_ORG } = gameDataManager.getGameConstants();
+  const orderType = unit.orderType ?? null;
+  const orgProportion = getOrgProportion(unit, template);
+
+  let resistance =
+    (template.chargeResistance ?? 0) +
+    (formation.chargeResistanceModifier ?? 0) +
+    gameDataManager.getChargeResistanceModifier(
+      template.category,
+      unit.terrain
+    ) +
+    (gameDataManager.tryGetOrderTemplate(orderType)?.chargeResistance ?? 0) -
+    CHARGE_RESISTANCE_LOSS_BY_ORG * (1 - orgProportion);
+
+  if (orderType === OrderType.Run) {
+    resistance += template.runChargeResistanceModifier ?? 0;
+  }
+
+  if (side === Direction.Left || side === Direction.Right) {
+    resistance += formation.flankChargeResistance ?? 0;
+  } else if (side === Direction.Back) {
+    resistance += formation.rearChargeResistance ?? 0;
+  }
+
+  return resistance;
+}
+
+function getBaseDamage(attack: number, defense: number): number {
+  return attack + defense > 0 ? (attack * attack) / (attack + defense) : 0;
+}
@@ -0,0 +1,217 @@
+import { Direction, GameMap } from "@lob-sdk/types";
+import {
+  CircularAoEConfig,
+  GameDataManager,
+  RangedDamageTypeTemplate,
+  TrapezoidalAoeConfig,
+} from "@lob-sdk/game-data-manager";
+import {
+  calculateRangedDamage,
+  getAreaOfEffectModifier,
+  getRangeModifier,
+  resolveShot,
+} from "./ranged";
+import { CombatUnitSnapshot } from "./types";
+
+describe("ranged", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const { TILE_SIZE } = gameDataManager.getGameConstants();
+  const musket =
+    gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>("musket");
+  const infantry: CombatUnitSnapshot = { type: 1, terrain: 0 };
+
+  const createMap = (tiles = 32): GameMap => ({
+    width: tiles * TILE_SIZE,
+    height: tiles * TILE_SIZE,
+    terrains: Array.from({ length: tiles }, () => Array(tiles).fill(0)),
+    heightMap: Array.from({ length: tiles }, () => Array(tiles).fill(0)),
+  });
+
+  const circle = (x: number, y: number, radius = 6) => ({
+    center: { x, y },
+    radius,
+  });
+
+  describe("getRangeModifier()", () => {
+    it("should interpolate the modifier within the range of the distance", () => {
+      const [, close] = musket.ranges;
+      const distance = (close.start + close.end) / 2;
+
+      expect(getRangeModifier(musket, distance)).toBeCloseTo(
+        (close.startMod + close.endMod) / 2
+      );
+      expect(getRangeModifier(musket, 1000)).toBeNull();
+    });
+  });
+
+  describe("calculateRangedDamage()", () => {
+    it("should multiply the ranged attack by the modifiers", () => {
+      const { hit, breakdown } = calculateRangedDamage(
+        gameDataManager,
+        infantry,
+        infantry,
+        "musket",
+        30,
+        Direction.Front
+      );
+
+      expect(breakdown.rangeModifier).toBeCloseTo(
+        getRangeModifier(musket, 30)!
+      );
+      expect(breakdown.enfiladeModifier).toBe(0);
+      expect(hit.damage).toBeCloseTo(26 * breakdown.damageModifier);
+    });
+
+    it("should add enfilade damage to shots into the flank", () => {
+      const front = calculateRangedDamage(
+        gameDataManager,
+        infantry,
+        infantry,
+        "musket",
+        30,
+        Direction.Front
+      );
+      const flank = calculateRangedDamage(
+        gameDataManager,
+        infantry,
+        infantry,
+        "musket",
+        30,
+        Direction.Right
+      );
+      const { enfiladeFire } =
+        gameDataManager.getUnitCategoryTemplate("infantry");
+
+      expect(flank.breakdown.enfiladeModifier).toBe(
+        enfiladeFire!.damageModifier
+      );
+      expect(flank.hit.damage).toBeGreaterThan(front.hit.damage);
+      expect(flank.hit.orgBonus).toBeGreaterThan(front.hit.orgBonus);
+    });
+
+    it("should deal less damage to disorganized targets", () => {
+      const { breakdown } = calculateRangedDamage(
+        gameDataManager,
+        infantry,
+        { ...infantry, org: 0 },
+        "musket",
+        30,
+        Direction.Front
+      );
+
+      expect(breakdown.orgDiminishModifier).toBe(
+        musket.diminishByTargetOrg!.modifier
+      );
+    });
+  });
+
+  describe("getAreaOfEffectModifier()", () => {
+    const shell: CircularAoEConfig = {
+      type: "circular",
+      ranges: [{ start: 0, end: 100, startRadius: 20, endRadius: 20 }],
+      edgeDamageModifier: -0.5,
+    };
+    const cannonBall: TrapezoidalAoeConfig = {
+      type: "trapezoidal",
+      ranges: [
+        {
+          start: 0,
+          end: 100,
+          startTopWidth: 20,
+          endTopWidth: 20,
+          startBottomWidth: 20,
+          endBottomWidth: 20,
+          startHeight: 50,
+          endHeight: 50,
+        },
+      ],
+      offset: 0.8,
+    };
+    const origin = { x: 0, y: 0 };
+    const impact = { x: 100, y: 0 };
+
+    it("should deal less damage towards the edge of circular areas", () => {
+      expect(
+        getAreaOfEffectModifier(shell, origin, impact, [circle(100, 0)])
+      ).toBe(1);
+      expect(
+        getAreaOfEffectModifier(shell, origin, impact, [circle(116, 0)])
+      ).toBeCloseTo(0.75);
+      expect(
+        getAreaOfEffectModifier(shell, origin, impact, [circle(130, 0)])
+      ).toBeNull();
+    });
+
+    it("should extend trapezoidal areas beyond the impact", () => {
+      expect(
+        getAreaOfEffectModifier(cannonBall, origin, impact, [circle(140, 0)])
+      ).toBe(1);
+      expect(
+        getAreaOfEffectModifier(cannonBall, origin, impact, [circle(80, 0)])
+      ).toBeNull();
+      expect(
+        getAreaOfEffectModifier(cannonBall, origin, impact, [circle(120, 30)])
+      ).toBeNull();
+    });
+  });
+
+  describe("resolveShot()", () => {
+    it("should hit the units in the way with the penetration left", () => {
+      const { hits, end } = resolveShot(
+        gameDataManager,
+        createMap(),
+        "musket",
+        { x: 100, y: 100 },
+        { x: 200, y: 100 },
+        [
+          { unit: "far", circles: [circle(200, 100)] },
+          { unit: "near", circles: [circle(150, 100)] },
+          { unit: "aside", circles: [circle(150, 150)] },
+        ]
+      );
+
+      expect(hits.map((hit) => hit.unit)).toEqual(["near", "far"]);
+      expect(hits[0].strength).toBe(1);
+      expect(hits[1].strength).toBeCloseTo(musket.projectilePenetration!);
+      expect(end).toEqual({ x: 200, y: 100 });
+    });
+
+    it("should be absorbed by the terrain it crosses", () => {
+      const map = createMap();
+      const forest = 1;
+      map.terrains[9][6] = forest;
+
+      const { hits } = resolveShot(
+        gameDataManager,
+        map,
+        "musket",
+        { x: 100, y: 100 },
+        { x: 200, y: 100 },
+        [{ unit: "target", circles: [circle(200, 100)] }]
+      );
+
+      expect(hits[0].strength).toBeCloseTo(
+        1 - gameDataManager.getTerrainProjectileAbsorption(forest, "musket")
+      );
+    });
+
+    it("should hit every unit in the area of effect", () => {
+      const { hits } = resolveShot(
+        gameDataManager,
+        createMap(64),
+        "explosive-shell",
+        { x: 100, y: 100 },
+        { x: 250, y: 100 },
+        [
+          { unit: "center", circles: [circle(250, 100)] },
+          { unit: "edge", circles: [circle(250, 120)] },
+          { unit: "out", circles: [circle(150, 100)] },
+        ]
+      );
+
+      expect(hits.map((hit) => hit.unit)).toEqual(["center", "edge"]);
+      expect(hits[0].strength).toBe(1);
+      expect(hits[1].strength).toBeLessThan(1);
+    });
+  });
+});
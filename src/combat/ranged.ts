@@ -0,0 +1,567 @@
+import { Direction, GameMap, TerrainType } from "@lob-sdk/types";
+import {
+  AoeConfig,
+  GameDataManager,
+  RangedDamageTypeTemplate,
+} from "@lob-sdk/game-data-manager";
+import { Point2, Vector2 } from "@lob-sdk/vector";
+import {
+  CombatUnitSnapshot,
+  HitboxCircle,
+  RangedDamageBreakdown,
+  RangedDamageResult,
+  ShotHit,
+  ShotObstacle,
+  ShotResolution,
+} from "./types";
+import { getFormation, getOrgProportion, getTemplate } from "./utils";
+
+/**
+ * Projectiles weaker than this stop.
+ */
+const MIN_SHOT_STRENGTH = 0.01;
+
+/**
+ * Gets the range modifier of a damage type at a distance, interpolating
+ * between the `startMod` and `endMod` of the range the distance falls in.
+ * @param damageType - The ranged damage type.
+ * @param distance - Distance of the shot in pixels.
+ * @returns The range modifier, or null if the distance is out of range.
+ */
+export function getRangeModifier(
+  damageType: RangedDamageTypeTemplate,
+  distance: number
+): number | null {
+  const range = damageType.ranges.find(
+    ({ start, end }) => distance >= start && distance <= end
+  );
+
+  if (!range) {
+    return null;
+  }
+
+  const t =
+    range.end > range.start
+      ? (distance - range.start) / (range.end - range.start)
+      : 0;
+
+  return range.startMod + (range.endMod - range.startMod) * t;
+}
+
+/**
+ * Gets the damage modifier of a damage type against a target that is already disorganized.
+ * The modifier grows linearly from 0 at the `start` org proportion to its full value at the `end`.
+ * @param damageType - The ranged damage type.
+ * @param orgProportion - Organization of the target as a proportion of its max organization.
+ * @returns The damage modifier, 0 or negative.
+ */
+export function getOrgDiminishModifier(
+  damageType: RangedDamageTypeTemplate,
+  orgProportion: number
+): number {
+  const { diminishByTargetOrg } = damageType;
+
+  if (!diminishByTargetOrg) {
+    return 0;
+  }
+
+  const { start, end, modifier } = diminishByTargetOrg;
+
+  if (orgProportion >= start || start <= end) {
+    return 0;
+  }
+
+  return modifier * Math.min(1, (start - orgProportion) / (start - end));
+}
+
+/**
+ * Calculates the damage of a ranged attack on a unit.
+ *
+ * Enfilade fire into the flanks of the target, or its rear unless its formation
+ * disables it, adds the enfilade bonus of the target's category. Rear fire also
+ * adds the rear fire organization bonus of the category.
+ *
+ * @param gameDataManager - The game data manager of the era.
+ * @param shooter - The shooting unit.
+ * @param target - The unit that is hit.
+ * @param damageTypeName - Name of the ranged damage type of the shot.
+ * @param distance - Distance from the shooter to the target.
+ * @param side - Side of the target that is hit.
+ * @param stepStrength - Strength the projectile keeps when it reaches the target, see {@link resolveShot}.
+ * @returns The hit on the target and the breakdown of its modifiers.
+ */
+export function calculateRangedDamage(
+  gameDataManager: GameDataManager,
+  shooter: CombatUnitSnapshot,
+  target: CombatUnitSnapshot,
+  damageTypeName: string,
+  distance: number,
+  side: Direction,
+  stepStrength = 1
+): RangedDamageResult {
+  const { MAX_DAMAGE_MODIFIER_CLAMP } = gameDataManager.getGameConstants();
+  const damageType =
+    gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>(
+      damageTypeName
+    );
+  const shooterTemplate = getTemplate(gameDataManager, shooter);
+  const targetTemplate = getTemplate(gameDataManager, target);
+  const targetFormation = getFormation(gameDataManager, target);
+  const orderTemplate = gameDataManager.tryGetOrderTemplate(
+    shooter.orderType ?? null
+  );
+  const { enfiladeFire, rearFire } = gameDataManager.getUnitCategoryTemplate(
+    targetTemplate.category
+  );
+
+  const isFlank = side === Direction.Left || side === Direction.Right;
+  const isRear =
+    side === Direction.Back && !targetFormation.disablesEnfiladeRearFire;
+
+  let enfiladeModifier = 0;
+  let orgBonus = -(targetFormation.rangedOrgResistance ?? 0);
+
+  if (damageType.enfiladeFire && enfiladeFire && (isFlank || isRear)) {
+    const exposure = 1 - (targetFormation.enfiladeFireResistance ?? 0);
+
+    enfiladeModifier = enfiladeFire.damageModifier * exposure;
+    orgBonus += enfiladeFire.orgModifier * exposure;
+  }
+
+  if (isRear && rearFire) {
+    orgBonus +=
+      rearFire.orgModifier * (1 - (targetFormation.rearFireResistance ?? 0));
+  }
+
+  const rangeModifier = getRangeModifier(damageType, distance) ?? 0;
+  const damageTypeModifier = damageType.damageModifier ?? 0;
+  const formationModifier =
+    getFormation(gameDataManager, shooter).rangedAttackModifier ?? 0;
+  const terrainModifier = gameDataManager.getRangedAttackModifier(
+    shooter.terrain,
+    shooterTemplate.category
+  );
+  const orderModifier =
+    (orderTemplate?.rangedDamageModifier ?? 0) +
+    (orderTemplate?.rangedDamageModifierByCategory?.[targetTemplate.category] ??
+      0);
+  const orgDiminishModifier = getOrgDiminishModifier(
+    damageType,
+    getOrgProportion(target, targetTemplate)
+  );
+  const attackModifier =
+    rangeModifier +
+    damageTypeModifier +
+    formationModifier +
+    terrainModifier +
+    orderModifier +
+    orgDiminishModifier +
+    enfiladeModifier;
+
+  const categoryResistance = gameDataManager.getUnitCategoryResistance(
+    targetTemplate.category,
+    damageType.name
+  );
+  const formationResistance = targetFormation.rangedDamageResistance ?? 0;
+  const damageModifier = Math.max(
+    1 + MAX_DAMAGE_MODIFIER_CLAMP,
+    (1 + attackModifier) * (1 - categoryResistance) * (1 - formationResistance)
+  );
+  const rangedAttack =
+    "rangedAttack" in shooterTemplate ? shooterTemplate.rangedAttack : 0;
+
+  const breakdown: RangedDamageBreakdown = {
+    rangeModifier,
+    damageTypeModifier,
+    formationModifier,
+    terrainModifier,
+    orderModifier,
+    orgDiminishModifier,
+    enfiladeModifier,
+    attackModifier,
+    categoryResistance,
+    formationResistance,
+    damageModifier,
+    stepStrength,
+    orgBonus,
+  };
+
+  return {
+    hit: {
+      damage: rangedAttack * damageModifier * stepStrength,
+      orgBonus,
+      damageType: damageType.name,
+    },
+    breakdown,
+  };
+}
+
+/**
+ * Gets the damage modifier of a unit inside the area of effect of a shot.
+ *
+ * Circular areas are centered on the impact, and deal less damage towards their edge
+ * by `edgeDamageModifier`. Trapezoidal areas are the bounce of a cannonball: they start
+ * behind the impact and extend along the direction of the shot, with `offset` being the
+ * part of their height beyond the impact. Their bottom edge faces the shooter. Shooting
+ * from higher ground shortens the bounce and weakens it, see `elevationModifiers`.
+ *
+ * The size of the area is interpolated from its range at the distance of the shot,
+ * clamped to the first and last ranges.
+ *
+ * @param areaOfEffect - The area of effect of the damage type.
+ * @param origin - Position the shot is fired from.
+ * @param impact - Position the shot lands.
+ * @param circles - Hitbox of the unit.
+ * @param elevationDifference - Height of the origin minus the height of the impact.
+ * @returns The damage modifier of the unit, or null if the area doesn't reach it.
+ */
+export function getAreaOfEffectModifier(
+  areaOfEffect: AoeConfig,
+  origin: Point2,
+  impact: Point2,
+  circles: HitboxCircle[],
+  elevationDifference = 0
+): number | null {
+  const from = Vector2.fromPoint(origin);
+  const to = Vector2.fromPoint(impact);
+  const distance = from.distanceTo(to);
+
+  if (areaOfEffect.type === "circular") {
+    const selected = selectRange(areaOfEffect.ranges, distance);
+
+    if (!selected) {
+      return null;
+    }
+
+    const { range, t } = selected;
+    const radius = lerp(range.startRadius, range.endRadius, t);
+    let best: number | null = null;
+
+    for (const circle of circles) {
+      const gap = Math.max(0, to.distanceTo(circle.center) - circle.radius);
+
+      if (gap > radius) {
+        continue;
+      }
+
+      const modifier =
+        1 + areaOfEffect.edgeDamageModifier * (radius > 0 ? gap / radius : 0);
+      best = Math.max(best ?? modifier, modifier);
+    }
+
+    return best;
+  }
+
+  const selected = selectRange(areaOfEffect.ranges, distance);
+
+  if (!selected || distance === 0) {
+    return null;
+  }
+
+  const { range, t } = selected;
+  const { offset = 0.5, elevationModifiers } = areaOfEffect;
+  const levels =
+    elevationModifiers && elevationDifference > 1
+      ? Math.min(elevationDifference, elevationModifiers.maxElevationDiff)
+      : 0;
+
+  const height =
+    lerp(range.startHeight, range.endHeight, t) *
+    Math.max(0, 1 + (elevationModifiers?.heightModifierPerLevel ?? 0) * levels);
+  const bottomWidth = lerp(range.startBottomWidth, range.endBottomWidth, t);
+  const topWidth = lerp(range.startTopWidth, range.endTopWidth, t);
+  const near = -(1 - offset) * height;
+  const far = offset * height;
+  const direction = to.subtract(from).divide(distance);
+
+  for (const circle of circles) {
+    const relative = Vector2.fromPoint(circle.center).subtract(to);
+    const along = relative.dot(direction);
+    const across = Math.abs(Vector2.cross(direction, relative));
+
+    if (along < near - circle.radius || along > far + circle.radius) {
+      continue;
+    }
+
+    const k = height > 0 ? clamp((along - near) / height, 0, 1) : 0;
+
+    if (across <= lerp(bottomWidth, topWidth, k) / 2 + circle.radius) {
+      return Math.max(
+        0,
+        1 + (elevationModifiers?.damageModifierPerLevel ?? 0) * levels
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the flight of a shot through the map and the units in its way.
+ *
+ * Direct fire travels in a straight line from the origin to the target. It is weakened by
+ * the `projectileAbsorption` of every tile it crosses, and hits the units in its way in order.
+ * After each hit it keeps the greater of its `projectilePenetration` and the
+ * `projectilePassThrough` of the formation it went through.
+ *
+ * Shots with an area of effect fly over everything and hit every unit in the area
+ * around the impact, weakened by the absorption of the impact tile times the
+ * `absorptionModifier` of the area.
+ *
+ * @param gameDataManager - The game data manager of the era.
+ * @param map - The map of the game.
+ * @param damageTypeName - Name of the ranged damage type of the shot.
+ * @param origin - Position the shot is fired from.
+ * @param target - Position the shot is aimed at.
+ * @param obstacles - Units that can be hit. The shooter must not be included.
+ * @param elevationDifference - Height of the origin minus the height of the target.
+ * @returns The hits of the shot and where it ends.
+ */
+export function resolveShot<T>(
+  gameDataManager: GameDataManager,
+  map: GameMap,
+  damageTypeName: string,
+  origin: Point2,
+  target: Point2,
+  obstacles: ShotObstacle<T>[],
+  elevationDifference = 0
+): ShotResolution<T> {
+  const { TILE_SIZE } = gameDataManager.getGameConstants();
+  const damageType =
+    gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>(
+      damageTypeName
+    );
+  const from = Vector2.fromPoint(origin);
+  const to = Vector2.fromPoint(target);
+  const { areaOfEffect } = damageType;
+
+  if (areaOfEffect) {
+    const absorption =
+      gameDataManager.getTerrainProjectileAbsorption(
+        getTerrainAt(map, to, TILE_SIZE),
+        damageType.name
+      ) * (areaOfEffect.absorptionModifier ?? 1);
+    const strength = Math.max(0, 1 - absorption);
+    const hits: ShotHit<T>[] = [];
+
+    for (const { unit, circles } of obstacles) {
+      const modifier = getAreaOfEffectModifier(
+        areaOfEffect,
+        from,
+        to,
+        circles,
+        elevationDifference
+      );
+
+      if (modifier !== null && strength * modifier >= MIN_SHOT_STRENGTH) {
+        hits.push({
+          unit,
+          strength: strength * modifier,
+          distance: Math.min(
+            ...circles.map((circle) => from.distanceTo(circle.center))
+          ),
+        });
+      }
+    }
+
+    return { hits: hits.sort((a, b) => a.distance - b.distance), end: to };
+  }
+
+  const length = from.distanceTo(to);
+
+  if (length === 0) {
+    return { hits: [], end: to };
+  }
+
+  const direction = to.subtract(from).divide(length);
+  const halfWidth = damageType.projectileWidth / 2;
+  const absorptions = getPathAbsorptions(
+    gameDataManager,
+    map,
+    damageType.name,
+    from,
+    to
+  );
+
+  const candidates: { obstacle: ShotObstacle<T>; distance: number }[] = [];
+
+  for (const obstacle of obstacles) {
+    const distance = getEntryDistance(
+      from,
+      direction,
+      length,
+      obstacle.circles,
+      halfWidth
+    );
+
+    if (distance !== null) {
+      candidates.push({ obstacle, distance });
+    }
+  }
+
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const hits: ShotHit<T>[] = [];
+  let strength = 1;
+  let absorptionIndex = 0;
+
+  const stopAt = (distance: number): ShotResolution<T> => ({
+    hits,
+    end: from.add(direction.scale(distance)),
+  });
+
+  for (const { obstacle, distance } of candidates) {
+    while (
+      absorptionIndex < absorptions.length &&
+      absorptions[absorptionIndex].distance <= distance
+    ) {
+      strength *= 1 - absorptions[absorptionIndex].absorption;
+
+      if (strength < MIN_SHOT_STRENGTH) {
+        return stopAt(absorptions[absorptionIndex].distance);
+      }
+
+      absorptionIndex++;
+    }
+
+    hits.push({ unit: obstacle.unit, strength, distance });
+    strength *= Math.max(
+      damageType.projectilePenetration ?? 0,
+      obstacle.passThrough ?? 0
+    );
+
+    if (strength < MIN_SHOT_STRENGTH) {
+      return stopAt(distance);
+    }
+  }
+
+  return { hits, end: to };
+}
+
+/**
+ * Gets the absorption of every tile a straight shot enters, skipping the tile it is fired from.
+ */
+function getPathAbsorptions(
+  gameDataManager: GameDataManager,
+  map: GameMap,
+  damageTypeName: string,
+  from: Vector2,
+  to: Vector2
+): { distance: number; absorption: number }[] {
+  const { TILE_SIZE } = gameDataManager.getGameConstants();
+  const length = from.distanceTo(to);
+  const steps = Math.ceil(length / (TILE_SIZE / 2));
+  const absorptions: { distance: number; absorption: number }[] = [];
+
+  let lastTileX = Math.floor(from.x / TILE_SIZE);
+  let lastTileY = Math.floor(from.y / TILE_SIZE);
+
+  for (let i = 1; i <= steps; i++) {
+    const point = from.interpolate(to, i / steps);
+    const tileX = Math.floor(point.x / TILE_SIZE);
+    const tileY = Math.floor(point.y / TILE_SIZE);
+
+    if (tileX === lastTileX && tileY === lastTileY) {
+      continue;
+    }
+
+    lastTileX = tileX;
+    lastTileY = tileY;
+
+    const absorption = gameDataManager.getTerrainProjectileAbsorption(
+      getTerrainAt(map, point, TILE_SIZE),
+      damageTypeName
+    );
+
+    if (absorption > 0) {
+      absorptions.push({ distance: (length * i) / steps, absorption });
+    }
+  }
+
+  return absorptions;
+}
+
+/**
+ * Gets the distance along a straight shot at which it enters a hitbox.
+ * @returns The distance, or null if the shot misses the hitbox.
+ */
+function getEntryDistance(
+  from: Vector2,
+  direction: Vector2,
+  length: number,
+  circles: HitboxCircle[],
+  halfWidth: number
+): number | null {
+  let closest: number | null = null;
+
+  for (const circle of circles) {
+    const relative = Vector2.fromPoint(circle.center).subtract(from);
+    const along = relative.dot(direction);
+    const across = Math.abs(Vector2.cross(direction, relative));
+    const radius = circle.radius + halfWidth;
+
+    if (across > radius) {
+      continue;
+    }
+
+    const halfChord = Math.sqrt(radius * radius - across * across);
+    const entry = along - halfChord;
+
+    if (along + halfChord < 0 || entry > length) {
+      continue;
+    }
+
+    closest = Math.min(closest ?? Infinity, Math.max(0, entry));
+  }
+
+  return closest;
+}
+
+/**
+ * Gets the terrain of the tile containing a point, clamped to the map bounds.
+ */
+function getTerrainAt(
+  map: GameMap,
+  point: Point2,
+  tileSize: number
+): TerrainType | null {
+  const x = clamp(Math.floor(point.x / tileSize), 0, map.terrains.length - 1);
+  const column = map.terrains[x];
+
+  if (!column) {
+    return null;
+  }
+
+  return column[clamp(Math.floor(point.y / tileSize), 0, column.length - 1)];
+}
+
+/**
+ * Selects the range of an area of effect for a distance, clamped to the first and last ranges.
+ * @returns The range and the progress of the distance through it, between 0 and 1.
+ */
+function selectRange<R extends { start: number; end: number }>(
+  ranges: R[],
+  distance: number
+): { range: R; t: number } | null {
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  const range =
+    ranges.find(({ start, end }) => distance >= start && distance <= end) ??
+    (distance < ranges[0].start ? ranges[0] : ranges[ranges.length - 1]);
+  const t =
+    range.end > range.start
+      ? clamp((distance - range.start) / (range.end - range.start), 0, 1)
+      : 0;
+
+  return { range, t };
+}
+
+function lerp(start: number, end: number, t: number): number {
+  return start + (end - start) * t;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
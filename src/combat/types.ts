@@ -0,0 +1,164 @@
+import {
+  DamageHit,
+  Direction,
+  OrderType,
+  TerrainType,
+  UnitType,
+} from "@lob-sdk/types";
+import { Point2 } from "@lob-sdk/vector";
+
+/**
+ * State of a unit needed to calculate the damage of its attacks,
+ * independent from any running game.
+ */
+export interface CombatUnitSnapshot {
+  /** Type of the unit. */
+  type: UnitType;
+  /** Id of the formation of the unit. Defaults to the default formation of its type. */
+  formation?: string;
+  /** Terrain the unit stands on. */
+  terrain: TerrainType;
+  /** Organization of the unit. Defaults to its max organization. */
+  org?: number;
+  /** Max organization of the unit. Defaults to the organization of its type. */
+  maxOrg?: number;
+  /** Type of the order the unit is executing, if any. */
+  orderType?: OrderType | null;
+}
+
+/**
+ * Every modifier that takes part in a melee attack.
+ */
+export interface MeleeDamageBreakdown {
+  /** Melee attack of the attacker, with its terrain modifier. */
+  attack: number;
+  /** Terrain modifier of the attacker's melee attack. */
+  attackTerrainModifier: number;
+  /** Melee defense of the defender, with its terrain modifier. */
+  defense: number;
+  /** Terrain modifier of the defender's melee defense. */
+  defenseTerrainModifier: number;
+  /** Damage before any modifier: `attack² / (attack + defense)`. */
+  baseDamage: number;
+  /** Side of the defender that is attacked, after the formation disables its flanks or rear. */
+  side: Direction;
+  /** Whether the attack is a charge. */
+  charge: boolean;
+  /** Charge bonus of the attacker as a proportion, with its formation and terrain modifiers. */
+  chargeBonus: number;
+  /** Charge penetration of the attacker, with its formation and flanking modifiers. */
+  chargePenetration: number;
+  /** Charge resistance of the defender against the attacked side. */
+  chargeResistance: number;
+  /** Charge resistance left after the penetration, between 0 and 1. */
+  effectiveChargeResistance: number;
+  /** Part of the charge bonus that gets through the resistance. */
+  chargeModifier: number;
+  /** Damage modifier of the attacker's melee damage type. */
+  damageTypeModifier: number;
+  /** Received melee damage modifier of the defender's formation. */
+  formationModifier: number;
+  /** Resistance of the defender's category to the damage type. */
+  categoryResistance: number;
+  /** Final multiplier of the base damage, clamped by `MAX_DAMAGE_MODIFIER_CLAMP`. */
+  damageModifier: number;
+  /** Organization damage bonus of flank and rear attacks. */
+  orgBonus: number;
+  /** Multiplier of the defender's base damage the charger receives as backlash. 0 if there's no backlash. */
+  backlashModifier: number;
+}
+
+/**
+ * Result of a melee attack calculation.
+ */
+export interface MeleeDamageResult {
+  /** The hit received by the defender, with the backlash received by the attacker. */
+  hit: DamageHit;
+  /** The modifiers the hit was calculated with. */
+  breakdown: MeleeDamageBreakdown;
+}
+
+/**
+ * Every modifier that takes part in a ranged attack.
+ */
+export interface RangedDamageBreakdown {
+  /** Modifier of the damage type at the distance of the shot. */
+  rangeModifier: number;
+  /** Damage modifier of the damage type. */
+  damageTypeModifier: number;
+  /** Ranged attack modifier of the shooter's formation. */
+  formationModifier: number;
+  /** Ranged attack modifier of the shooter's terrain. */
+  terrainModifier: number;
+  /** Ranged damage modifiers of the shooter's order. */
+  orderModifier: number;
+  /** Damage lost against targets that are already disorganized. */
+  orgDiminishModifier: number;
+  /** Damage bonus of enfilade fire into the flanks or rear of the target. */
+  enfiladeModifier: number;
+  /** Sum of every attack modifier. */
+  attackModifier: number;
+  /** Resistance of the target's category to the damage type. */
+  categoryResistance: number;
+  /** Ranged damage resistance of the target's formation. */
+  formationResistance: number;
+  /** Final multiplier of the ranged attack, clamped by `MAX_DAMAGE_MODIFIER_CLAMP`. */
+  damageModifier: number;
+  /** Strength the projectile keeps when it reaches the target, between 0 and 1. */
+  stepStrength: number;
+  /** Organization damage bonus of the hit. */
+  orgBonus: number;
+}
+
+/**
+ * Result of a ranged attack calculation.
+ */
+export interface RangedDamageResult {
+  /** The hit received by the target. */
+  hit: DamageHit;
+  /** The modifiers the hit was calculated with. */
+  breakdown: RangedDamageBreakdown;
+}
+
+/**
+ * A circle of the hitbox of a unit.
+ */
+export interface HitboxCircle {
+  center: Point2;
+  radius: number;
+}
+
+/**
+ * A unit that can be hit by a shot.
+ * @template T - The type of the unit.
+ */
+export interface ShotObstacle<T> {
+  unit: T;
+  /** Hitbox of the unit. */
+  circles: HitboxCircle[];
+  /** Projectile pass through of the formation of the unit, between 0 and 1. */
+  passThrough?: number;
+}
+
+/**
+ * A unit hit by a shot.
+ * @template T - The type of the unit.
+ */
+export interface ShotHit<T> {
+  unit: T;
+  /** Strength the projectile hits the unit with, between 0 and 1. */
+  strength: number;
+  /** Distance from the origin of the shot to the hit. */
+  distance: number;
+}
+
+/**
+ * Outcome of a shot: the units it hits and where it ends.
+ * @template T - The type of the units.
+ */
+export interface ShotResolution<T> {
+  /** The units hit by the shot, sorted by distance to the origin. */
+  hits: ShotHit<T>[];
+  /** Point where the projectile stops. */
+  end: Point2;
+}
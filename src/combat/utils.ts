@@ -0,0 +1,48 @@
+import { FormationTemplate, UnitTemplate } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { CombatUnitSnapshot } from "./types";
+
+/**
+ * Gets the template of the type of a unit snapshot.
+ */
+export function getTemplate(
+  gameDataManager: GameDataManager,
+  unit: CombatUnitSnapshot
+): UnitTemplate {
+  return gameDataManager.getUnitTemplateManager().getTemplate(unit.type);
+}
+
+/**
+ * Gets the formation of a unit snapshot.
+ * @throws If the formation doesn't exist.
+ */
+export function getFormation(
+  gameDataManager: GameDataManager,
+  unit: CombatUnitSnapshot
+): FormationTemplate {
+  const id =
+    unit.formation ?? getTemplate(gameDataManager, unit).defaultFormation;
+  const formation = gameDataManager.getFormationManager().getTemplate(id);
+
+  if (!formation) {
+    throw new Error(`Formation ${id} not found`);
+  }
+
+  return formation;
+}
+
+/**
+ * Gets the organization of a unit snapshot as a proportion of its max organization.
+ */
+export function getOrgProportion(
+  unit: CombatUnitSnapshot,
+  template: UnitTemplate
+): number {
+  const maxOrg = unit.maxOrg ?? template.org;
+
+  if (maxOrg <= 0) {
+    return 0;
+  }
+
+  return Math.min(1, Math.max(0, (unit.org ?? maxOrg) / maxOrg));
+}
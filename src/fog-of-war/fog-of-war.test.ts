@@ -0,0 +1,135 @@
+import { GameMap, VisionLevel } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { calculateFogOfWar } from "./fog-of-war";
+import { getVisionDistance } from "./line-of-sight";
+import { FogOfWarUnit } from "./types";
+
+describe("fog of war", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const { TILE_SIZE, FOW_LEVEL_3_DISTANCE, FOW_LEVEL_4_DISTANCE } =
+    gameDataManager.getGameConstants();
+  const forest = 1;
+
+  const createMap = (tiles = 64): GameMap => ({
+    width: tiles * TILE_SIZE,
+    height: tiles * TILE_SIZE,
+    terrains: Array.from({ length: tiles }, () => Array(tiles).fill(0)),
+    heightMap: Array.from({ length: tiles }, () => Array(tiles).fill(0)),
+  });
+
+  /** Position at the center of a tile. */
+  const tile = (x: number, y: number) => ({
+    x: (x + 0.5) * TILE_SIZE,
+    y: (y + 0.5) * TILE_SIZE,
+  });
+
+  describe("getVisionDistance()", () => {
+    it("should be the distance in tiles over open ground", () => {
+      expect(
+        getVisionDistance(gameDataManager, createMap(), tile(2, 2), tile(12, 2))
+      ).toBeCloseTo(10);
+    });
+
+    it("should be blocked by higher ground in between", () => {
+      const map = createMap();
+      map.heightMap[7][2] = 2;
+
+      expect(
+        getVisionDistance(gameDataManager, map, tile(2, 2), tile(12, 2))
+      ).toBeNull();
+    });
+
+    it("should see over lower ground from a hill", () => {
+      const map = createMap();
+      map.heightMap[2][2] = 2;
+      map.heightMap[12][2] = 2;
+      map.heightMap[7][2] = 1;
+
+      expect(
+        getVisionDistance(gameDataManager, map, tile(2, 2), tile(12, 2))
+      ).toBeCloseTo(10);
+    });
+
+    it("should be absorbed by the terrain it crosses unless it passes over it", () => {
+      const map = createMap();
+      map.terrains[7][2] = forest;
+      const absorption = gameDataManager.getVisionAbsorption(forest);
+
+      expect(
+        getVisionDistance(gameDataManager, map, tile(2, 2), tile(12, 2))
+      ).toBeCloseTo(9 + absorption);
+
+      map.heightMap[2][2] = 2;
+      map.heightMap[12][2] = 2;
+
+      expect(
+        getVisionDistance(gameDataManager, map, tile(2, 2), tile(12, 2))
+      ).toBeCloseTo(10);
+    });
+
+    it("should stop past the max distance", () => {
+      expect(
+        getVisionDistance(
+          gameDataManager,
+          createMap(),
+          tile(2, 2),
+          tile(12, 2),
+          5
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe("calculateFogOfWar()", () => {
+    const unit = (
+      id: number,
+      team: number,
+      x: number,
+      type = 1
+    ): FogOfWarUnit => ({ id, team, type, position: tile(x, 10) });
+
+    it("should give each enemy the best vision level of any ally", () => {
+      const near = Math.floor(FOW_LEVEL_4_DISTANCE) - 1;
+      const far = Math.floor(FOW_LEVEL_3_DISTANCE) - 1;
+      const { unitVisionLevels } = calculateFogOfWar(
+        gameDataManager,
+        createMap(128),
+        [
+          unit(1, 1, 2),
+          unit(2, 1, 120),
+          unit(3, 2, 2 + near),
+          unit(4, 2, 2 + far),
+          unit(5, 2, 61),
+        ],
+        1
+      );
+
+      expect(unitVisionLevels.get(1)).toBe(VisionLevel.FullyVisible);
+      expect(unitVisionLevels.get(2)).toBe(VisionLevel.FullyVisible);
+      expect(unitVisionLevels.get(3)).toBe(VisionLevel.FullyVisible);
+      expect(unitVisionLevels.get(4)).toBe(VisionLevel.VisibleWithoutBars);
+      expect(unitVisionLevels.get(5)).toBe(VisionLevel.NotVisible);
+    });
+
+    it("should hide units with a reduced visibility range past it", () => {
+      const skirmisherType = gameDataManager
+        .getUnitTemplateManager()
+        .getTemplates()
+        .find((template) => template.reducedVisibilityRange !== undefined)!;
+      const range = skirmisherType.reducedVisibilityRange!;
+      const { unitVisionLevels } = calculateFogOfWar(
+        gameDataManager,
+        createMap(),
+        [
+          unit(1, 1, 2),
+          unit(2, 2, 2 + Math.floor(range), skirmisherType.type),
+          unit(3, 2, 3 + Math.ceil(range), skirmisherType.type),
+        ],
+        1
+      );
+
+      expect(unitVisionLevels.get(2)).toBe(VisionLevel.FullyVisible);
+      expect(unitVisionLevels.get(3)).toBe(VisionLevel.NotVisible);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { FogOfWarResult, GameMap, VisionLevel } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { getVisionDistance } from "./line-of-sight";
+import { FogOfWarUnit } from "./types";
+
+/**
+ * Calculates what the units of a team can see.
+ *
+ * Allied units are always fully visible. Every enemy unit gets the best vision level any
+ * allied unit has of it, from the vision distance of their line of sight. Units with a
+ * reduced visibility range, like skirmishers, are either fully visible within that range or
+ * not visible at all.
+ *
+ * @param gameDataManager - The game data manager of the era.
+ * @param map - The map the units are on.
+ * @param units - Every unit of the game.
+ * @param team - The team looking at the units.
+ * @returns The vision levels by unit id.
+ */
+export function calculateFogOfWar(
+  gameDataManager: GameDataManager,
+  map: GameMap,
+  units: FogOfWarUnit[],
+  team: number
+): FogOfWarResult {
+  const templates = gameDataManager.getUnitTemplateManager();
+  const observers = units.filter((unit) => unit.team === team);
+  const unitVisionLevels = new Map<number, VisionLevel>();
+
+  for (const unit of units) {
+    if (unit.team === team) {
+      unitVisionLevels.set(unit.id, VisionLevel.FullyVisible);
+      continue;
+    }
+
+    const { reducedVisibilityRange } = templates.getTemplate(unit.type);
+    let level = VisionLevel.NotVisible;
+
+    for (const observer of observers) {
+      const distance = getVisionDistance(
+        gameDataManager,
+        map,
+        observer.position,
+        unit.position,
+        getMaxVisionDistance(gameDataManager, level, reducedVisibilityRange)
+      );
+
+      if (distance === null) {
+        continue;
+      }
+
+      level = Math.max(
+        level,
+        getVisionLevel(gameDataManager, distance, reducedVisibilityRange)
+      );
+
+      if (level === VisionLevel.FullyVisible) {
+        break;
+      }
+    }
+
+    unitVisionLevels.set(unit.id, level);
+  }
+
+  return { unitVisionLevels };
+}
+
+/**
+ * Gets the vision level of a unit seen from a vision distance. Units past
+ * `FOW_LEVEL_1_DISTANCE` are not visible, so `FOW_LEVEL_0_DISTANCE`, the distance of the
+ * `NotVisible` level, doesn't change the level of any unit.
+ * @param gameDataManager - The game data manager of the era.
+ * @param distance - Vision distance in tiles.
+ * @param reducedVisibilityRange - Range in tiles of units that are only visible up close.
+ * @returns The vision level.
+ */
+export function getVisionLevel(
+  gameDataManager: GameDataManager,
+  distance: number,
+  reducedVisibilityRange?: number
+): VisionLevel {
+  const {
+    FOW_LEVEL_1_DISTANCE,
+    FOW_LEVEL_2_DISTANCE,
+    FOW_LEVEL_3_DISTANCE,
+    FOW_LEVEL_4_DISTANCE,
+  } = gameDataManager.getGameConstants();
+
+  if (reducedVisibilityRange !== undefined) {
+    return distance <= reducedVisibilityRange
+      ? VisionLevel.FullyVisible
+      : VisionLevel.NotVisible;
+  }
+
+  if (distance <= FOW_LEVEL_4_DISTANCE) {
+    return VisionLevel.FullyVisible;
+  }
+
+  if (distance <= FOW_LEVEL_3_DISTANCE) {
+    return VisionLevel.VisibleWithoutBars;
+  }
+
+  if (distance <= FOW_LEVEL_2_DISTANCE) {
+    return VisionLevel.VisiblePartiallyUnknown;
+  }
+
+  if (distance <= FOW_LEVEL_1_DISTANCE) {
+    return VisionLevel.VisibleFullyUnknown;
+  }
+
+  return VisionLevel.NotVisible;
+}
+
+/**
+ * Gets the vision distance a unit must be within to be seen better than the current level.
+ */
+function getMaxVisionDistance(
+  gameDataManager: GameDataManager,
+  level: VisionLevel,
+  reducedVisibilityRange?: number
+): number {
+  const {
+    FOW_LEVEL_1_DISTANCE,
+    FOW_LEVEL_2_DISTANCE,
+    FOW_LEVEL_3_DISTANCE,
+    FOW_LEVEL_4_DISTANCE,
+  } = gameDataManager.getGameConstants();
+
+  if (reducedVisibilityRange !== undefined) {
+    return reducedVisibilityRange;
+  }
+
+  switch (level) {
+    case VisionLevel.NotVisible:
+      return FOW_LEVEL_1_DISTANCE;
+    case VisionLevel.VisibleFullyUnknown:
+      return FOW_LEVEL_2_DISTANCE;
+    case VisionLevel.VisiblePartiallyUnknown:
+      return FOW_LEVEL_3_DISTANCE;
+    default:
+      return FOW_LEVEL_4_DISTANCE;
+  }
+}
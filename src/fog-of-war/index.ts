@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./line-of-sight";
+export * from "./fog-of-war";
+export * from "./redaction";
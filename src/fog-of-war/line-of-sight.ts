@@ -0,0 +1,115 @@
+import { GameMap } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { Point2, Vector2 } from "@lob-sdk/vector";
+
+/**
+ * Calculates how far a target looks from an observer, in tiles, following the line of sight
+ * between them over the height map.
+ *
+ * The line of sight goes from the eye of the observer, `FOW_EYE_HEIGHT` over its tile, to
+ * `FOW_TARGET_HEIGHT` over the tile of the target. It is blocked by any tile in between whose
+ * ground, with the height offset of its terrain, rises above it. Every tile it crosses after the
+ * observer's tile counts its length multiplied by the vision absorption of its terrain, so
+ * forests and cities make targets look farther away. Terrain with a hitbox doesn't absorb the
+ * vision when the line of sight passes over it.
+ *
+ * @param gameDataManager - The game data manager of the era.
+ * @param map - The map the units are on.
+ * @param from - Position of the observer in pixels.
+ * @param to - Position of the target in pixels.
+ * @param maxDistance - Vision distance in tiles past which the target is considered not visible.
+ * @returns The vision distance in tiles, or null if the line of sight is blocked or longer than the max distance.
+ */
+export function getVisionDistance(
+  gameDataManager: GameDataManager,
+  map: GameMap,
+  from: Point2,
+  to: Point2,
+  maxDistance = Infinity
+): number | null {
+  const { TILE_SIZE, FOW_EYE_HEIGHT, FOW_TARGET_HEIGHT } =
+    gameDataManager.getGameConstants();
+  const start = Vector2.fromPoint(from);
+  const end = Vector2.fromPoint(to);
+  const length = start.distanceTo(end) / TILE_SIZE;
+
+  if (length > maxDistance) {
+    return null;
+  }
+
+  const fromTile = getTile(map, from, TILE_SIZE);
+  const toTile = getTile(map, to, TILE_SIZE);
+  const eyeHeight =
+    getGroundHeight(gameDataManager, map, fromTile) + FOW_EYE_HEIGHT;
+  const targetHeight =
+    getGroundHeight(gameDataManager, map, toTile) + FOW_TARGET_HEIGHT;
+
+  const steps = Math.ceil(length * 2);
+  const stepLength = steps > 0 ? length / steps : 0;
+  let distance = 0;
+
+  for (let i = 0; i < steps; i++) {
+    const t = (i + 0.5) / steps;
+    const tile = getTile(map, start.interpolate(end, t), TILE_SIZE);
+
+    if (tile.x === fromTile.x && tile.y === fromTile.y) {
+      distance += stepLength;
+      continue;
+    }
+
+    const terrain = map.terrains[tile.x][tile.y];
+    const groundHeight = getGroundHeight(gameDataManager, map, tile);
+    const sightHeight = eyeHeight + (targetHeight - eyeHeight) * t;
+    const isTargetTile = tile.x === toTile.x && tile.y === toTile.y;
+
+    if (!isTargetTile && groundHeight > sightHeight) {
+      return null;
+    }
+
+    const hitboxHeight = gameDataManager.getTerrainHitboxHeight(terrain);
+    const absorption =
+      hitboxHeight > 0 && sightHeight >= groundHeight + hitboxHeight
+        ? 1
+        : gameDataManager.getVisionAbsorption(terrain);
+
+    distance += stepLength * absorption;
+
+    if (distance > maxDistance) {
+      return null;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Gets the tile containing a point, clamped to the map bounds.
+ */
+function getTile(map: GameMap, point: Point2, tileSize: number): Point2 {
+  const x = clamp(Math.floor(point.x / tileSize), 0, map.terrains.length - 1);
+  const y = clamp(
+    Math.floor(point.y / tileSize),
+    0,
+    map.terrains[x].length - 1
+  );
+
+  return { x, y };
+}
+
+/**
+ * Gets the height of the ground of a tile, with the height offset of its terrain.
+ */
+function getGroundHeight(
+  gameDataManager: GameDataManager,
+  map: GameMap,
+  tile: Point2
+): number {
+  return (
+    (map.heightMap[tile.x]?.[tile.y] ?? 0) +
+    gameDataManager.getTerrainHeightOffset(map.terrains[tile.x][tile.y])
+  );
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,194 @@
+import {
+  ActionType,
+  AnyAction,
+  FogOfWarResult,
+  GameState,
+  UnitDto,
+  UnitStatus,
+  VisionLevel,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { redactActionsForTeam, redactGameStateForTeam } from "./redaction";
+
+describe("redaction", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+
+  const unit = (id: number): UnitDto => ({
+    id,
+    name: `Unit ${id}`,
+    hp: 100,
+    org: 80,
+    st: 50,
+    am: 30,
+    status: UnitStatus.Standing,
+    pos: { x: id * 10, y: 0 },
+    player: 2,
+    rotation: 0,
+    type: 1,
+    lv: [1, 0],
+    eff: [[1, 5]],
+    f: "line",
+    acd: 3,
+  });
+
+  const fogResult: FogOfWarResult = {
+    unitVisionLevels: new Map([
+      [1, VisionLevel.FullyVisible],
+      [2, VisionLevel.VisibleWithoutBars],
+      [3, VisionLevel.VisiblePartiallyUnknown],
+      [4, VisionLevel.VisibleFullyUnknown],
+      [5, VisionLevel.NotVisible],
+    ]),
+  };
+
+  describe("redactGameStateForTeam()", () => {
+    it("should keep the unit fields of each vision level", () => {
+      const state: GameState = {
+        players: [],
+        teams: [],
+        units: [1, 2, 3, 4, 5, 6].map(unit),
+        map: { width: 0, height: 0, terrains: [], heightMap: [] },
+        triggers: [],
+      };
+
+      const { units } = redactGameStateForTeam(
+        state,
+        fogResult,
+        gameDataManager
+      );
+      const [full, withoutBars, partiallyUnknown, fullyUnknown] = units;
+      const { unknownType } = gameDataManager
+        .getUnitTemplateManager()
+        .getTemplate(1);
+
+      expect(units.map(({ id }) => id)).toEqual([1, 2, 3, 4]);
+      expect(full).toEqual(unit(1));
+      expect(withoutBars).toEqual({
+        id: 2,
+        name: "Unit 2",
+        status: UnitStatus.Standing,
+        pos: { x: 20, y: 0 },
+        player: 2,
+        rotation: 0,
+        type: 1,
+        lv: [1, 0],
+        eff: [[1, 5]],
+        f: "line",
+      });
+      expect(partiallyUnknown.lv).toBeUndefined();
+      expect(partiallyUnknown.eff).toBeUndefined();
+      expect(partiallyUnknown.f).toBe("line");
+      expect(fullyUnknown).toEqual({
+        id: 4,
+        pos: { x: 40, y: 0 },
+        player: 2,
+        rotation: 0,
+        type: unknownType,
+      });
+      expect(state.units[3].type).toBe(1);
+    });
+  });
+
+  describe("redactActionsForTeam()", () => {
+    it("should remove the actions of hidden units", () => {
+      const actions: AnyAction[] = [
+        {
+          type: ActionType.TickAction,
+          actions: [
+            {
+              type: ActionType.RangedAttack,
+              unitId: 5,
+              dt: 1,
+              fss: [
+                [0, 0],
+                [10, 10],
+              ],
+            },
+            { type: ActionType.Move, unitId: 5, path: [[0, 0]] },
+            { type: ActionType.Move, unitId: 4, path: [[0, 0]] },
+            { type: ActionType.FormationChange, unitId: 4, formationId: "l" },
+            {
+              type: ActionType.UpdateUnitState,
+              unitId: 3,
+              hp: 50,
+              status: UnitStatus.Routing,
+            },
+            { type: ActionType.UpdateUnitState, unitId: 2, org: 10 },
+            { type: ActionType.UpdateUnitState, unitId: 1, org: 10 },
+          ],
+        },
+      ];
+
+      expect(
+        redactActionsForTeam(actions, fogResult, gameDataManager)
+      ).toEqual([
+        {
+          type: ActionType.TickAction,
+          actions: [
+            { type: ActionType.Move, unitId: 4, path: [[0, 0]] },
+            {
+              type: ActionType.UpdateUnitState,
+              unitId: 3,
+              status: UnitStatus.Routing,
+            },
+            { type: ActionType.UpdateUnitState, unitId: 1, org: 10 },
+          ],
+        },
+      ]);
+    });
+
+    it("should keep the fields of the vision level of the units", () => {
+      const rangedAttack = (unitId: number): AnyAction => ({
+        type: ActionType.RangedAttack,
+        unitId,
+        dt: 1,
+        fss: [
+          [0, 0],
+          [10, 10],
+        ],
+      });
+      const actions: AnyAction[] = [
+        rangedAttack(3),
+        rangedAttack(4),
+        {
+          type: ActionType.UpdateUnitState,
+          unitId: 2,
+          hp: 50,
+          lv: null,
+          eff: [],
+          acd: 0,
+        },
+        { type: ActionType.UpdateUnitState, unitId: 3, lv: null, en: 1 },
+      ];
+
+      expect(
+        redactActionsForTeam(actions, fogResult, gameDataManager)
+      ).toEqual([
+        rangedAttack(3),
+        {
+          type: ActionType.RangedAttack,
+          unitId: 4,
+          fss: [
+            [0, 0],
+            [10, 10],
+          ],
+        },
+        { type: ActionType.UpdateUnitState, unitId: 2, lv: null, eff: [] },
+        { type: ActionType.UpdateUnitState, unitId: 3, en: 1 },
+      ]);
+    });
+
+    it("should redact the units added", () => {
+      const [action] = redactActionsForTeam(
+        [{ type: ActionType.AddUnits, units: [unit(4), unit(5)] }],
+        fogResult,
+        gameDataManager
+      );
+
+      const units = action.type === ActionType.AddUnits ? action.units : [];
+
+      expect(units.map(({ id }) => id)).toEqual([4]);
+      expect(units[0].hp).toBeUndefined();
+    });
+  });
+});
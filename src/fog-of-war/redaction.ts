@@ -0,0 +1,260 @@
+import {
+  ActionType,
+  AnyAction,
+  EntityId,
+  FogOfWarResult,
+  GameState,
+  UnitDto,
+  UpdateUnitStateAction,
+  VisionLevel,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+
+/** Fields of the units seen at {@link VisionLevel.VisibleFullyUnknown}. */
+const FULLY_UNKNOWN_FIELDS: (keyof UnitDto)[] = [
+  "id",
+  "pos",
+  "player",
+  "rotation",
+  "type",
+];
+
+/** Fields of the units seen at {@link VisionLevel.VisiblePartiallyUnknown}. */
+const PARTIALLY_UNKNOWN_FIELDS: (keyof UnitDto)[] = [
+  ...FULLY_UNKNOWN_FIELDS,
+  "name",
+  "status",
+  "f",
+  "en",
+];
+
+/** Fields of the units seen at {@link VisionLevel.VisibleWithoutBars}. */
+const WITHOUT_BARS_FIELDS: (keyof UnitDto)[] = [
+  ...PARTIALLY_UNKNOWN_FIELDS,
+  "lv",
+  "eff",
+];
+
+/**
+ * Redacts a game state to what a client of a team is allowed to see.
+ *
+ * Units that are not visible are removed and the rest only keep the fields of their vision level:
+ * - `FullyVisible`: every field.
+ * - `VisibleWithoutBars`: no hp, organization, stamina, ammo, supply or server side state.
+ * - `VisiblePartiallyUnknown`: no last velocity or effects either.
+ * - `VisibleFullyUnknown`: only the position, rotation and player, with the type replaced by the
+ *   unknown type of its template or `UNKNOWN_UNIT_TYPE`.
+ *
+ * @param state - The full game state.
+ * @param fogResult - The fog of war of the team.
+ * @param gameDataManager - The game data manager of the era.
+ * @returns A copy of the state with the units redacted.
+ */
+export function redactGameStateForTeam(
+  state: GameState,
+  fogResult: FogOfWarResult,
+  gameDataManager: GameDataManager
+): GameState {
+  return {
+    ...state,
+    units: redactUnits(state.units, fogResult, gameDataManager),
+  };
+}
+
+/**
+ * Redacts a stream of actions to what a client of a team is allowed to see,
+ * with the same vision levels as {@link redactGameStateForTeam}.
+ *
+ * Actions of units that are not visible are removed, so ranged attacks of hidden units don't
+ * reveal where they are. Unit state updates only keep the fields of the vision level of their
+ * unit. Below `VisiblePartiallyUnknown`, formation changes are removed and ranged attacks lose
+ * their damage type, which would reveal the weapon of the unit. Melee attacks are kept while
+ * any of their units is visible.
+ *
+ * @param actions - The actions to redact.
+ * @param fogResult - The fog of war of the team.
+ * @param gameDataManager - The game data manager of the era.
+ * @returns The redacted actions.
+ */
+export function redactActionsForTeam(
+  actions: AnyAction[],
+  fogResult: FogOfWarResult,
+  gameDataManager: GameDataManager
+): AnyAction[] {
+  const getLevel = (unitId: EntityId) =>
+    fogResult.unitVisionLevels.get(unitId) ?? VisionLevel.NotVisible;
+  const redacted: AnyAction[] = [];
+
+  for (const action of actions) {
+    switch (action.type) {
+      case ActionType.TickAction:
+        redacted.push({
+          ...action,
+          actions: redactActionsForTeam(
+            action.actions,
+            fogResult,
+            gameDataManager
+          ),
+        });
+        break;
+      case ActionType.RangedAttack: {
+        const level = getLevel(action.unitId);
+
+        if (level >= VisionLevel.VisiblePartiallyUnknown) {
+          redacted.push(action);
+        } else if (level > VisionLevel.NotVisible) {
+          const { dt, ...attack } = action;
+          redacted.push(attack);
+        }
+        break;
+      }
+      case ActionType.Move:
+      case ActionType.Rotate:
+      case ActionType.UnitDestroyed:
+        if (getLevel(action.unitId) > VisionLevel.NotVisible) {
+          redacted.push(action);
+        }
+        break;
+      case ActionType.FormationChange:
+        if (getLevel(action.unitId) >= VisionLevel.VisiblePartiallyUnknown) {
+          redacted.push(action);
+        }
+        break;
+      case ActionType.PlaceEntity:
+        if (getLevel(action.id) > VisionLevel.NotVisible) {
+          redacted.push(action);
+        }
+        break;
+      case ActionType.Attack:
+        if (
+          action.result.some(
+            ({ unitId }) => getLevel(unitId) > VisionLevel.NotVisible
+          )
+        ) {
+          redacted.push(action);
+        }
+        break;
+      case ActionType.UpdateUnitState: {
+        const update = redactUnitStateUpdate(action, getLevel(action.unitId));
+
+        if (update) {
+          redacted.push(update);
+        }
+        break;
+      }
+      case ActionType.AddUnits: {
+        const units = redactUnits(action.units, fogResult, gameDataManager);
+
+        if (units.length > 0) {
+          redacted.push({ ...action, units });
+        }
+        break;
+      }
+      default:
+        redacted.push(action);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Removes the units that are not visible and redacts the rest to their vision level.
+ */
+function redactUnits(
+  units: UnitDto[],
+  fogResult: FogOfWarResult,
+  gameDataManager: GameDataManager
+): UnitDto[] {
+  const redacted: UnitDto[] = [];
+
+  for (const unit of units) {
+    const level =
+      fogResult.unitVisionLevels.get(unit.id) ?? VisionLevel.NotVisible;
+
+    if (level !== VisionLevel.NotVisible) {
+      redacted.push(redactUnit(unit, level, gameDataManager));
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Keeps the fields of a unit that can be seen at a vision level.
+ */
+function redactUnit(
+  unit: UnitDto,
+  level: VisionLevel,
+  gameDataManager: GameDataManager
+): UnitDto {
+  if (level === VisionLevel.FullyVisible) {
+    return unit;
+  }
+
+  const redacted = pick(unit, getVisibleFields(level));
+
+  if (level === VisionLevel.VisibleFullyUnknown) {
+    const { UNKNOWN_UNIT_TYPE } = gameDataManager.getGameConstants();
+    const template = gameDataManager
+      .getUnitTemplateManager()
+      .getTemplate(unit.type);
+
+    redacted.type = template.unknownType ?? UNKNOWN_UNIT_TYPE;
+  }
+
+  return redacted;
+}
+
+/**
+ * Keeps the fields of a unit state update that can be seen at the vision level of its unit.
+ * @returns The redacted update, or null if nothing is left to update.
+ */
+function redactUnitStateUpdate(
+  action: UpdateUnitStateAction,
+  level: VisionLevel
+): UpdateUnitStateAction | null {
+  if (level === VisionLevel.FullyVisible) {
+    return action;
+  }
+
+  if (level === VisionLevel.NotVisible) {
+    return null;
+  }
+
+  // The updated fields are named after the unit DTO fields they update.
+  const { type, unitId, ...update } = action;
+  const fields: string[] = getVisibleFields(level);
+  const visible = Object.entries(update).filter(
+    ([field, value]) => value !== undefined && fields.includes(field)
+  );
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return { type, unitId, ...Object.fromEntries(visible) };
+}
+
+function getVisibleFields(level: VisionLevel): (keyof UnitDto)[] {
+  switch (level) {
+    case VisionLevel.VisibleWithoutBars:
+      return WITHOUT_BARS_FIELDS;
+    case VisionLevel.VisiblePartiallyUnknown:
+      return PARTIALLY_UNKNOWN_FIELDS;
+    default:
+      return FULLY_UNKNOWN_FIELDS;
+  }
+}
+
+function pick(unit: UnitDto, fields: (keyof UnitDto)[]): UnitDto {
+  const picked: Partial<Record<keyof UnitDto, unknown>> = {};
+
+  for (const field of fields) {
+    if (unit[field] !== undefined) {
+      picked[field] = unit[field];
+    }
+  }
+
+  return picked as UnitDto;
+}
@@ -0,0 +1,15 @@
+import { EntityId, UnitType } from "@lob-sdk/types";
+import { Point2 } from "@lob-sdk/vector";
+
+/**
+ * State of a unit needed to calculate the fog of war, independent from any running game.
+ */
+export interface FogOfWarUnit {
+  id: EntityId;
+  /** Team of the unit. */
+  team: number;
+  /** Type of the unit. */
+  type: UnitType;
+  /** Position of the unit in pixels. */
+  position: Point2;
+}
@@ -129,4 +129,48 @@ describe("GameDataManager", () => {
       });
     });
   });
+
+  describe("Bot config", () => {
+    it("should load a valid bot config for every era", () => {
+      for (const era of ["napoleonic", "ww2"] as const) {
+        const manager = GameDataManager.get(era);
+        const config = manager.getBotConfig();
+
+        expect(() => manager.validateBotConfig(config)).not.toThrow();
+        manager.getUnitCategories().forEach((category) => {
+          expect(config.categoryGroups[category.id]).toBeDefined();
+        });
+      }
+    });
+
+    it("should reject invalid bot configs", () => {
+      const config = gameDataManager.getBotConfig();
+      const { artillery, ...categoryGroups } = config.categoryGroups;
+
+      expect(() =>
+        gameDataManager.validateBotConfig({ ...config, categoryGroups })
+      ).toThrow("missing the unit category artillery");
+      expect(() =>
+        gameDataManager.validateBotConfig({
+          ...config,
+          maxGroupSize: { ...config.maxGroupSize, Cavalry: 0 },
+        })
+      ).toThrow("max group size for Cavalry");
+      expect(() =>
+        gameDataManager.validateBotConfig({
+          ...config,
+          categoryGroups: { ...config.categoryGroups, artillery: "Guns" },
+        })
+      ).toThrow("max group size for Guns");
+      expect(() =>
+        gameDataManager.validateBotConfig({
+          ...config,
+          strategies: {
+            ...config.strategies,
+            Infantry: { ...config.strategies.Infantry, fallbackHpRatio: 2 },
+          },
+        })
+      ).toThrow("fallback HP ratio between 0 and 1 for Infantry");
+    });
+  });
 });
@@ -38,6 +38,7 @@ import napoleonicUnitCategories from "@lob-sdk/game-data/eras/napoleonic/unit-ca
 import napoleonicUnitSkinsData from "@lob-sdk/game-data/eras/napoleonic/unit-skins.json";
 import napoleonicGameRules from "@lob-sdk/game-data/eras/napoleonic/game-rules.json";
 import napoleonicFormations from "@lob-sdk/game-data/eras/napoleonic/formations.json";
+import napoleonicBotConfig from "@lob-sdk/game-data/eras/napoleonic/bot-config.json";
 
 // Import napoleonic scenarios
 import napoleonicWaterloo from "@lob-sdk/game-data/eras/napoleonic/scenarios/waterloo.json";
@@ -88,6 +89,7 @@ import ww2UnitCategories from "@lob-sdk/game-data/eras/ww2/unit-categories.json"
 import ww2UnitSkins from "@lob-sdk/game-data/eras/ww2/unit-skins.json";
 import ww2GameRules from "@lob-sdk/game-data/eras/ww2/game-rules.json";
 import ww2Formations from "@lob-sdk/game-data/eras/ww2/formations.json";
+import ww2BotConfig from "@lob-sdk/game-data/eras/ww2/bot-config.json";
 
 // Import ww2 scenarios
 import ww2BattleOfMoscow from "@lob-sdk/game-data/eras/ww2/scenarios/battle-of-moscow.json";
@@ -100,6 +102,7 @@ import { FormationTemplate, OrderTemplate, OrderType } from "@lob-sdk/types";
 import { FormationManager } from "./formation-manager";
 import { UnitTemplateManager } from "./unit-template-manager";
 import { degreesToRadians } from "@lob-sdk/utils";
+import { BotBehavior, BotConfig } from "@lob-sdk/bot/types";
 
 /**
  * Centralized lazy-loading game data manager.
@@ -163,6 +166,9 @@ export class GameDataManager {
   // Formations
   private _formationManager = new FormationManager();
 
+  // Bot
+  private botConfig: BotConfig | null = null;
+
   // Scenarios
   private scenarios: Record<ScenarioName, GameScenario> = {};
 
@@ -242,6 +248,7 @@ export class GameDataManager {
         this._formationManager.load(
           napoleonicFormations as FormationTemplate[]
         );
+        this.botConfig = napoleonicBotConfig as BotConfig;
         this.scenarios = {
           plains: napoleonicPlains as GameScenario,
           hills: napoleonicHills as GameScenario,
@@ -304,6 +311,7 @@ export class GameDataManager {
         this.unitSkins = ww2UnitSkins as unknown as UnitSkin[];
         this.gameRules = ww2GameRules as GameRules;
         this._formationManager.load(ww2Formations as FormationTemplate[]);
+        this.botConfig = ww2BotConfig as BotConfig;
         this.scenarios = {
           "battle-of-moscow": ww2BattleOfMoscow as GameScenario,
           fields: ww2Fields as GameScenario,
@@ -359,6 +367,8 @@ export class GameDataManager {
       this._damageTypeMap.set(damageType.id, damageType);
       this._damageTypeNameMap.set(damageType.name, damageType);
     });
+
+    this.validateBotConfig(this.getBotConfig());
   }
 
   /**
@@ -1061,5 +1071,86 @@ export class GameDataManager {
     return Object.keys(this.battleTypes) as DynamicBattleType[];
   };
 
-  getBot() {}
+  /**
+   * Gets the bot configuration of the current era, loaded from its bot-config.json.
+   * @returns The bot configuration.
+   * @throws Error if the era has no bot configuration.
+   */
+  getBotConfig(): BotConfig {
+    if (!this.botConfig) {
+      throw new Error(`Bot config for era ${this.era} not found`);
+    }
+
+    return this.botConfig;
+  }
+
+  /**
+   * Checks that a bot configuration can drive the bots of the current era: every unit category
+   * must belong to a bot category, and every bot category in use needs a positive group size
+   * and a strategy with a known behavior. Fallback HP ratios must be between 0 and 1.
+   * @param config - The bot configuration to check.
+   * @throws Error if the configuration is invalid.
+   */
+  validateBotConfig(config: BotConfig) {
+    for (const category of this.unitCategories) {
+      if (!config.categoryGroups[category.id]) {
+        throw new Error(
+          `Bot config for era ${this.era} is missing the unit category ${category.id}`
+        );
+      }
+    }
+
+    for (const [categoryId, botCategory] of Object.entries(
+      config.categoryGroups
+    )) {
+      if (!this.unitCategoryMap.has(categoryId)) {
+        throw new Error(
+          `Bot config for era ${this.era} has an unknown unit category ${categoryId}`
+        );
+      }
+
+      const maxGroupSize = config.maxGroupSize[botCategory];
+
+      if (!Number.isInteger(maxGroupSize) || maxGroupSize < 1) {
+        throw new Error(
+          `Bot config for era ${this.era} needs a positive integer max group size for ${botCategory}`
+        );
+      }
+
+      const strategy = config.strategies[botCategory];
+
+      if (!strategy) {
+        throw new Error(
+          `Bot config for era ${this.era} is missing the strategy for ${botCategory}`
+        );
+      }
+
+      if (!Object.values(BotBehavior).includes(strategy.behavior)) {
+        throw new Error(
+          `Bot config for era ${this.era} has an unknown behavior ${strategy.behavior} for ${botCategory}`
+        );
+      }
+
+      if (!(strategy.groupCohesion > 0)) {
+        throw new Error(
+          `Bot config for era ${this.era} needs a positive group cohesion for ${botCategory}`
+        );
+      }
+
+      if (
+        strategy.fallbackHpRatio !== undefined &&
+        !(strategy.fallbackHpRatio >= 0 && strategy.fallbackHpRatio <= 1)
+      ) {
+        throw new Error(
+          `Bot config for era ${this.era} needs a fallback HP ratio between 0 and 1 for ${botCategory}`
+        );
+      }
+    }
+
+    if (!(config.thresholds?.orgChargeThreshold >= 0)) {
+      throw new Error(
+        `Bot config for era ${this.era} needs a non-negative org charge threshold`
+      );
+    }
+  }
 }
@@ -224,7 +224,8 @@ export interface GameConstants {
   FOW_TARGET_HEIGHT: number;
 
   /**
-   * Not visible.
+   * Not visible. Units past `FOW_LEVEL_1_DISTANCE` are not visible already, so the fog of war
+   * of the units doesn't read this distance.
    */
   FOW_LEVEL_0_DISTANCE: number;
 
@@ -7,5 +7,12 @@ export * from "./utils";
 export * from "./bot";
 export * from "./douglas-peucker";
 export * from "./army-deployer";
+export * from "./map-generator";
+export * from "./random";
+export * from "./combat";
+export * from "./fog-of-war";
+export * from "./triggers";
+export * from "./replay";
+export * from "./server-game";
 export * from "./game-data-manager";
 export * from "./constants";
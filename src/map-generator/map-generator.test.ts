@@ -0,0 +1,194 @@
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import {
+  DynamicBattleType,
+  GameScenarioType,
+  InstructionType,
+  ProceduralScenario,
+  TerrainType,
+} from "@lob-sdk/types";
+import { generateRandomMap } from "./map-generator";
+
+const TILE_SIZE = 16;
+
+const createScenario = (
+  instructions: ProceduralScenario["instructions"]
+): ProceduralScenario => ({
+  name: "Test",
+  description: "Test scenario",
+  type: GameScenarioType.Random,
+  instructions,
+});
+
+describe("generateRandomMap", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const proceduralScenarios = gameDataManager
+    .getScenarioNames()
+    .map((name) => gameDataManager.getScenario(name))
+    .filter(
+      (scenario): scenario is ProceduralScenario =>
+        scenario.type === GameScenarioType.Random ||
+        scenario.type === GameScenarioType.Classic
+    );
+
+  it("should generate every bundled procedural scenario", () => {
+    expect(proceduralScenarios.length).toBeGreaterThan(0);
+
+    for (const scenario of proceduralScenarios) {
+      const { map } = generateRandomMap({
+        scenario,
+        dynamicBattleType: DynamicBattleType.Clash,
+        maxPlayers: 2,
+        seed: 1234,
+        size: { width: 60, height: 40 },
+        tileSize: TILE_SIZE,
+      });
+
+      expect(map.width).toBe(60 * TILE_SIZE);
+      expect(map.height).toBe(40 * TILE_SIZE);
+      expect(map.terrains).toHaveLength(60);
+      expect(map.heightMap).toHaveLength(60);
+      for (let x = 0; x < 60; x++) {
+        expect(map.terrains[x]).toHaveLength(40);
+        for (let y = 0; y < 40; y++) {
+          expect(TerrainType[map.terrains[x][y]]).toBeDefined();
+          expect(Number.isFinite(map.heightMap[x][y])).toBe(true);
+        }
+      }
+    }
+  });
+
+  it("should be deterministic for the same seed and size", () => {
+    const scenario = gameDataManager.getScenario<ProceduralScenario>("hills");
+    const props = {
+      scenario,
+      dynamicBattleType: DynamicBattleType.Combat,
+      maxPlayers: 2,
+      seed: 42,
+      tileSize: TILE_SIZE,
+    };
+
+    expect(generateRandomMap(props)).toEqual(generateRandomMap(props));
+  });
+
+  it("should generate different maps for different seeds", () => {
+    const scenario = gameDataManager.getScenario<ProceduralScenario>("hills");
+    const props = {
+      scenario,
+      dynamicBattleType: DynamicBattleType.Clash,
+      maxPlayers: 2,
+      tileSize: TILE_SIZE,
+    };
+
+    const a = generateRandomMap({ ...props, seed: 1 });
+    const b = generateRandomMap({ ...props, seed: 2 });
+
+    expect(a.map.seed).toBe(1);
+    expect(b.map.seed).toBe(2);
+    expect(a.map.terrains).not.toEqual(b.map.terrains);
+  });
+
+  it("should use the map size of the battle type when no size is given", () => {
+    const { map } = generateRandomMap({
+      scenario: createScenario([]),
+      dynamicBattleType: DynamicBattleType.Clash,
+      maxPlayers: 2,
+      seed: 1,
+      tileSize: TILE_SIZE,
+    });
+
+    expect(map.width).toBe(1440);
+    expect(map.height).toBe(944);
+    expect(map.deploymentZones).toEqual([
+      { team: 1, x: 200, y: 752, width: 1040, height: 96 },
+      { team: 2, x: 200, y: 96, width: 1040, height: 96 },
+    ]);
+  });
+
+  it("should place objectives at percentage positions in pixels", () => {
+    const { objectives } = generateRandomMap({
+      scenario: createScenario([
+        {
+          type: InstructionType.Objective,
+          player: 1,
+          position: { type: "exact", coords: [25, 50] },
+        },
+        {
+          type: InstructionType.Objective,
+          player: 0,
+          position: { type: "range", min: [40, 40], max: [60, 60] },
+        },
+      ]),
+      dynamicBattleType: DynamicBattleType.Clash,
+      maxPlayers: 2,
+      seed: 7,
+      size: { width: 40, height: 20 },
+      tileSize: TILE_SIZE,
+    });
+
+    expect(objectives).toHaveLength(2);
+    expect(objectives[0]).toEqual({ player: 1, pos: { x: 160, y: 160 } });
+    expect(objectives[1].player).toBe(0);
+    expect(objectives[1].pos.x).toBeGreaterThanOrEqual(256);
+    expect(objectives[1].pos.x).toBeLessThanOrEqual(384);
+    expect(objectives[1].pos.y).toBeGreaterThanOrEqual(128);
+    expect(objectives[1].pos.y).toBeLessThanOrEqual(192);
+  });
+
+  it("should paint rectangles and circles with their borders", () => {
+    const { map } = generateRandomMap({
+      scenario: createScenario([
+        {
+          type: InstructionType.TerrainRectangle,
+          position: { type: "exact", coords: [25, 50] },
+          width: 4,
+          height: 4,
+          terrain: TerrainType.City,
+          border: { width: 1, terrain: TerrainType.Road },
+        },
+        {
+          type: InstructionType.TerrainCircle,
+          position: { type: "exact", coords: [75, 50] },
+          radius: 3,
+          falloff: 0,
+          terrain: TerrainType.Forest,
+          height: 2,
+        },
+      ]),
+      dynamicBattleType: DynamicBattleType.Clash,
+      maxPlayers: 2,
+      seed: 3,
+      size: { width: 40, height: 20 },
+      tileSize: TILE_SIZE,
+    });
+
+    expect(map.terrains[10][10]).toBe(TerrainType.City);
+    expect(map.terrains[8][10]).toBe(TerrainType.City);
+    expect(map.terrains[7][10]).toBe(TerrainType.Road);
+    expect(map.terrains[5][10]).toBe(TerrainType.Grass);
+    expect(map.terrains[30][10]).toBe(TerrainType.Forest);
+    expect(map.heightMap[30][10]).toBe(2);
+    expect(map.terrains[35][10]).toBe(TerrainType.Grass);
+  });
+
+  it("should connect opposite edges with a natural path", () => {
+    const { map } = generateRandomMap({
+      scenario: createScenario([
+        {
+          type: InstructionType.NaturalPath,
+          terrain: TerrainType.Road,
+          between: "left-right",
+          amount: { min: 1, max: 1 },
+        },
+      ]),
+      dynamicBattleType: DynamicBattleType.Clash,
+      maxPlayers: 2,
+      seed: 5,
+      size: { width: 30, height: 20 },
+      tileSize: TILE_SIZE,
+    });
+
+    for (let x = 0; x < 30; x++) {
+      expect(map.terrains[x]).toContain(TerrainType.Road);
+    }
+  });
+});
@@ -0,0 +1,1037 @@
+import { AStar } from "@lob-sdk/a-star";
+import { TWO_PI } from "@lob-sdk/constants";
+import { Point2 } from "@lob-sdk/vector";
+import { Random } from "@lob-sdk/random";
+import {
+  AnyInstruction,
+  DynamicBattleType,
+  GenerateRandomMapProps,
+  GenerateRandomMapResult,
+  InstructionConnectClusters,
+  InstructionHeightNoise,
+  InstructionLake,
+  InstructionNaturalPath,
+  InstructionObjective,
+  InstructionTerrainCircle,
+  InstructionTerrainNoise,
+  InstructionTerrainRectangle,
+  InstructionType,
+  MapSize,
+  ObjectiveDto,
+  PositionData,
+  TeamDeploymentZone,
+  TerrainType,
+} from "@lob-sdk/types";
+import mapSizes from "@lob-sdk/game-data/shared/map-sizes.json";
+import { createNoise2D } from "./noise";
+
+/**
+ * Map size preset used for each dynamic battle type when no explicit size is given.
+ */
+const BATTLE_TYPE_MAP_SIZES: Record<DynamicBattleType, keyof typeof mapSizes> =
+  {
+    [DynamicBattleType.Clash]: "s",
+    [DynamicBattleType.Combat]: "m",
+    [DynamicBattleType.Battle]: "l",
+    [DynamicBattleType.GrandBattle]: "xl",
+  };
+
+/** Number of octaves summed by the fractal noise. */
+const NOISE_OCTAVES = 3;
+
+/** Weight of the noise added to the step cost of natural paths so they meander. */
+const NATURAL_PATH_NOISE_WEIGHT = 2;
+
+/** Scale of the noise that makes natural paths meander. */
+const NATURAL_PATH_NOISE_SCALE = 12;
+
+/** Attempts made to find a path endpoint matching the height constraints. */
+const MAX_ENDPOINT_ATTEMPTS = 50;
+
+/** Fraction of the lake radius covered by deep water. */
+const LAKE_DEEP_RATIO = 0.5;
+
+/** Width of the lake shore as a fraction of the lake radius. */
+const LAKE_SHORE_RATIO = 0.15;
+
+/** Number of sine harmonics deforming the lake outline. */
+const LAKE_HARMONICS = 4;
+
+type MapEdge = "top" | "right" | "bottom" | "left";
+
+const MAP_EDGES: readonly MapEdge[] = ["top", "right", "bottom", "left"];
+
+/**
+ * Mutable state shared by the instructions while a map is generated.
+ * Sizes and positions are expressed in tiles.
+ */
+interface MapGenerationContext {
+  width: number;
+  height: number;
+  tileSize: number;
+  terrains: TerrainType[][];
+  heightMap: number[][];
+  objectives: ObjectiveDto<false>[];
+  random: Random;
+}
+
+/**
+ * Generates a map by executing the instructions of a procedural scenario in order.
+ * The same scenario, size and seed always produce the same map.
+ *
+ * Positions in instructions are percentages of the map (0-100), while widths, heights
+ * and radii are expressed in tiles.
+ *
+ * @param props - The scenario, battle type, size and seed to generate the map with.
+ * @returns The generated map (with its size in pixels) and the objectives placed on it.
+ */
+export function generateRandomMap({
+  scenario,
+  dynamicBattleType,
+  seed = Random.generateSeed(),
+  size,
+  tileSize,
+}: GenerateRandomMapProps): GenerateRandomMapResult {
+  const { width, height } =
+    size ?? getDefaultMapSize(dynamicBattleType, tileSize);
+
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Invalid map size ${width}x${height}`);
+  }
+
+  const baseTerrain = scenario.baseTerrain ?? TerrainType.Grass;
+
+  const context: MapGenerationContext = {
+    width,
+    height,
+    tileSize,
+    terrains: Array.from({ length: width }, () =>
+      new Array<TerrainType>(height).fill(baseTerrain)
+    ),
+    heightMap: Array.from({ length: width }, () =>
+      new Array<number>(height).fill(0)
+    ),
+    objectives: [],
+    random: new Random(seed),
+  };
+
+  for (const instruction of scenario.instructions) {
+    executeInstruction(context, instruction);
+  }
+
+  return {
+    map: {
+      width: width * tileSize,
+      height: height * tileSize,
+      deploymentZones: getDeploymentZones(
+        dynamicBattleType,
+        width * tileSize,
+        height * tileSize
+      ),
+      terrains: context.terrains,
+      heightMap: context.heightMap,
+      seed,
+    },
+    objectives: context.objectives,
+  };
+}
+
+/**
+ * Gets the default map size in tiles for a dynamic battle type.
+ * @param dynamicBattleType - The battle type.
+ * @param tileSize - Size of each tile in pixels.
+ * @returns The map size in tiles.
+ */
+function getDefaultMapSize(
+  dynamicBattleType: DynamicBattleType,
+  tileSize: number
+): MapSize {
+  const { map } = mapSizes[BATTLE_TYPE_MAP_SIZES[dynamicBattleType]];
+
+  return {
+    width: Math.round(map.width / tileSize),
+    height: Math.round(map.height / tileSize),
+  };
+}
+
+/**
+ * Builds the deployment zones of both teams, scaling the battle type preset to the map.
+ * @param dynamicBattleType - The battle type.
+ * @param mapWidth - Width of the map in pixels.
+ * @param mapHeight - Height of the map in pixels.
+ * @returns One deployment zone per team, team 1 at the bottom and team 2 at the top,
+ * matching the facing given to each team by the army deployer.
+ */
+function getDeploymentZones(
+  dynamicBattleType: DynamicBattleType,
+  mapWidth: number,
+  mapHeight: number
+): TeamDeploymentZone[] {
+  const { map, deployment } =
+    mapSizes[BATTLE_TYPE_MAP_SIZES[dynamicBattleType]];
+  const scaleY = mapHeight / map.height;
+
+  const width = Math.round(
+    Math.min(deployment.width * (mapWidth / map.width), mapWidth)
+  );
+  const height = Math.round(deployment.height * scaleY);
+  const separation = Math.round(deployment.zoneSeparation * scaleY);
+  const x = Math.round((mapWidth - width) / 2);
+  const centerY = Math.round(mapHeight / 2);
+
+  return [
+    {
+      team: 1,
+      x,
+      y: Math.min(mapHeight - height, centerY + Math.round(separation / 2)),
+      width,
+      height,
+    },
+    {
+      team: 2,
+      x,
+      y: Math.max(0, centerY - Math.round(separation / 2) - height),
+      width,
+      height,
+    },
+  ];
+}
+
+function executeInstruction(
+  context: MapGenerationContext,
+  instruction: AnyInstruction
+) {
+  switch (instruction.type) {
+    case InstructionType.TerrainNoise:
+      return applyTerrainNoise(context, instruction);
+    case InstructionType.HeightNoise:
+      return applyHeightNoise(context, instruction);
+    case InstructionType.TerrainCircle:
+      return applyTerrainCircle(context, instruction);
+    case InstructionType.TerrainRectangle:
+      return applyTerrainRectangle(context, instruction);
+    case InstructionType.NaturalPath:
+      return applyNaturalPath(context, instruction);
+    case InstructionType.ConnectClusters:
+      return applyConnectClusters(context, instruction);
+    case InstructionType.Objective:
+      return applyObjective(context, instruction);
+    case InstructionType.Lake:
+      return applyLake(context, instruction);
+    default:
+      throw new Error(
+        `Unknown instruction type ${(instruction as AnyInstruction).type}`
+      );
+  }
+}
+
+function applyTerrainNoise(
+  context: MapGenerationContext,
+  instruction: InstructionTerrainNoise
+) {
+  const { width, height, terrains, heightMap } = context;
+  const field = generateNoiseField(context, instruction.scale);
+  const multiplier = instruction.multiplier ?? 1;
+  const offset = instruction.offset ?? 0;
+  const minSurrounding = instruction.smoothing?.minSurrounding;
+
+  const placed: boolean[][] = Array.from({ length: width }, () =>
+    new Array<boolean>(height).fill(false)
+  );
+  const previous = minSurrounding ? terrains.map((column) => [...column]) : [];
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const value = field[x][y] * multiplier + offset;
+      if (!isInRanges(value, instruction.ranges)) continue;
+
+      if (
+        instruction.height &&
+        (heightMap[x][y] < instruction.height.min ||
+          heightMap[x][y] > instruction.height.max)
+      ) {
+        continue;
+      }
+
+      placed[x][y] = true;
+      terrains[x][y] = instruction.terrain;
+    }
+  }
+
+  if (!minSurrounding) return;
+
+  // Remove isolated tiles, counting neighbours before anything is reverted
+  const toRevert: Point2[] = [];
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (!placed[x][y]) continue;
+
+      let surrounding = 0;
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          if (dx === 0 && dy === 0) continue;
+          if (placed[x + dx]?.[y + dy]) surrounding++;
+        }
+      }
+
+      if (surrounding < minSurrounding) {
+        toRevert.push({ x, y });
+      }
+    }
+  }
+
+  for (const { x, y } of toRevert) {
+    terrains[x][y] = previous[x][y];
+  }
+}
+
+function applyHeightNoise(
+  context: MapGenerationContext,
+  instruction: InstructionHeightNoise
+) {
+  const { width, height, heightMap, random } = context;
+  const min = instruction.min ?? 0;
+  const max = instruction.max;
+
+  const fields = instruction.noises.map((noise) => {
+    const field = generateNoiseField(context, noise.scale);
+    const multiplier = noise.multiplier ?? 1;
+    const offset = noise.offset ?? 0;
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        let value = field[x][y] * multiplier + offset;
+        if (noise.randomness) {
+          value += (random.next() - 0.5) * noise.randomness;
+        }
+        if (noise.reversed) {
+          value = 1 - value;
+        }
+        field[x][y] = clamp(value, 0, 1);
+      }
+    }
+
+    return field;
+  });
+
+  if (fields.length === 0) return;
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (
+        instruction.ranges &&
+        !isInRanges(heightMap[x][y], instruction.ranges)
+      ) {
+        continue;
+      }
+
+      const values = fields.map((field) => field[x][y]);
+      let merged: number;
+
+      switch (instruction.mergeStrategy) {
+        case "min":
+          merged = Math.min(...values);
+          break;
+        case "max":
+          merged = Math.max(...values);
+          break;
+        case "avg":
+        case "round":
+          merged =
+            values.reduce((sum, value) => sum + value, 0) / values.length;
+          break;
+      }
+
+      const value = min + merged * (max - min);
+      heightMap[x][y] =
+        instruction.mergeStrategy === "round" ? Math.round(value) : value;
+    }
+  }
+}
+
+function applyTerrainCircle(
+  context: MapGenerationContext,
+  instruction: InstructionTerrainCircle
+) {
+  const { terrains, heightMap, random } = context;
+  const center = resolvePosition(context, instruction.position);
+  const radius = instruction.radius;
+  const innerRadius = radius * (1 - clamp(instruction.falloff, 0, 1));
+  const borderWidth = instruction.border?.width ?? 0;
+  const outerRadius = radius + borderWidth;
+
+  forEachTileInBounds(context, center, outerRadius, outerRadius, (x, y) => {
+    const distance = Math.hypot(x + 0.5 - center.x, y + 0.5 - center.y);
+
+    if (distance <= radius) {
+      // Tiles in the falloff ring are kept with a probability decreasing towards the edge
+      if (
+        distance > innerRadius &&
+        random.next() > (radius - distance) / (radius - innerRadius)
+      ) {
+        return;
+      }
+
+      terrains[x][y] = instruction.terrain;
+      if (instruction.height !== undefined) {
+        heightMap[x][y] = instruction.height;
+      }
+    } else if (instruction.border && distance <= outerRadius) {
+      terrains[x][y] = instruction.border.terrain;
+    }
+  });
+}
+
+function applyTerrainRectangle(
+  context: MapGenerationContext,
+  instruction: InstructionTerrainRectangle
+) {
+  const { scatter } = instruction;
+  const { random } = context;
+
+  if (!scatter) {
+    placeRectangle(
+      context,
+      instruction,
+      resolvePosition(context, instruction.position),
+      instruction.width,
+      instruction.height,
+      instruction.rotation ?? 0
+    );
+    return;
+  }
+
+  const count =
+    scatter.count ??
+    Math.round(
+      ((scatter.countPer100x100 ?? 0) * context.width * context.height) / 10000
+    );
+
+  for (let i = 0; i < count; i++) {
+    const center = {
+      x: random.next() * context.width,
+      y: random.next() * context.height,
+    };
+    const width = random.nextInt(
+      scatter.minWidth ?? instruction.width,
+      scatter.maxWidth ?? instruction.width
+    );
+    const height = random.nextInt(
+      scatter.minHeight ?? instruction.height,
+      scatter.maxHeight ?? instruction.height
+    );
+
+    let rotation = instruction.rotation ?? 0;
+    if (typeof scatter.rotation === "number") {
+      rotation = scatter.rotation;
+    } else if (scatter.rotation) {
+      rotation = random.nextRange(scatter.rotation.min, scatter.rotation.max);
+    }
+
+    let heightValue = scatter.height;
+    if (
+      heightValue === undefined &&
+      scatter.minHeightValue !== undefined &&
+      scatter.maxHeightValue !== undefined
+    ) {
+      heightValue = random.nextRange(
+        scatter.minHeightValue,
+        scatter.maxHeightValue
+      );
+    }
+
+    placeRectangle(
+      context,
+      instruction,
+      center,
+      width,
+      height,
+      rotation,
+      heightValue
+    );
+  }
+}
+
+/**
+ * Paints a (possibly rotated) rectangle and its border.
+ * @param context - The generation context.
+ * @param instruction - The rectangle instruction providing terrain, border and height filter.
+ * @param center - Center of the rectangle in tiles.
+ * @param width - Width of the rectangle in tiles.
+ * @param height - Height of the rectangle in tiles.
+ * @param rotation - Rotation in degrees.
+ * @param heightValue - Optional height assigned to the rectangle tiles.
+ */
+function placeRectangle(
+  context: MapGenerationContext,
+  instruction: InstructionTerrainRectangle,
+  center: Point2,
+  width: number,
+  height: number,
+  rotation: number,
+  heightValue?: number
+) {
+  const { terrains, heightMap } = context;
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  const borderWidth = instruction.border?.width ?? 0;
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const boundingRadius = Math.hypot(
+    halfWidth + borderWidth,
+    halfHeight + borderWidth
+  );
+
+  forEachTileInBounds(
+    context,
+    center,
+    boundingRadius,
+    boundingRadius,
+    (x, y) => {
+      if (
+        instruction.heightFilter !== undefined &&
+        Math.round(heightMap[x][y]) !== instruction.heightFilter
+      ) {
+        return;
+      }
+
+      const dx = x + 0.5 - center.x;
+      const dy = y + 0.5 - center.y;
+      const localX = Math.abs(dx * cos + dy * sin);
+      const localY = Math.abs(-dx * sin + dy * cos);
+
+      if (localX <= halfWidth && localY <= halfHeight) {
+        terrains[x][y] = instruction.terrain;
+        if (heightValue !== undefined) {
+          heightMap[x][y] = heightValue;
+        }
+      } else if (
+        instruction.border &&
+        localX <= halfWidth + borderWidth &&
+        localY <= halfHeight + borderWidth
+      ) {
+        terrains[x][y] = instruction.border.terrain;
+      }
+    }
+  );
+}
+
+function applyNaturalPath(
+  context: MapGenerationContext,
+  instruction: InstructionNaturalPath
+) {
+  const { random } = context;
+  const count = random.nextInt(instruction.amount.min, instruction.amount.max);
+  if (count <= 0) return;
+
+  const meander = generateNoiseField(context, NATURAL_PATH_NOISE_SCALE);
+  const aStar = createPathfinder(
+    context,
+    instruction.terrainCosts,
+    instruction.heightDiffCost ?? 0,
+    meander
+  );
+
+  for (let i = 0; i < count; i++) {
+    const [startEdge, endEdge] = pickPathEdges(random, instruction.between);
+    const start = findPathEndpoint(
+      context,
+      startEdge,
+      instruction.range,
+      instruction.startHeightRanges
+    );
+    const end = findPathEndpoint(
+      context,
+      endEdge,
+      instruction.range,
+      instruction.endHeightRanges
+    );
+    if (!start || !end) continue;
+
+    const path = aStar.findPath(start, end);
+    // Painting changes the step costs, so cached paths can't be reused
+    aStar.clearCache();
+    if (!path) continue;
+
+    paintPath(
+      context,
+      path,
+      instruction.terrain,
+      instruction.width ?? 1,
+      instruction.terrainReplacements,
+      instruction.height
+    );
+  }
+}
+
+function applyConnectClusters(
+  context: MapGenerationContext,
+  instruction: InstructionConnectClusters
+) {
+  const fromTerrains = new Set(
+    Array.isArray(instruction.fromTerrain)
+      ? instruction.fromTerrain
+      : [instruction.fromTerrain]
+  );
+  const clusters = findClusters(context, fromTerrains).filter(
+    (cluster) => cluster.length >= instruction.minGroupSize
+  );
+  if (clusters.length < 2) return;
+
+  const centroids = clusters.map((cluster) => {
+    const sum = cluster.reduce(
+      (acc, tile) => ({ x: acc.x + tile.x, y: acc.y + tile.y }),
+      { x: 0, y: 0 }
+    );
+    return { x: sum.x / cluster.length, y: sum.y / cluster.length };
+  });
+
+  // Connect the clusters along a minimum spanning tree of the centroid distances
+  const edges: { a: number; b: number; distance: number }[] = [];
+  const maxDistanceSquared = instruction.maxDistance * instruction.maxDistance;
+  for (let a = 0; a < clusters.length; a++) {
+    for (let b = a + 1; b < clusters.length; b++) {
+      const dx = centroids[a].x - centroids[b].x;
+      const dy = centroids[a].y - centroids[b].y;
+      const distance = dx * dx + dy * dy;
+      if (distance <= maxDistanceSquared) {
+        edges.push({ a, b, distance });
+      }
+    }
+  }
+  edges.sort(
+    (e1, e2) => e1.distance - e2.distance || e1.a - e2.a || e1.b - e2.b
+  );
+
+  const parents = clusters.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const aStar = createPathfinder(context, instruction.terrainCosts, 0);
+
+  for (const { a, b } of edges) {
+    const rootA = findRoot(a);
+    const rootB = findRoot(b);
+    if (rootA === rootB) continue;
+    parents[rootA] = rootB;
+
+    const start = getClosestTile(clusters[a], centroids[b]);
+    const end = getClosestTile(clusters[b], start);
+    const path = aStar.findPath(start, end);
+    aStar.clearCache();
+    if (!path) continue;
+
+    paintPath(
+      context,
+      path,
+      instruction.pathTerrain,
+      1,
+      instruction.terrainReplacements
+    );
+  }
+}
+
+function applyObjective(
+  context: MapGenerationContext,
+  instruction: InstructionObjective
+) {
+  const position = resolvePosition(context, instruction.position);
+
+  context.objectives.push({
+    player: instruction.player,
+    pos: {
+      x: position.x * context.tileSize,
+      y: position.y * context.tileSize,
+    },
+  });
+}
+
+function applyLake(
+  context: MapGenerationContext,
+  instruction: InstructionLake
+) {
+  const { terrains, heightMap, random } = context;
+  const center = resolvePosition(context, instruction.position);
+  const radius =
+    (random.nextRange(instruction.size.min, instruction.size.max) / 100) *
+    Math.min(context.width, context.height);
+  const organicness = clamp(instruction.organicness, 0, 1);
+  const shoreWidth = Math.max(1, Math.round(radius * LAKE_SHORE_RATIO));
+
+  const harmonics = Array.from({ length: LAKE_HARMONICS }, (_, index) => ({
+    frequency: index + 2,
+    amplitude: (organicness * (0.5 + random.next() * 0.5) * 0.3) / (index + 1),
+    phase: random.next() * TWO_PI,
+  }));
+  const maxDeformation = harmonics.reduce(
+    (sum, harmonic) => sum + harmonic.amplitude,
+    0
+  );
+  const bounds = radius * (1 + maxDeformation) + shoreWidth;
+
+  const water: Point2[] = [];
+
+  forEachTileInBounds(context, center, bounds, bounds, (x, y) => {
+    const dx = x + 0.5 - center.x;
+    const dy = y + 0.5 - center.y;
+    const distance = Math.hypot(dx, dy);
+    const angle = Math.atan2(dy, dx);
+
+    const edge =
+      radius *
+      (1 +
+        harmonics.reduce(
+          (sum, { frequency, amplitude, phase }) =>
+            sum + amplitude * Math.sin(frequency * angle + phase),
+          0
+        ));
+
+    if (distance <= edge * LAKE_DEEP_RATIO) {
+      terrains[x][y] = instruction.terrains.deep;
+      water.push({ x, y });
+    } else if (distance <= edge) {
+      terrains[x][y] = instruction.terrains.shallow;
+      water.push({ x, y });
+    } else if (distance <= edge + shoreWidth) {
+      terrains[x][y] = instruction.terrains.shore;
+    }
+  });
+
+  // Water is flat, so the whole lake takes the lowest height it covers
+  if (water.length === 0) return;
+  const waterHeight = Math.min(...water.map(({ x, y }) => heightMap[x][y]));
+  for (const { x, y } of water) {
+    heightMap[x][y] = waterHeight;
+  }
+}
+
+/**
+ * Generates a fractal noise field covering the map.
+ * Values are replaced by their rank, so they are uniformly distributed in [0, 1]
+ * and a noise range covers the same share of the map whatever its size.
+ * @param context - The generation context.
+ * @param scale - Noise scale in tiles, either uniform or per axis.
+ * @returns The noise field indexed by [x][y].
+ */
+function generateNoiseField(
+  context: MapGenerationContext,
+  scale: number | Point2
+): number[][] {
+  const { width, height } = context;
+  const noise = createNoise2D(context.random);
+  const scaleX = Math.max(typeof scale === "number" ? scale : scale.x, 1e-6);
+  const scaleY = Math.max(typeof scale === "number" ? scale : scale.y, 1e-6);
+
+  const field = Array.from({ length: width }, (_, x) =>
+    Array.from({ length: height }, (_, y) => {
+      let value = 0;
+      let amplitude = 1;
+      let frequency = 1;
+      for (let octave = 0; octave < NOISE_OCTAVES; octave++) {
+        value +=
+          amplitude * noise((x / scaleX) * frequency, (y / scaleY) * frequency);
+        amplitude /= 2;
+        frequency *= 2;
+      }
+      return value;
+    })
+  );
+
+  const tiles = Array.from({ length: width * height }, (_, index) => index);
+  const valueAt = (index: number) =>
+    field[Math.floor(index / height)][index % height];
+  tiles.sort((a, b) => valueAt(a) - valueAt(b) || a - b);
+
+  const ranks = new Float64Array(tiles.length);
+  const maxRank = Math.max(tiles.length - 1, 1);
+  tiles.forEach((tile, rank) => {
+    ranks[tile] = rank / maxRank;
+  });
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      field[x][y] = ranks[x * height + y];
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Creates an A* pathfinder whose step cost reads the current terrain and height of the map.
+ * @param context - The generation context.
+ * @param terrainCosts - Step cost per terrain type. Terrains not listed cost 1.
+ * @param heightDiffCost - Extra cost per unit of height difference between two tiles.
+ * @param meander - Optional noise field added to the cost so paths don't run straight.
+ * @returns The pathfinder.
+ */
+function createPathfinder(
+  context: MapGenerationContext,
+  terrainCosts: Array<{ terrain: TerrainType; cost: number }> | undefined,
+  heightDiffCost: number,
+  meander?: number[][]
+) {
+  const { terrains, heightMap } = context;
+  const costs = new Map(
+    (terrainCosts ?? []).map(({ terrain, cost }) => [terrain, cost])
+  );
+
+  return new AStar(context.width, context.height, (from, to) => {
+    let cost = costs.get(terrains[to.x][to.y]) ?? 1;
+    cost +=
+      heightDiffCost *
+      Math.abs(heightMap[to.x][to.y] - heightMap[from.x][from.y]);
+    if (meander) {
+      cost += meander[to.x][to.y] * NATURAL_PATH_NOISE_WEIGHT;
+    }
+    return cost;
+  });
+}
+
+function pickPathEdges(
+  random: Random,
+  between: InstructionNaturalPath["between"]
+): [MapEdge, MapEdge] {
+  switch (between) {
+    case "left-right":
+      return ["left", "right"];
+    case "top-bottom":
+      return ["top", "bottom"];
+    case "edges": {
+      const start = random.pick(MAP_EDGES)!;
+      const others = MAP_EDGES.filter((edge) => edge !== start);
+      return [start, random.pick(others)!];
+    }
+  }
+}
+
+/**
+ * Picks a random tile along a map edge, retrying until it matches the height ranges.
+ * @param context - The generation context.
+ * @param edge - The map edge.
+ * @param range - Optional percentage range along the edge.
+ * @param heightRanges - Optional height ranges the tile must be in.
+ * @returns The tile, or null if none was found.
+ */
+function findPathEndpoint(
+  context: MapGenerationContext,
+  edge: MapEdge,
+  range: { min: number; max: number } | undefined,
+  heightRanges: Array<{ min: number; max: number }> | undefined
+): Point2 | null {
+  const { width, height, heightMap, random } = context;
+
+  for (let attempt = 0; attempt < MAX_ENDPOINT_ATTEMPTS; attempt++) {
+    const percent =
+      random.nextRange(range?.min ?? 0, range?.max ?? 100) / 100;
+    const alongX = clamp(Math.floor(percent * width), 0, width - 1);
+    const alongY = clamp(Math.floor(percent * height), 0, height - 1);
+
+    let point: Point2;
+    switch (edge) {
+      case "top":
+        point = { x: alongX, y: 0 };
+        break;
+      case "bottom":
+        point = { x: alongX, y: height - 1 };
+        break;
+      case "left":
+        point = { x: 0, y: alongY };
+        break;
+      case "right":
+        point = { x: width - 1, y: alongY };
+        break;
+    }
+
+    if (
+      !heightRanges ||
+      isInRanges(heightMap[point.x][point.y], heightRanges)
+    ) {
+      return point;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Paints a path on the map, widening it around each point and applying terrain replacements.
+ * @param context - The generation context.
+ * @param path - The path tiles.
+ * @param terrain - Terrain of the path.
+ * @param width - Width of the path in tiles.
+ * @param terrainReplacements - Terrains crossed by the path that become another terrain instead.
+ * @param height - Optional height assigned to the path tiles.
+ */
+function paintPath(
+  context: MapGenerationContext,
+  path: Point2[],
+  terrain: TerrainType,
+  width: number,
+  terrainReplacements?: Array<{
+    fromTerrain: TerrainType;
+    toTerrain: TerrainType;
+  }>,
+  height?: number
+) {
+  const { terrains, heightMap } = context;
+  const replacements = new Map(
+    (terrainReplacements ?? []).map(({ fromTerrain, toTerrain }) => [
+      fromTerrain,
+      toTerrain,
+    ])
+  );
+  const radius = Math.max(0, (width - 1) / 2);
+  const painted = new Set<number>();
+
+  for (const point of path) {
+    forEachTileInBounds(
+      context,
+      { x: point.x + 0.5, y: point.y + 0.5 },
+      radius + 0.5,
+      radius + 0.5,
+      (x, y) => {
+        if (Math.hypot(x - point.x, y - point.y) > radius) return;
+
+        // Each tile is painted once so replaced tiles aren't painted over again
+        const key = y * context.width + x;
+        if (painted.has(key)) return;
+        painted.add(key);
+
+        terrains[x][y] = replacements.get(terrains[x][y]) ?? terrain;
+        if (height !== undefined) {
+          heightMap[x][y] = height;
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Finds the 4-connected clusters of tiles whose terrain is in the given set.
+ * @param context - The generation context.
+ * @param fromTerrains - Terrains making up the clusters.
+ * @returns The tiles of every cluster.
+ */
+function findClusters(
+  context: MapGenerationContext,
+  fromTerrains: Set<TerrainType>
+): Point2[][] {
+  const { width, height, terrains } = context;
+  const visited: boolean[][] = Array.from({ length: width }, () =>
+    new Array<boolean>(height).fill(false)
+  );
+  const clusters: Point2[][] = [];
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (visited[x][y] || !fromTerrains.has(terrains[x][y])) continue;
+
+      const cluster: Point2[] = [];
+      const stack: Point2[] = [{ x, y }];
+      visited[x][y] = true;
+
+      while (stack.length > 0) {
+        const tile = stack.pop()!;
+        cluster.push(tile);
+
+        for (const [dx, dy] of [
+          [1, 0],
+          [-1, 0],
+          [0, 1],
+          [0, -1],
+        ]) {
+          const nx = tile.x + dx;
+          const ny = tile.y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          if (visited[nx][ny] || !fromTerrains.has(terrains[nx][ny])) continue;
+          visited[nx][ny] = true;
+          stack.push({ x: nx, y: ny });
+        }
+      }
+
+      clusters.push(cluster);
+    }
+  }
+
+  return clusters;
+}
+
+function getClosestTile(tiles: Point2[], target: Point2): Point2 {
+  let closest = tiles[0];
+  let closestDistance = Infinity;
+
+  for (const tile of tiles) {
+    const distance = (tile.x - target.x) ** 2 + (tile.y - target.y) ** 2;
+    if (distance < closestDistance) {
+      closest = tile;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Resolves a position instruction into tile coordinates.
+ * @param context - The generation context.
+ * @param position - Exact or range position, as percentages of the map.
+ * @returns The position in tiles.
+ */
+function resolvePosition(
+  context: MapGenerationContext,
+  position: PositionData
+): Point2 {
+  const { random } = context;
+  const [percentX, percentY] =
+    position.type === "exact"
+      ? position.coords
+      : [
+          random.nextRange(position.min[0], position.max[0]),
+          random.nextRange(position.min[1], position.max[1]),
+        ];
+
+  return {
+    x: clamp((percentX / 100) * context.width, 0, context.width),
+    y: clamp((percentY / 100) * context.height, 0, context.height),
+  };
+}
+
+/**
+ * Calls the callback for every tile of the map inside a box around a center.
+ */
+function forEachTileInBounds(
+  context: MapGenerationContext,
+  center: Point2,
+  halfWidth: number,
+  halfHeight: number,
+  callback: (x: number, y: number) => void
+) {
+  const minX = Math.max(0, Math.floor(center.x - halfWidth));
+  const maxX = Math.min(context.width - 1, Math.ceil(center.x + halfWidth));
+  const minY = Math.max(0, Math.floor(center.y - halfHeight));
+  const maxY = Math.min(context.height - 1, Math.ceil(center.y + halfHeight));
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      callback(x, y);
+    }
+  }
+}
+
+function isInRanges(
+  value: number,
+  ranges: Array<{ min: number; max: number }>
+): boolean {
+  return ranges.some((range) => value >= range.min && value <= range.max);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,65 @@
+import { Random } from "@lob-sdk/random";
+
+/** Gradient directions used by the Perlin noise. */
+const GRADIENTS: readonly [number, number][] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [Math.SQRT1_2, Math.SQRT1_2],
+  [-Math.SQRT1_2, Math.SQRT1_2],
+  [Math.SQRT1_2, -Math.SQRT1_2],
+  [-Math.SQRT1_2, -Math.SQRT1_2],
+];
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Creates a 2D Perlin noise function whose permutation table is shuffled with the given random source.
+ * @param random - The generator used to build the permutation table.
+ * @returns A function returning the noise value at (x, y), roughly in the range [-1, 1].
+ */
+export function createNoise2D(
+  random: Random
+): (x: number, y: number) => number {
+  const permutation = random.shuffle(
+    Array.from({ length: 256 }, (_, index) => index)
+  );
+
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) {
+    perm[i] = permutation[i & 255];
+  }
+
+  const dot = (hash: number, x: number, y: number) => {
+    const gradient = GRADIENTS[hash & 7];
+    return gradient[0] * x + gradient[1] * y;
+  };
+
+  return (x: number, y: number) => {
+    const xFloor = Math.floor(x);
+    const yFloor = Math.floor(y);
+    const xi = xFloor & 255;
+    const yi = yFloor & 255;
+    const xf = x - xFloor;
+    const yf = y - yFloor;
+
+    const aa = perm[perm[xi] + yi];
+    const ab = perm[perm[xi] + yi + 1];
+    const ba = perm[perm[xi + 1] + yi];
+    const bb = perm[perm[xi + 1] + yi + 1];
+
+    const u = fade(xf);
+    const v = fade(yf);
+
+    return (
+      lerp(
+        lerp(dot(aa, xf, yf), dot(ba, xf - 1, yf), u),
+        lerp(dot(ab, xf, yf - 1), dot(bb, xf - 1, yf - 1), u),
+        v
+      ) * Math.SQRT2
+    );
+  };
+}
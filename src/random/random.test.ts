@@ -0,0 +1,68 @@
+import { Random } from "./random";
+
+describe("Random", () => {
+  const take = (random: Random, count: number) =>
+    Array.from({ length: count }, () => random.next());
+
+  it("should produce the same sequence for the same seed", () => {
+    expect(take(new Random(123), 20)).toEqual(take(new Random(123), 20));
+  });
+
+  it("should produce different sequences for different seeds", () => {
+    expect(take(new Random(1), 20)).not.toEqual(take(new Random(2), 20));
+  });
+
+  it("should return numbers in the range [0, 1)", () => {
+    for (const value of take(new Random(99), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("should continue the same sequence after restoring a saved state", () => {
+    const random = new Random(2024);
+    take(random, 10);
+
+    const state = JSON.parse(JSON.stringify(random.getState()));
+    const expected = take(random, 10);
+
+    const restored = Random.fromState(state);
+    expect(restored.seed).toBe(2024);
+    expect(take(restored, 10)).toEqual(expected);
+  });
+
+  it("should clone an independent generator", () => {
+    const random = new Random(5);
+    const clone = random.clone();
+
+    expect(clone.next()).toBe(random.next());
+    clone.next();
+    expect(clone.getState()).not.toEqual(random.getState());
+  });
+
+  it("should return integers within inclusive bounds", () => {
+    const random = new Random(7);
+    const seen = new Set<number>();
+
+    for (let i = 0; i < 500; i++) {
+      const value = random.nextInt(1, 3);
+      expect(Number.isInteger(value)).toBe(true);
+      seen.add(value);
+    }
+
+    expect([...seen].sort()).toEqual([1, 2, 3]);
+  });
+
+  it("should shuffle deterministically without losing items", () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const a = new Random(11).shuffle([...items]);
+    const b = new Random(11).shuffle([...items]);
+
+    expect(a).toEqual(b);
+    expect([...a].sort()).toEqual(items);
+  });
+
+  it("should return undefined when picking from an empty array", () => {
+    expect(new Random(1).pick([])).toBeUndefined();
+  });
+});
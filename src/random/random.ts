@@ -0,0 +1,147 @@
+/**
+ * Serializable state of a {@link Random} generator.
+ * Saving it and restoring it later continues the exact same sequence.
+ */
+export interface RandomState {
+  /** The seed the generator was created with. */
+  seed: number;
+  /** The internal 32-bit state of the generator. */
+  state: number;
+}
+
+/**
+ * A seedable, deterministic pseudo-random number generator (mulberry32).
+ * Every random decision of the SDK goes through this class so that games, replays and
+ * bot matches are bit-identical when they start from the same seed or state.
+ */
+export class Random {
+  private _seed: number;
+  private _state: number;
+
+  /**
+   * Creates a new Random instance.
+   * @param seed - The seed of the sequence. Equal seeds produce equal sequences.
+   */
+  constructor(seed: number) {
+    this._seed = seed >>> 0;
+    this._state = this._seed;
+  }
+
+  /**
+   * Generates a new seed. This is the only non-deterministic source of the SDK and
+   * should only be used when a game or map is created without an explicit seed.
+   * @returns A random 31-bit integer seed.
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 2147483647);
+  }
+
+  /**
+   * Restores a generator from a previously saved state.
+   * @param state - The state returned by {@link Random.getState}.
+   * @returns A generator continuing the saved sequence.
+   */
+  static fromState(state: RandomState): Random {
+    const random = new Random(state.seed);
+    random.setState(state);
+    return random;
+  }
+
+  /**
+   * The seed this generator was created with.
+   */
+  get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Returns the next number of the sequence.
+   * @returns A number in the range [0, 1).
+   */
+  next(): number {
+    this._state = (this._state + 0x6d2b79f5) >>> 0;
+    let t = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns a number in the range [min, max).
+   * @param min - The lower bound.
+   * @param max - The upper bound.
+   * @returns The random number.
+   */
+  nextRange(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Returns an integer in the range [min, max], both inclusive.
+   * @param min - The lowest integer.
+   * @param max - The highest integer.
+   * @returns The random integer.
+   */
+  nextInt(min: number, max: number): number {
+    return Math.floor(min + this.next() * (max - min + 1));
+  }
+
+  /**
+   * Returns true with the given probability.
+   * @param probability - Probability between 0 and 1.
+   * @returns Whether the roll succeeded.
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Picks a random item of an array.
+   * @param items - The items to pick from.
+   * @returns The picked item, or undefined if the array is empty.
+   */
+  pick<T>(items: readonly T[]): T | undefined {
+    if (items.length === 0) return undefined;
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Shuffles an array in place (Fisher-Yates).
+   * @param items - The array to shuffle.
+   * @returns The same array, shuffled.
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      const temp = items[i];
+      items[i] = items[j];
+      items[j] = temp;
+    }
+    return items;
+  }
+
+  /**
+   * Gets the current state of the generator so it can be saved (e.g. into `GameData`).
+   * @returns The serializable state.
+   */
+  getState(): RandomState {
+    return { seed: this._seed, state: this._state };
+  }
+
+  /**
+   * Restores a previously saved state.
+   * @param state - The state returned by {@link Random.getState}.
+   */
+  setState(state: RandomState) {
+    this._seed = state.seed >>> 0;
+    this._state = state.state >>> 0;
+  }
+
+  /**
+   * Creates an independent copy of this generator at the same position of the sequence.
+   * @returns The copy.
+   */
+  clone(): Random {
+    return Random.fromState(this.getState());
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  ActionType,
+  AnyAction,
+  GameState,
+  GameTriggerActionType,
+  GameTriggerEventType,
+  OrderType,
+  UnitDto,
+  UnitStatus,
+} from "@lob-sdk/types";
+import {
+  createTestGame,
+  getScenarioProps,
+} from "@lob-sdk/server-game/test-utils";
+import { applyActions } from "./apply-actions";
+import { findStateDivergence } from "./state-hash";
+
+describe("applyActions()", () => {
+  const unit = (id: number): UnitDto => ({
+    id,
+    hp: 100,
+    org: 100,
+    status: UnitStatus.Standing,
+    pos: { x: 0, y: 0 },
+    player: 1,
+    rotation: 0,
+    type: 1,
+  });
+
+  const state: GameState = {
+    players: [],
+    teams: [],
+    units: [unit(1), unit(2)],
+    map: { width: 0, height: 0, terrains: [], heightMap: [] },
+    objectives: [{ id: 3, pos: { x: 50, y: 50 }, player: 1 }],
+    triggers: [],
+  };
+
+  const actions: AnyAction[] = [
+    { type: ActionType.FormationChange, unitId: 1, formationId: "column" },
+    {
+      type: ActionType.TickAction,
+      actions: [
+        { type: ActionType.Move, unitId: 1, path: [[10, 0]] },
+        { type: ActionType.Rotate, unitId: 2, rotation: 1 },
+      ],
+    },
+    {
+      type: ActionType.TickAction,
+      actions: [
+        { type: ActionType.Move, unitId: 1, path: [[20, 0]] },
+        {
+          type: ActionType.UpdateObjectiveState,
+          objectiveId: 3,
+          player: 2,
+          captureProgress: 0,
+        },
+      ],
+    },
+    { type: ActionType.UpdateUnitState, unitId: 1, hp: 60 },
+    { type: ActionType.UnitDestroyed, unitId: 2 },
+  ];
+
+  it("should apply the actions without mutating the state", () => {
+    const result = applyActions(state, actions);
+
+    expect(result.units).toEqual([
+      { ...unit(1), pos: { x: 20, y: 0 }, hp: 60, f: "column" },
+    ]);
+    expect(result.objectives).toEqual([
+      { id: 3, pos: { x: 50, y: 50 }, player: 2 },
+    ]);
+    expect(state.units[0]).toEqual(unit(1));
+    expect(state.objectives![0].player).toBe(1);
+  });
+
+  it("should stop at a tick", () => {
+    const before = applyActions(state, actions, { untilTick: 0 });
+    const firstTick = applyActions(state, actions, { untilTick: 1 });
+
+    expect(before.units[0].pos).toEqual({ x: 0, y: 0 });
+    expect(before.units[0].f).toBe("column");
+    expect(firstTick.units[0].pos).toEqual({ x: 10, y: 0 });
+    expect(firstTick.units[1].rotation).toBe(1);
+    expect(firstTick.objectives![0].player).toBe(1);
+  });
+
+  it("should reconstruct the state of played turns where units rout", () => {
+    const game = createTestGame(
+      getScenarioProps("napoleonic", "clash-at-chelmnitz")
+    );
+
+    let routingUnits = 0;
+
+    for (let turn = 1; turn <= 4; turn++) {
+      for (const { playerNumber } of game.getPlayers()) {
+        const enemies = game
+          .getUnits()
+          .filter((unit) => unit.player !== playerNumber);
+
+        game.submitOrders(playerNumber, {
+          turn,
+          orders: game.getUnitsOfPlayer(playerNumber).map((unit) => ({
+            id: unit.id,
+            type: OrderType.Run,
+            path: [
+              game.getClosestUnitOf(unit.position, enemies)!.position.toArray(),
+            ],
+          })),
+        });
+      }
+      game.executeTurn();
+
+      const result = applyActions(game.previousState!, game.lastActions!);
+
+      // Army powers only come with the turn action, at the start of the turn.
+      expect(
+        findStateDivergence(result, {
+          ...game.getState(),
+          teams: game.previousState!.teams,
+        })
+      ).toBeNull();
+
+      routingUnits = Math.max(
+        routingUnits,
+        game.getUnits().filter((unit) => unit.isRouting()).length
+      );
+    }
+
+    expect(routingUnits).toBeGreaterThan(0);
+  });
+
+  it("should reconstruct the state of a turn with autofire changes and a defeat", () => {
+    const props = getScenarioProps("napoleonic", "clash-at-chelmnitz");
+    const game = createTestGame({
+      ...props,
+      state: {
+        ...props.state!,
+        triggers: [
+          {
+            event: GameTriggerEventType.OnTurnEnd,
+            conditions: [],
+            actions: [{ type: GameTriggerActionType.DefeatPlayer, value: 2 }],
+          },
+        ],
+      },
+    });
+    const [first, second] = game.getUnitsOfPlayer(1);
+    second.holdFireDamageTypes = [1];
+
+    game.submitOrders(1, {
+      turn: 1,
+      orders: [],
+      autofireConfigChanges: [
+        { unitId: first.id, holdFireDamageTypes: [1] },
+        { unitId: second.id, holdFireDamageTypes: [] },
+      ],
+    });
+    game.executeTurn();
+
+    const result = applyActions(game.previousState!, game.lastActions!);
+
+    expect(game.getUnitsOfPlayer(2)).toHaveLength(0);
+    expect(
+      findStateDivergence(result, {
+        ...game.getState(),
+        teams: game.previousState!.teams,
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  ActionType,
+  AnyAction,
+  EntityId,
+  GameState,
+  ObjectiveDto,
+  UnitDto,
+} from "@lob-sdk/types";
+import { applyTerrainChange } from "@lob-sdk/utils";
+
+/**
+ * Options to apply actions to a game state.
+ */
+export interface ApplyActionsOptions {
+  /**
+   * Number of ticks to apply. The actions are applied until the tick action of this index,
+   * so 0 gives the state before the first tick. Default: every action.
+   */
+  untilTick?: number;
+}
+
+/**
+ * Copy of a game state being reduced, with its units and objectives by id.
+ */
+interface ReducedState {
+  state: GameState;
+  units: Map<EntityId, UnitDto>;
+  objectives: Map<EntityId, ObjectiveDto>;
+}
+
+/**
+ * Applies the actions of a turn to the game state the turn started from, to reconstruct the
+ * board at any tick of the turn. The state is not mutated.
+ *
+ * Attacks don't change the state by themselves, since their damage comes with the unit state
+ * updates, and neither do player state updates, since the state has no ammo reserves.
+ * Objectives keep their team, since objective updates only carry their player.
+ * The last velocity, effects, attack cooldown and stopped ticks of the units are only updated
+ * at the end of the turn, and the teams come with the turn action, so their army power is the
+ * one of the start of the turn.
+ *
+ * @param state - The state the actions start from, usually the previous state of the game.
+ * @param actions - The actions of the turn, in order.
+ * @param options - Options to stop at a tick.
+ * @returns The state after the actions.
+ */
+export function applyActions(
+  state: GameState,
+  actions: AnyAction[],
+  { untilTick = Infinity }: ApplyActionsOptions = {}
+): GameState {
+  const reduced: ReducedState = {
+    state: { ...state },
+    units: new Map(state.units.map((unit) => [unit.id, { ...unit }])),
+    objectives: new Map(
+      (state.objectives ?? []).map((objective) => [
+        objective.id,
+        { ...objective },
+      ])
+    ),
+  };
+  let tick = 0;
+
+  for (const action of actions) {
+    if (action.type === ActionType.TickAction) {
+      if (tick >= untilTick) {
+        break;
+      }
+
+      tick++;
+    }
+
+    applyAction(reduced, action);
+  }
+
+  return {
+    ...reduced.state,
+    units: Array.from(reduced.units.values()),
+    objectives: state.objectives && Array.from(reduced.objectives.values()),
+  };
+}
+
+function applyAction(reduced: ReducedState, action: AnyAction) {
+  const { units, objectives } = reduced;
+
+  switch (action.type) {
+    case ActionType.TickAction:
+      for (const tickAction of action.actions) {
+        applyAction(reduced, tickAction);
+      }
+      break;
+    case ActionType.TurnAction:
+      reduced.state.teams = action.teams.map((team) => ({ ...team }));
+      break;
+    case ActionType.Move: {
+      const unit = units.get(action.unitId);
+      const [x, y] = action.path[action.path.length - 1] ?? [];
+
+      if (unit && x !== undefined) {
+        unit.pos = { x, y };
+      }
+      break;
+    }
+    case ActionType.Rotate: {
+      const unit = units.get(action.unitId);
+
+      if (unit) {
+        unit.rotation = action.rotation;
+      }
+      break;
+    }
+    case ActionType.Attack:
+    case ActionType.RangedAttack:
+    case ActionType.UpdatePlayerState:
+      break;
+    case ActionType.UnitDestroyed:
+      units.delete(action.unitId);
+      break;
+    case ActionType.UpdateUnitState: {
+      const unit = units.get(action.unitId);
+
+      if (!unit) {
+        break;
+      }
+
+      if (action.hp !== undefined) unit.hp = action.hp;
+      if (action.org !== undefined) unit.org = action.org;
+      if (action.status !== undefined) unit.status = action.status;
+      if (action.player !== undefined) unit.player = action.player;
+      if (action.st !== undefined) unit.st = action.st;
+      if (action.am !== undefined) unit.am = action.am;
+      if (action.su !== undefined) unit.su = action.su;
+
+      // Like the unit DTOs, empty and zero values are left out.
+      if (action.ac === 0) {
+        delete unit.ac;
+      } else if (action.ac !== undefined) {
+        unit.ac = action.ac;
+      }
+
+      if (action.en === 0) {
+        delete unit.en;
+      } else if (action.en !== undefined) {
+        unit.en = action.en;
+      }
+
+      if (action.lv === null) {
+        delete unit.lv;
+      } else if (action.lv !== undefined) {
+        unit.lv = action.lv;
+      }
+
+      if (action.eff?.length === 0) {
+        delete unit.eff;
+      } else if (action.eff !== undefined) {
+        unit.eff = action.eff;
+      }
+
+      if (action.acd === 0) {
+        delete unit.acd;
+      } else if (action.acd !== undefined) {
+        unit.acd = action.acd;
+      }
+
+      if (action.stt === 0) {
+        delete unit.stt;
+      } else if (action.stt !== undefined) {
+        unit.stt = action.stt;
+      }
+
+      if (action.hfdt?.length === 0) {
+        delete unit.hfdt;
+      } else if (action.hfdt !== undefined) {
+        unit.hfdt = action.hfdt;
+      }
+      break;
+    }
+    case ActionType.PlaceEntity: {
+      const unit = units.get(action.id);
+
+      if (unit) {
+        unit.pos = { x: action.pos[0], y: action.pos[1] };
+
+        if (action.rotation !== undefined) {
+          unit.rotation = action.rotation;
+        }
+      }
+      break;
+    }
+    case ActionType.UpdateObjectiveState: {
+      const objective = objectives.get(action.objectiveId);
+
+      if (!objective) {
+        break;
+      }
+
+      // Like the objective DTOs, neutral objectives and no progress are left out.
+      if (action.player === 0) {
+        delete objective.player;
+      } else if (action.player !== undefined) {
+        objective.player = action.player;
+      }
+
+      if (action.captureProgress === 0) {
+        delete objective.captureProgress;
+      } else if (action.captureProgress !== undefined) {
+        objective.captureProgress = action.captureProgress;
+      }
+
+      if (action.m !== undefined) objective.m = action.m;
+      if (action.g !== undefined) objective.g = action.g;
+      break;
+    }
+    case ActionType.AddUnits:
+      for (const unit of action.units) {
+        units.set(unit.id, { ...unit });
+      }
+      break;
+    case ActionType.AddObjectives:
+      for (const objective of action.objectives) {
+        objectives.set(objective.id, { ...objective });
+      }
+      break;
+    case ActionType.ObjectiveDestroyed:
+      objectives.delete(action.objectiveId);
+      break;
+    case ActionType.FormationChange: {
+      const unit = units.get(action.unitId);
+
+      if (unit) {
+        unit.f = action.formationId;
+      }
+      break;
+    }
+    case ActionType.TerrainChange:
+      reduced.state.map = applyTerrainChange(reduced.state.map, action.tiles);
+      break;
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  ActionType,
+  GameState,
+  OrderType,
+  TerrainType,
+  UnitDto,
+  UnitStatus,
+} from "@lob-sdk/types";
+import {
+  createTestGame,
+  getScenarioProps,
+} from "@lob-sdk/server-game/test-utils";
+import { applyActions } from "./apply-actions";
+import { diffGameStates } from "./diff-game-states";
+import { findStateDivergence } from "./state-hash";
+
+describe("diffGameStates()", () => {
+  const unit = (id: number, fields: Partial<UnitDto> = {}): UnitDto => ({
+    id,
+    hp: 100,
+    org: 100,
+    status: UnitStatus.Standing,
+    pos: { x: id * 10, y: 0 },
+    player: 1,
+    rotation: 0,
+    type: 1,
+    f: "line",
+    ...fields,
+  });
+
+  const createState = (fields: Partial<GameState> = {}): GameState => ({
+    players: [],
+    teams: [],
+    units: [unit(1), unit(2), unit(3)],
+    map: {
+      width: 0,
+      height: 0,
+      terrains: [
+        [0, 0],
+        [0, 0],
+      ],
+      heightMap: [
+        [0, 0],
+        [0, 0],
+      ],
+    },
+    objectives: [{ id: 10, pos: { x: 0, y: 0 }, player: 1, m: 5 }],
+    triggers: [],
+    ...fields,
+  });
+
+  it("should have no actions for equal states", () => {
+    expect(diffGameStates(createState(), createState())).toEqual([]);
+  });
+
+  it("should produce the actions that turn a state into another", () => {
+    const a = createState({
+      units: [unit(1, { en: 2 }), unit(2), unit(3)],
+    });
+    const b = createState({
+      units: [
+        unit(1, { hp: 50, pos: { x: 15, y: 5 } }),
+        unit(3, { f: "square", status: UnitStatus.Routing }),
+        unit(4),
+      ],
+      objectives: [
+        { id: 10, pos: { x: 0, y: 0 }, captureProgress: 0.5, m: 5 },
+        { id: 11, pos: { x: 50, y: 0 } },
+      ],
+    });
+    b.map = {
+      ...b.map,
+      terrains: [
+        [0, TerrainType.Forest],
+        [0, 0],
+      ],
+    };
+
+    const actions = diffGameStates(a, b);
+
+    expect(actions).toEqual([
+      { type: ActionType.UnitDestroyed, unitId: 2 },
+      { type: ActionType.AddUnits, units: [unit(4)] },
+      { type: ActionType.PlaceEntity, id: 1, pos: [15, 5], rotation: 0 },
+      { type: ActionType.UpdateUnitState, unitId: 1, hp: 50, en: 0 },
+      { type: ActionType.FormationChange, unitId: 3, formationId: "square" },
+      {
+        type: ActionType.UpdateUnitState,
+        unitId: 3,
+        status: UnitStatus.Routing,
+      },
+      {
+        type: ActionType.AddObjectives,
+        objectives: [{ id: 11, pos: { x: 50, y: 0 } }],
+      },
+      {
+        type: ActionType.UpdateObjectiveState,
+        objectiveId: 10,
+        player: 0,
+        captureProgress: 0.5,
+      },
+      {
+        type: ActionType.TerrainChange,
+        tiles: [[0, 1, TerrainType.Forest, 0]],
+      },
+    ]);
+    expect(applyActions(a, actions)).toEqual(b);
+  });
+
+  it("should clear the fields left out of the unit and objective DTOs", () => {
+    const a = createState({
+      units: [
+        unit(1, { lv: [1, 0], eff: [[1, 5]], acd: 3, stt: 2, hfdt: [1] }),
+        unit(2, { st: 50 }),
+        unit(3),
+      ],
+      objectives: [
+        { id: 10, pos: { x: 0, y: 0 }, player: 1, m: 5 },
+        { id: 11, pos: { x: 50, y: 0 }, player: 2 },
+      ],
+    });
+    const b = createState({
+      units: [unit(1), unit(2), unit(3, { f: undefined })],
+      objectives: [{ id: 10, pos: { x: 0, y: 0 }, player: 1 }],
+    });
+
+    const actions = diffGameStates(a, b);
+
+    expect(actions).toEqual([
+      { type: ActionType.UnitDestroyed, unitId: 2 },
+      { type: ActionType.UnitDestroyed, unitId: 3 },
+      { type: ActionType.AddUnits, units: [unit(2), b.units[2]] },
+      {
+        type: ActionType.UpdateUnitState,
+        unitId: 1,
+        lv: null,
+        eff: [],
+        acd: 0,
+        stt: 0,
+        hfdt: [],
+      },
+      { type: ActionType.ObjectiveDestroyed, objectiveId: 10 },
+      { type: ActionType.ObjectiveDestroyed, objectiveId: 11 },
+      {
+        type: ActionType.AddObjectives,
+        objectives: [{ id: 10, pos: { x: 0, y: 0 }, player: 1 }],
+      },
+    ]);
+    expect(findStateDivergence(applyActions(a, actions), b)).toBeNull();
+  });
+
+  it("should turn the states of a played game into each other", () => {
+    const game = createTestGame(
+      getScenarioProps("napoleonic", "clash-at-chelmnitz")
+    );
+    const states = [game.getState()];
+
+    for (let turn = 1; turn <= 3; turn++) {
+      for (const { playerNumber } of game.getPlayers()) {
+        game.submitOrders(playerNumber, {
+          turn,
+          orders: game.getUnitsOfPlayer(playerNumber).map((unit) => ({
+            id: unit.id,
+            type: OrderType.Run,
+            path: [[unit.position.x, 600]],
+          })),
+        });
+      }
+      game.executeTurn();
+      states.push(game.getState());
+    }
+
+    for (const a of states) {
+      for (const b of states) {
+        const result = applyActions(a, diffGameStates(a, b));
+
+        expect(
+          findStateDivergence(result, { ...b, teams: a.teams })
+        ).toBeNull();
+      }
+    }
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  ActionType,
+  AnyAction,
+  GameMap,
+  GameState,
+  ObjectiveDto,
+  TerrainChangeTile,
+  UnitDto,
+  UpdateObjectiveStateAction,
+  UpdateUnitStateAction,
+} from "@lob-sdk/types";
+import { Vector2 } from "@lob-sdk/vector";
+
+/** Unit fields carried by the unit state updates. */
+const UNIT_STATE_FIELDS = [
+  "hp",
+  "org",
+  "status",
+  "player",
+  "ac",
+  "st",
+  "am",
+  "su",
+  "en",
+  "lv",
+  "eff",
+  "acd",
+  "stt",
+  "hfdt",
+] as const;
+
+type UnitStateField = (typeof UNIT_STATE_FIELDS)[number];
+
+/**
+ * Values of the unit state updates that clear a field left out of the unit DTOs, like
+ * {@link applyActions} applies them. The other fields can't be cleared.
+ */
+const UNIT_STATE_CLEAR_VALUES: Partial<Record<UnitStateField, unknown>> = {
+  ac: 0,
+  en: 0,
+  lv: null,
+  eff: [],
+  acd: 0,
+  stt: 0,
+  hfdt: [],
+};
+
+/**
+ * Fields of the unit or objective DTOs that actions can change, and the ones they can clear
+ * too, without replacing the entity.
+ */
+interface UpdatableFields {
+  updatable: Set<string>;
+  clearable: Set<string>;
+}
+
+/** Unit fields carried by the position, formation and unit state actions. */
+const UPDATABLE_UNIT_FIELDS: UpdatableFields = {
+  updatable: new Set(["pos", "rotation", "f", ...UNIT_STATE_FIELDS]),
+  clearable: new Set(Object.keys(UNIT_STATE_CLEAR_VALUES)),
+};
+
+/**
+ * Objective fields carried by the objective state updates. Neutral objectives and no progress
+ * are left out of the objective DTOs, so their player and progress can be cleared.
+ */
+const UPDATABLE_OBJECTIVE_FIELDS: UpdatableFields = {
+  updatable: new Set(["player", "captureProgress", "m", "g"]),
+  clearable: new Set(["player", "captureProgress"]),
+};
+
+/**
+ * Calculates the actions that turn a game state into another, so that applying them with
+ * {@link applyActions} to the first state gives the second one.
+ *
+ * Units that appear or disappear are added or destroyed. The rest only get the actions of what
+ * changed: their position and rotation, formation and the fields of the unit state updates.
+ * Units with changes that no action carries, like a new type or a cleared formation, are
+ * destroyed and added again. Objectives are added, removed, updated or replaced the same way,
+ * and changed map tiles come as a terrain change.
+ *
+ * The army power of the teams is not compared, since it only comes with the turn actions.
+ *
+ * @param a - The state to start from.
+ * @param b - The state to reach.
+ * @returns The actions that turn the first state into the second one.
+ */
+export function diffGameStates(a: GameState, b: GameState): AnyAction[] {
+  const unitsA = new Map(a.units.map((unit) => [unit.id, unit]));
+  const unitsB = new Map(b.units.map((unit) => [unit.id, unit]));
+  const destroyed: AnyAction[] = [];
+  const added: UnitDto[] = [];
+  const updated: AnyAction[] = [];
+
+  for (const unit of a.units) {
+    const other = unitsB.get(unit.id);
+
+    if (!other || !canUpdate(unit, other, UPDATABLE_UNIT_FIELDS)) {
+      destroyed.push({ type: ActionType.UnitDestroyed, unitId: unit.id });
+    }
+  }
+
+  for (const unit of b.units) {
+    const previous = unitsA.get(unit.id);
+
+    if (!previous || !canUpdate(previous, unit, UPDATABLE_UNIT_FIELDS)) {
+      added.push(unit);
+    } else {
+      updated.push(...diffUnits(previous, unit));
+    }
+  }
+
+  const actions: AnyAction[] = [...destroyed];
+
+  if (added.length > 0) {
+    actions.push({ type: ActionType.AddUnits, units: added });
+  }
+
+  actions.push(...updated, ...diffObjectives(a.objectives, b.objectives));
+
+  const tiles = diffMaps(a.map, b.map);
+
+  if (tiles.length > 0) {
+    actions.push({ type: ActionType.TerrainChange, tiles });
+  }
+
+  return actions;
+}
+
+function diffUnits(a: UnitDto, b: UnitDto): AnyAction[] {
+  const actions: AnyAction[] = [];
+
+  if (!Vector2.equal(a.pos, b.pos) || a.rotation !== b.rotation) {
+    actions.push({
+      type: ActionType.PlaceEntity,
+      id: b.id,
+      pos: [b.pos.x, b.pos.y],
+      rotation: b.rotation,
+    });
+  }
+
+  if (a.f !== b.f && b.f !== undefined) {
+    actions.push({
+      type: ActionType.FormationChange,
+      unitId: b.id,
+      formationId: b.f,
+    });
+  }
+
+  const changes: Record<string, unknown> = {};
+
+  for (const field of UNIT_STATE_FIELDS) {
+    if (!isSameValue(a[field], b[field])) {
+      changes[field] = b[field] ?? UNIT_STATE_CLEAR_VALUES[field];
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    const update: UpdateUnitStateAction = {
+      type: ActionType.UpdateUnitState,
+      unitId: b.id,
+    };
+
+    actions.push(Object.assign(update, changes));
+  }
+
+  return actions;
+}
+
+function diffObjectives(
+  a: ObjectiveDto[] = [],
+  b: ObjectiveDto[] = []
+): AnyAction[] {
+  const objectivesA = new Map(a.map((objective) => [objective.id, objective]));
+  const objectivesB = new Map(b.map((objective) => [objective.id, objective]));
+  const destroyed: AnyAction[] = [];
+  const added: ObjectiveDto[] = [];
+  const actions: AnyAction[] = [];
+
+  for (const objective of a) {
+    const other = objectivesB.get(objective.id);
+
+    if (!other || !canUpdate(objective, other, UPDATABLE_OBJECTIVE_FIELDS)) {
+      destroyed.push({
+        type: ActionType.ObjectiveDestroyed,
+        objectiveId: objective.id,
+      });
+    }
+  }
+
+  for (const objective of b) {
+    const previous = objectivesA.get(objective.id);
+
+    if (
+      !previous ||
+      !canUpdate(previous, objective, UPDATABLE_OBJECTIVE_FIELDS)
+    ) {
+      added.push(objective);
+      continue;
+    }
+
+    const update: UpdateObjectiveStateAction = {
+      type: ActionType.UpdateObjectiveState,
+      objectiveId: objective.id,
+    };
+
+    // Neutral objectives and no progress are left out of the objective DTOs.
+    if (previous.player !== objective.player) {
+      update.player = objective.player ?? 0;
+    }
+    if (previous.captureProgress !== objective.captureProgress) {
+      update.captureProgress = objective.captureProgress ?? 0;
+    }
+    if (previous.m !== objective.m) {
+      update.m = objective.m;
+    }
+    if (previous.g !== objective.g) {
+      update.g = objective.g;
+    }
+
+    if (Object.keys(update).length > 2) {
+      actions.push(update);
+    }
+  }
+
+  if (added.length > 0) {
+    actions.unshift({ type: ActionType.AddObjectives, objectives: added });
+  }
+
+  return [...destroyed, ...actions];
+}
+
+/**
+ * Checks if the changes from an entity to another can be carried by actions: only updatable
+ * fields changed, and the fields left out of the second entity can be cleared.
+ * @param a - The entity to start from.
+ * @param b - The entity to reach.
+ * @param fields - Fields that the actions can change and clear.
+ * @returns Whether the entity can be updated instead of being replaced.
+ */
+function canUpdate(
+  a: object,
+  b: object,
+  { updatable, clearable }: UpdatableFields
+): boolean {
+  const valuesA = new Map<string, unknown>(Object.entries(a));
+  const valuesB = new Map<string, unknown>(Object.entries(b));
+
+  for (const field of new Set([...valuesA.keys(), ...valuesB.keys()])) {
+    const value = valuesB.get(field);
+
+    if (isSameValue(valuesA.get(field), value)) {
+      continue;
+    }
+
+    if (
+      !updatable.has(field) ||
+      (value === undefined && !clearable.has(field))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Gets the tiles of the second map that differ from the first one. Maps of different sizes
+ * are not compared.
+ */
+function diffMaps(a: GameMap, b: GameMap): TerrainChangeTile[] {
+  const tiles: TerrainChangeTile[] = [];
+
+  if (
+    a === b ||
+    a.terrains.length !== b.terrains.length ||
+    a.terrains[0]?.length !== b.terrains[0]?.length
+  ) {
+    return tiles;
+  }
+
+  for (let x = 0; x < b.terrains.length; x++) {
+    if (a.terrains[x] === b.terrains[x] && a.heightMap[x] === b.heightMap[x]) {
+      continue;
+    }
+
+    for (let y = 0; y < b.terrains[x].length; y++) {
+      if (
+        a.terrains[x][y] !== b.terrains[x][y] ||
+        a.heightMap[x][y] !== b.heightMap[x][y]
+      ) {
+        tiles.push([x, y, b.terrains[x][y], b.heightMap[x][y]]);
+      }
+    }
+  }
+
+  return tiles;
+}
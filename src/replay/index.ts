@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./apply-actions";
+export * from "./replay";
+export * from "./diff-game-states";
+export * from "./state-hash";
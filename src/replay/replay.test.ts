@@ -0,0 +1,109 @@
+import {
+  ActionType,
+  GameScenarioType,
+  GameState,
+  OrderType,
+  UnitStatus,
+} from "@lob-sdk/types";
+import { REPLAY_VERSION, ReplayReader, ReplayWriter } from "./replay";
+import { ReplayMetadata } from "./types";
+
+describe("replay", () => {
+  const metadata: ReplayMetadata = {
+    era: "napoleonic",
+    scenarioName: "test",
+    scenarioType: GameScenarioType.Preset,
+    dynamicBattleType: null,
+    randomState: { seed: 1, state: 1 },
+    players: [
+      { playerNumber: 1, team: 1, username: "Player 1" },
+      { playerNumber: 2, team: 2, username: "Player 2" },
+    ],
+  };
+
+  const initialState: GameState = {
+    players: [],
+    teams: [],
+    units: [
+      {
+        id: 1,
+        hp: 100,
+        status: UnitStatus.Standing,
+        pos: { x: 0, y: 0 },
+        player: 1,
+        rotation: 0,
+        type: 1,
+      },
+    ],
+    map: { width: 0, height: 0, terrains: [], heightMap: [] },
+    triggers: [],
+  };
+
+  const write = () => {
+    const writer = new ReplayWriter(metadata, initialState);
+
+    for (let turn = 1; turn <= 3; turn++) {
+      writer.addTurn({
+        turn,
+        submissions: {
+          1: {
+            turn,
+            orders: [{ id: 1, type: OrderType.Walk, path: [[turn * 10, 0]] }],
+          },
+        },
+        actions: [
+          {
+            type: ActionType.TickAction,
+            actions: [{ type: ActionType.Move, unitId: 1, path: [[turn, 0]] }],
+          },
+          {
+            type: ActionType.TickAction,
+            actions: [
+              { type: ActionType.Move, unitId: 1, path: [[turn * 10, 0]] },
+            ],
+          },
+        ],
+      });
+    }
+
+    return writer.write();
+  };
+
+  it("should read back what was written", () => {
+    const reader = new ReplayReader(write());
+
+    expect(reader.header.version).toBe(REPLAY_VERSION);
+    expect(reader.getMetadata()).toEqual(metadata);
+    expect(reader.getTurnNumbers()).toEqual([1, 2, 3]);
+    expect(reader.getInitialState()).toEqual(initialState);
+    expect(reader.getTurn(2).submissions[1].orders[0]).toEqual({
+      id: 1,
+      type: OrderType.Walk,
+      path: [[20, 0]],
+    });
+    expect(() => reader.getTurn(4)).toThrow("Turn 4 not found");
+  });
+
+  it("should reconstruct the state at a tick of a turn", () => {
+    const reader = new ReplayReader(write());
+
+    expect(reader.getState(2).units[0].pos).toEqual({ x: 20, y: 0 });
+    expect(reader.getState(3, { untilTick: 1 }).units[0].pos).toEqual({
+      x: 3,
+      y: 0,
+    });
+  });
+
+  it("should reject turns out of order and unknown formats", () => {
+    const writer = new ReplayWriter(metadata, initialState);
+    writer.addTurn({ turn: 2, submissions: {}, actions: [] });
+
+    expect(() =>
+      writer.addTurn({ turn: 1, submissions: {}, actions: [] })
+    ).toThrow();
+    expect(() => new ReplayReader("{}\n{}")).toThrow("Invalid replay format");
+    expect(
+      () => new ReplayReader(write().replace(`"version":1`, `"version":99`))
+    ).toThrow("Replay version 99");
+  });
+});
@@ -0,0 +1,186 @@
+import { GameState } from "@lob-sdk/types";
+import { ApplyActionsOptions, applyActions } from "./apply-actions";
+import { ReplayHeader, ReplayMetadata, ReplayTurn } from "./types";
+
+/** Format identifier of the replay files. */
+export const REPLAY_FORMAT = "lob-replay";
+
+/** Current version of the replay format. */
+export const REPLAY_VERSION = 1;
+
+/**
+ * Records a match turn by turn and writes it as a replay.
+ *
+ * A replay is a text file of JSON lines: a header with the match information and the position
+ * of every other line, then the initial game state, then one line per turn with the submissions
+ * of the players and the actions of the turn. The header allows {@link ReplayReader} to parse
+ * only the turns it needs.
+ */
+export class ReplayWriter {
+  private turns: ReplayTurn[] = [];
+
+  /**
+   * Creates a new ReplayWriter instance.
+   * @param metadata - Information about the match.
+   * @param initialState - State of the game before the first turn.
+   */
+  constructor(
+    private metadata: ReplayMetadata,
+    private initialState: GameState
+  ) {}
+
+  /**
+   * Records a turn. Turns must be added in order.
+   * @param turn - The turn to record.
+   * @throws Error if the turn isn't after the last recorded turn.
+   */
+  addTurn(turn: ReplayTurn) {
+    const lastTurn = this.turns[this.turns.length - 1];
+
+    if (lastTurn && turn.turn <= lastTurn.turn) {
+      throw new Error(
+        `Turn ${turn.turn} must be after the last recorded turn ${lastTurn.turn}`
+      );
+    }
+
+    this.turns.push(turn);
+  }
+
+  /**
+   * Writes the replay.
+   * @returns The replay file contents.
+   */
+  write(): string {
+    const lines = [
+      JSON.stringify(this.initialState),
+      ...this.turns.map((turn) => JSON.stringify(turn)),
+    ];
+    const offsets: number[] = [];
+    let offset = 0;
+
+    for (const line of lines) {
+      offsets.push(offset);
+      offset += line.length + 1;
+    }
+
+    const header: ReplayHeader = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      ...this.metadata,
+      initialState: [offsets[0], lines[0].length],
+      turns: this.turns.map(({ turn }, i) => [
+        turn,
+        offsets[i + 1],
+        lines[i + 1].length,
+      ]),
+    };
+
+    return [JSON.stringify(header), ...lines].join("\n");
+  }
+}
+
+/**
+ * Reads a replay written by {@link ReplayWriter}. Only the header is parsed upfront,
+ * the game state and the turns are parsed when they are read.
+ */
+export class ReplayReader {
+  /** Header of the replay. */
+  readonly header: ReplayHeader;
+  private body: string;
+
+  /**
+   * Creates a new ReplayReader instance.
+   * @param data - The replay file contents.
+   * @throws Error if the data isn't a replay or its version is newer than this reader.
+   */
+  constructor(data: string) {
+    const headerEnd = data.indexOf("\n");
+
+    if (headerEnd === -1) {
+      throw new Error("Invalid replay: missing header");
+    }
+
+    const header = JSON.parse(data.slice(0, headerEnd)) as ReplayHeader;
+
+    if (header.format !== REPLAY_FORMAT) {
+      throw new Error(`Invalid replay format: ${header.format}`);
+    }
+
+    if (header.version > REPLAY_VERSION) {
+      throw new Error(
+        `Replay version ${header.version} is newer than the supported version ${REPLAY_VERSION}`
+      );
+    }
+
+    this.header = header;
+    this.body = data.slice(headerEnd + 1);
+  }
+
+  /**
+   * Gets the information about the match.
+   * @returns The match information of the header.
+   */
+  getMetadata(): ReplayMetadata {
+    const { format, version, initialState, turns, ...metadata } = this.header;
+    return metadata;
+  }
+
+  /**
+   * Gets the numbers of the recorded turns.
+   * @returns The turn numbers, in order.
+   */
+  getTurnNumbers(): number[] {
+    return this.header.turns.map(([turn]) => turn);
+  }
+
+  /**
+   * Gets the state of the game before the first turn.
+   * @returns The initial game state.
+   */
+  getInitialState(): GameState {
+    return this.readLine(this.header.initialState);
+  }
+
+  /**
+   * Gets a recorded turn.
+   * @param turn - The turn number.
+   * @returns The turn.
+   * @throws Error if the turn wasn't recorded.
+   */
+  getTurn(turn: number): ReplayTurn {
+    const entry = this.header.turns.find(([number]) => number === turn);
+
+    if (!entry) {
+      throw new Error(`Turn ${turn} not found in the replay`);
+    }
+
+    return this.readLine([entry[1], entry[2]]);
+  }
+
+  /**
+   * Reconstructs the board during a turn by applying to the initial state the actions of the
+   * turns before it and of the turn itself, up to its end or to the tick of the options, see
+   * {@link applyActions}.
+   * @param turn - The turn number.
+   * @param options - Options to stop at a tick of the turn. Default: the end of the turn.
+   * @returns The game state.
+   */
+  getState(turn: number, options?: ApplyActionsOptions): GameState {
+    let state = this.getInitialState();
+
+    for (const [number, offset, length] of this.header.turns) {
+      if (number > turn) {
+        break;
+      }
+
+      const { actions } = this.readLine<ReplayTurn>([offset, length]);
+      state = applyActions(state, actions, number === turn ? options : {});
+    }
+
+    return state;
+  }
+
+  private readLine<T>([offset, length]: [number, number]): T {
+    return JSON.parse(this.body.slice(offset, offset + length));
+  }
+}
@@ -0,0 +1,98 @@
+import { GameState, UnitDto, UnitStatus } from "@lob-sdk/types";
+import {
+  findStateDivergence,
+  hashGameState,
+  hashUnit,
+  serializeGameState,
+} from "./state-hash";
+
+describe("state hashing", () => {
+  const unit = (id: number, x: number): UnitDto => ({
+    id,
+    hp: 100,
+    org: 100,
+    status: UnitStatus.Standing,
+    pos: { x, y: 0 },
+    player: 1,
+    rotation: 0,
+    type: 1,
+  });
+
+  const state: GameState = {
+    players: [],
+    teams: [],
+    units: [unit(1, 10), unit(2, 20)],
+    map: { width: 0, height: 0, terrains: [], heightMap: [] },
+    objectives: [{ id: 3, pos: { x: 50, y: 50 }, player: 1 }],
+    triggers: [],
+  };
+
+  it("should hash equal states the same regardless of order and float noise", () => {
+    const reordered: GameState = {
+      ...state,
+      units: [
+        {
+          type: 1,
+          rotation: -0,
+          player: 1,
+          pos: { y: 0, x: 20.0000001 },
+          status: UnitStatus.Standing,
+          org: 100,
+          hp: 100,
+          id: 2,
+        },
+        { ...unit(1, 10), f: undefined },
+      ],
+    };
+
+    expect(serializeGameState(reordered)).toBe(serializeGameState(state));
+    expect(hashGameState(reordered)).toBe(hashGameState(state));
+    expect(hashUnit(reordered.units[1])).toBe(hashUnit(state.units[0]));
+  });
+
+  it("should change the hash when a unit changes beyond the rounding", () => {
+    const moved: GameState = {
+      ...state,
+      units: [unit(1, 10), unit(2, 20.01)],
+    };
+
+    expect(hashGameState(moved)).not.toBe(hashGameState(state));
+    expect(hashGameState(moved, { decimals: 1 })).toBe(
+      hashGameState(state, { decimals: 1 })
+    );
+  });
+
+  it("should ignore the map when asked to", () => {
+    const changedMap: GameState = {
+      ...state,
+      map: { ...state.map, width: 100 },
+    };
+
+    expect(hashGameState(changedMap)).not.toBe(hashGameState(state));
+    expect(hashGameState(changedMap, { includeMap: false })).toBe(
+      hashGameState(state, { includeMap: false })
+    );
+  });
+
+  it("should find the first divergent unit and field", () => {
+    const diverged: GameState = {
+      ...state,
+      units: [{ ...unit(1, 10), hp: 90 }, unit(2, 25)],
+      objectives: [{ id: 3, pos: { x: 50, y: 50 }, player: 2 }],
+    };
+
+    expect(findStateDivergence(state, state)).toBeNull();
+    expect(findStateDivergence(state, diverged)).toEqual({
+      path: "units.1.hp",
+      id: 1,
+      a: 100,
+      b: 90,
+    });
+    expect(
+      findStateDivergence(state, { ...state, units: [unit(1, 10)] })
+    ).toEqual({ path: "units.2", id: 2, a: expect.any(Object), b: undefined });
+    expect(
+      findStateDivergence(state, { ...diverged, units: state.units })
+    ).toEqual({ path: "objectives.3.player", id: 3, a: 1, b: 2 });
+  });
+});
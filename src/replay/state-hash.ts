@@ -0,0 +1,260 @@
+import { EntityId, GameState, ObjectiveDto, UnitDto } from "@lob-sdk/types";
+import { StateDivergence, StateHashOptions } from "./types";
+
+/**
+ * Serializes a game state in a canonical way, so that equal states always give the same string
+ * no matter how they were built:
+ * - Units and objectives are sorted by id, players by player number and teams by team number.
+ * - Object keys are sorted and undefined fields are left out.
+ * - Numbers are rounded to the decimals of the options.
+ *
+ * @param state - The game state.
+ * @param options - Float rounding and whether to include the map.
+ * @returns The canonical serialization of the state.
+ */
+export function serializeGameState(
+  state: GameState,
+  options: StateHashOptions = {}
+): string {
+  return JSON.stringify(canonicalizeGameState(state, options));
+}
+
+/**
+ * Serializes a unit in the canonical way of {@link serializeGameState}.
+ * @param unit - The unit.
+ * @param options - Float rounding options.
+ * @returns The canonical serialization of the unit.
+ */
+export function serializeUnit(
+  unit: UnitDto,
+  options: StateHashOptions = {}
+): string {
+  return JSON.stringify(canonicalize(unit, getFactor(options)));
+}
+
+/**
+ * Serializes an objective in the canonical way of {@link serializeGameState}.
+ * @param objective - The objective.
+ * @param options - Float rounding options.
+ * @returns The canonical serialization of the objective.
+ */
+export function serializeObjective(
+  objective: ObjectiveDto,
+  options: StateHashOptions = {}
+): string {
+  return JSON.stringify(canonicalize(objective, getFactor(options)));
+}
+
+/**
+ * Hashes the canonical serialization of a game state, to compare states between
+ * clients and server.
+ * @param state - The game state.
+ * @param options - Float rounding and whether to include the map.
+ * @returns The hash as a hexadecimal string.
+ */
+export function hashGameState(
+  state: GameState,
+  options: StateHashOptions = {}
+): string {
+  return hashString(serializeGameState(state, options));
+}
+
+/**
+ * Hashes the canonical serialization of a unit.
+ * @param unit - The unit.
+ * @param options - Float rounding options.
+ * @returns The hash as a hexadecimal string.
+ */
+export function hashUnit(
+  unit: UnitDto,
+  options: StateHashOptions = {}
+): string {
+  return hashString(serializeUnit(unit, options));
+}
+
+/**
+ * Hashes the canonical serialization of an objective.
+ * @param objective - The objective.
+ * @param options - Float rounding options.
+ * @returns The hash as a hexadecimal string.
+ */
+export function hashObjective(
+  objective: ObjectiveDto,
+  options: StateHashOptions = {}
+): string {
+  return hashString(serializeObjective(objective, options));
+}
+
+/**
+ * Finds the first difference between the canonical forms of two game states, to tell which unit
+ * and field diverged when their hashes don't match. Units are compared first, then objectives
+ * and then the rest of the state.
+ * @param a - The first state.
+ * @param b - The second state.
+ * @param options - Float rounding and whether to include the map.
+ * @returns The first difference, or null if the states are equal.
+ */
+export function findStateDivergence(
+  a: GameState,
+  b: GameState,
+  options: StateHashOptions = {}
+): StateDivergence | null {
+  const { units: unitsA, objectives: objectivesA, ...restA } =
+    canonicalizeGameState(a, options);
+  const { units: unitsB, objectives: objectivesB, ...restB } =
+    canonicalizeGameState(b, options);
+
+  return (
+    findEntityDivergence("units", unitsA, unitsB) ??
+    findEntityDivergence(
+      "objectives",
+      objectivesA ?? [],
+      objectivesB ?? []
+    ) ??
+    findDivergence(restA, restB, "")
+  );
+}
+
+/**
+ * Canonical form of a game state. Its values are plain JSON values.
+ */
+interface CanonicalGameState {
+  units: CanonicalEntity[];
+  objectives?: CanonicalEntity[];
+  [key: string]: unknown;
+}
+
+interface CanonicalEntity {
+  id: EntityId;
+  [key: string]: unknown;
+}
+
+function canonicalizeGameState(
+  state: GameState,
+  { includeMap = true, ...options }: StateHashOptions
+): CanonicalGameState {
+  const byId = (a: { id: EntityId }, b: { id: EntityId }) => a.id - b.id;
+
+  return canonicalize(
+    {
+      ...state,
+      players: [...state.players].sort((a, b) => a.player - b.player),
+      teams: [...state.teams].sort((a, b) => a.team - b.team),
+      units: [...state.units].sort(byId),
+      objectives: state.objectives && [...state.objectives].sort(byId),
+      map: includeMap ? state.map : undefined,
+    },
+    getFactor(options)
+  ) as CanonicalGameState;
+}
+
+function getFactor({ decimals = 3 }: StateHashOptions): number {
+  return 10 ** decimals;
+}
+
+function canonicalize(value: unknown, factor: number): unknown {
+  if (typeof value === "number") {
+    // `|| 0` turns -0 into 0.
+    return Math.round(value * factor) / factor || 0;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => canonicalize(item, factor));
+  }
+
+  if (value !== null && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(value).sort()) {
+      const field = (value as Record<string, unknown>)[key];
+
+      if (field !== undefined) {
+        result[key] = canonicalize(field, factor);
+      }
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+function findEntityDivergence(
+  key: string,
+  a: CanonicalEntity[],
+  b: CanonicalEntity[]
+): StateDivergence | null {
+  const entitiesA = new Map(a.map((entity) => [entity.id, entity]));
+  const entitiesB = new Map(b.map((entity) => [entity.id, entity]));
+  const ids = new Set([...entitiesA.keys(), ...entitiesB.keys()]);
+
+  for (const id of ids) {
+    const divergence = findDivergence(
+      entitiesA.get(id),
+      entitiesB.get(id),
+      `${key}.${id}`
+    );
+
+    if (divergence) {
+      return { ...divergence, id };
+    }
+  }
+
+  return null;
+}
+
+function findDivergence(
+  a: unknown,
+  b: unknown,
+  path: string
+): StateDivergence | null {
+  if (a === b) {
+    return null;
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === "object";
+
+  if (!isObject(a) || !isObject(b) || Array.isArray(a) !== Array.isArray(b)) {
+    return { path, a, b };
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  for (const key of keys) {
+    const divergence = findDivergence(
+      a[key],
+      b[key],
+      path ? `${path}.${key}` : key
+    );
+
+    if (divergence) {
+      return divergence;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hashes a string into 53 bits with cyrb53, a fast non-cryptographic hash.
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+
+  return hash.toString(16).padStart(14, "0");
+}
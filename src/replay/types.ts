@@ -0,0 +1,90 @@
+import {
+  AnyAction,
+  DynamicBattleType,
+  EntityId,
+  GameScenarioType,
+  TurnSubmission,
+} from "@lob-sdk/types";
+import { GameEra } from "@lob-sdk/game-data-manager";
+import { RandomState } from "@lob-sdk/random";
+
+/**
+ * Player of a replay.
+ */
+export interface ReplayPlayer {
+  /** The player number. */
+  playerNumber: number;
+  /** The team number the player belongs to. */
+  team: number;
+  /** The username of the player. */
+  username: string;
+}
+
+/**
+ * Information about the match of a replay.
+ */
+export interface ReplayMetadata {
+  /** The game era. */
+  era: GameEra;
+  /** Name of the scenario played. */
+  scenarioName: string;
+  /** Type of the scenario played. */
+  scenarioType: GameScenarioType;
+  /** Dynamic battle type, if any. */
+  dynamicBattleType: DynamicBattleType | null;
+  /** State of the random number generator when the match started, to play it again. */
+  randomState: RandomState | null;
+  /** Players of the match. */
+  players: ReplayPlayer[];
+}
+
+/**
+ * Turn of a replay.
+ */
+export interface ReplayTurn {
+  /** The turn number. */
+  turn: number;
+  /** Orders submitted by each player for the turn, by player number. */
+  submissions: Record<number, TurnSubmission>;
+  /** Actions executed in the turn. */
+  actions: AnyAction[];
+}
+
+/**
+ * First line of a replay file. The offsets are the positions in characters of each line of
+ * the replay body, which starts after the header line.
+ */
+export interface ReplayHeader extends ReplayMetadata {
+  /** Format identifier, always "lob-replay". */
+  format: string;
+  /** Version of the replay format. */
+  version: number;
+  /** Offset and length of the initial game state. */
+  initialState: [number, number];
+  /** Turn number, offset and length of each turn, in order. */
+  turns: [number, number, number][];
+}
+
+/**
+ * Options of the canonical serialization of game states.
+ */
+export interface StateHashOptions {
+  /** Decimals numbers are rounded to, so float errors below them don't change the hash. Default: 3. */
+  decimals?: number;
+  /** Whether the map is part of the state. Default: true. */
+  includeMap?: boolean;
+}
+
+/**
+ * First difference between two game states.
+ */
+export interface StateDivergence {
+  /** Path of the different field, e.g. `units.3.pos.x`. Units and objectives are keyed by id. */
+  path: string;
+  /** ID of the unit or objective that differs, if the difference is in one. */
+  id?: EntityId;
+  /** Canonical value in the first state, undefined if it is missing. */
+  a: unknown;
+  /** Canonical value in the second state, undefined if it is missing. */
+  b: unknown;
+}
@@ -0,0 +1,261 @@
+import {
+  ActionType,
+  AnyAction,
+  Direction,
+  IAttackSystem,
+  OrderType,
+  RangeUnitTemplate,
+  UnitEffectId,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { degreesToRadians, getAngleDifference } from "@lob-sdk/utils";
+import { Vector2 } from "@lob-sdk/vector";
+import { ServerGame } from "./server-game";
+import { ServerUnit } from "./server-unit";
+
+/**
+ * Default shooting arc of a formation, in degrees.
+ */
+const DEFAULT_SHOOTING_ANGLE = 90;
+
+/**
+ * Resolves the melee and ranged attacks of the units of a {@link ServerGame}.
+ *
+ * Enemy units whose collision circles overlap fight in melee every `ATTACK_COOLDOWN` ticks
+ * and don't move while they are in contact. Units that can shoot fire once per turn,
+ * either at the target of their Shoot order or at the best target of their autofire.
+ */
+export class AttackSystem implements IAttackSystem {
+  /** Units that have fought in melee during the current turn. */
+  engagedUnits = new Set<ServerUnit>();
+
+  private firedUnits = new Set<ServerUnit>();
+
+  /**
+   * Creates a new AttackSystem instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game whose units attack.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  /**
+   * Resets the units that have fought or fired, at the start of a turn.
+   */
+  startTurn() {
+    this.engagedUnits.clear();
+    this.firedUnits.clear();
+  }
+
+  /**
+   * Finds the enemy units in contact and stores them in the game's
+   * `attackingUnits` and `pendingMeleeAttacks`.
+   */
+  findMeleeContacts() {
+    const { attackingUnits, pendingMeleeAttacks } = this.game;
+
+    attackingUnits.clear();
+    pendingMeleeAttacks.clear();
+
+    for (const collision of this.game.collisionSystem.getCollisions(true)) {
+      const { unitA, unitB } = collision;
+
+      pendingMeleeAttacks.add({ unit1: unitA, unit2: unitB, collision });
+
+      for (const unit of [unitA, unitB]) {
+        attackingUnits.add(unit);
+        this.engagedUnits.add(unit);
+      }
+    }
+  }
+
+  /**
+   * Resolves the melee attacks found by {@link findMeleeContacts}.
+   * @returns The attack actions of the tick.
+   */
+  resolveMeleeAttacks(): AnyAction[] {
+    const { ATTACK_COOLDOWN } = this.gameDataManager.getGameConstants();
+    const actions: AnyAction[] = [];
+
+    for (const attack of this.game.pendingMeleeAttacks) {
+      const { unit1, unit2, collision } = attack;
+
+      if (!this.game.getUnit(unit1.id) || !this.game.getUnit(unit2.id)) {
+        continue;
+      }
+
+      const charge1 = this.attack(unit1, unit2, collision.directionB);
+      const charge2 = this.attack(unit2, unit1, collision.directionA);
+
+      if (charge1 === null && charge2 === null) {
+        continue;
+      }
+
+      attack.charge = !!charge1 || !!charge2;
+
+      for (const unit of [unit1, unit2]) {
+        unit.addEffect(UnitEffectId.BeenInMelee, ATTACK_COOLDOWN + 1);
+      }
+
+      actions.push({
+        type: ActionType.Attack,
+        result: [
+          { unitId: unit1.id, charge: charge1 || undefined },
+          { unitId: unit2.id, charge: charge2 || undefined },
+        ],
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Fires the units that haven't fired yet this turn and have a target.
+   * @returns The ranged attack actions of the tick.
+   */
+  updateRangedAttacks(): AnyAction[] {
+    const actions: AnyAction[] = [];
+
+    for (const unit of this.game.getUnits()) {
+      if (this.firedUnits.has(unit) || !this.game.canUnitShoot(unit)) {
+        continue;
+      }
+
+      if (unit.lastVelocity && !this.canFireWhileMoving(unit)) {
+        continue;
+      }
+
+      const target = this.getShotTarget(unit);
+
+      if (!target) {
+        continue;
+      }
+
+      const result = this.game.shoot(this.gameDataManager, unit, target);
+
+      if (result) {
+        this.firedUnits.add(unit);
+        actions.push(result.action);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Makes a unit attack another in melee.
+   * @returns Whether the attack was a charge, or null if the unit didn't attack.
+   */
+  private attack(
+    attacker: ServerUnit,
+    defender: ServerUnit,
+    side: Direction
+  ): boolean | null {
+    const { ATTACK_COOLDOWN } = this.gameDataManager.getGameConstants();
+
+    if (attacker.attackCooldown > 0 || attacker.isRouting()) {
+      return null;
+    }
+
+    const isCharging =
+      this.game.orderManager.getOrder(attacker.id)?.type === OrderType.Run &&
+      !attacker.hasEffect(UnitEffectId.BeenInMelee);
+
+    const hit = this.game.calculateMeleeDamage(
+      attacker,
+      defender,
+      side,
+      isCharging
+    );
+
+    if (!hit) {
+      return null;
+    }
+
+    this.game.applyDamageHit(defender, hit, true);
+
+    if (hit.backlashHit) {
+      this.game.applyDamageHit(attacker, hit.backlashHit, true);
+    }
+
+    attacker.attackCooldown = ATTACK_COOLDOWN;
+
+    return !!hit.charge;
+  }
+
+  private canFireWhileMoving(unit: ServerUnit): boolean {
+    const order = this.game.orderManager.getOrder(unit.id);
+    const orderTemplate = this.gameDataManager.tryGetOrderTemplate(
+      order?.type ?? null
+    );
+
+    return (
+      !!orderTemplate?.allowFireWhenMoving ||
+      !!(unit.template as RangeUnitTemplate).fireWhileMoving
+    );
+  }
+
+  /**
+   * Gets the position a unit shoots at: the target of its Shoot order,
+   * or the best autofire target.
+   */
+  private getShotTarget(unit: ServerUnit): Vector2 | null {
+    const order = this.game.orderManager.getOrder(unit.id);
+
+    if (order?.type === OrderType.Shoot) {
+      const target =
+        order.targetId !== undefined
+          ? this.game.getUnit(order.targetId)?.position
+          : order.pos && Vector2.fromArray(order.pos);
+
+      if (target && this.game.getShotTrajectory(unit, target)) {
+        return target;
+      }
+    }
+
+    return this.getAutofireTarget(unit);
+  }
+
+  /**
+   * Gets the best target in the shooting arc of a unit.
+   * Targets are sorted by the autofire priority of their category, then by distance.
+   */
+  private getAutofireTarget(unit: ServerUnit): Vector2 | null {
+    const formation = this.game.getUnitFormation(unit);
+    const { autofirePriority } = this.gameDataManager.getUnitCategoryTemplate(
+      unit.category
+    );
+
+    const maxRange = unit.getMaxRange();
+    const halfArc =
+      degreesToRadians(formation.shootingAngle ?? DEFAULT_SHOOTING_ANGLE) / 2;
+
+    const candidates = this.game
+      .getVisibleEnemyUnits(unit.player)
+      .filter((enemy) => {
+        if (unit.position.distanceTo(enemy.position) > maxRange) {
+          return false;
+        }
+
+        const angle = unit.position.getRotationTo(enemy.position);
+        return Math.abs(getAngleDifference(unit.rotation, angle)) <= halfArc;
+      })
+      .sort(
+        (a, b) =>
+          (autofirePriority?.[b.category] ?? 0) -
+            (autofirePriority?.[a.category] ?? 0) ||
+          unit.position.squaredDistanceTo(a.position) -
+            unit.position.squaredDistanceTo(b.position)
+      );
+
+    for (const enemy of candidates) {
+      if (this.game.getShotTrajectory(unit, enemy.position, false, true)) {
+        return enemy.position;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,92 @@
+import { UnitDtoPartialId, UnitStatus } from "@lob-sdk/types";
+import { Vector2 } from "@lob-sdk/vector";
+import { createTestGame, createTestState } from "./test-utils";
+
+describe("CollisionSystem", () => {
+  const createGame = (units: UnitDtoPartialId[]) =>
+    createTestGame({ state: createTestState({ units }) });
+
+  it("should push the weaker enemy by the strength difference", () => {
+    const game = createGame([
+      { id: 1, player: 1, type: 1, pos: { x: 200, y: 200 }, rotation: 0 },
+      { id: 2, player: 2, type: 2, pos: { x: 210, y: 200 }, rotation: 0 },
+    ]);
+    const infantry = game.getUnit(1)!;
+    const cavalry = game.getUnit(2)!;
+
+    expect(game.collisionSystem.getCollisions(true)).toHaveLength(1);
+
+    game.collisionSystem.update();
+
+    const strength = infantry.template.pushStrength!;
+    const enemyStrength = cavalry.template.pushStrength!;
+    const ratio = (strength - enemyStrength) / (strength + enemyStrength);
+
+    expect(infantry.position).toEqual(new Vector2(200, 200));
+    expect(cavalry.position.x).toBeCloseTo(
+      210 + infantry.template.pushDistance! * ratio
+    );
+    expect(cavalry.position.y).toBeCloseTo(200);
+  });
+
+  it("should push the enemy with the lower collision level out of the way", () => {
+    const game = createGame([
+      { id: 1, player: 1, type: 1, pos: { x: 200, y: 200 }, rotation: 0 },
+      { id: 2, player: 2, type: 3, pos: { x: 210, y: 200 }, rotation: 0 },
+    ]);
+    const infantry = game.getUnit(1)!;
+    const artillery = game.getUnit(2)!;
+
+    game.collisionSystem.update();
+
+    expect(infantry.position).toEqual(new Vector2(200, 200));
+    expect(artillery.position.x).toBeCloseTo(
+      210 + infantry.template.pushDistance!
+    );
+  });
+
+  it("should not collide with routing units", () => {
+    const game = createGame([
+      { id: 1, player: 1, type: 1, pos: { x: 200, y: 200 }, rotation: 0 },
+      { id: 2, player: 2, type: 1, pos: { x: 210, y: 200 }, rotation: 0 },
+    ]);
+
+    game.getUnit(2)!.status = UnitStatus.Routing;
+
+    expect(game.collisionSystem.getCollisions(true)).toHaveLength(0);
+  });
+
+  it("should stop a unit that moves through an enemy in one tick where it touches it", () => {
+    const game = createGame([
+      { id: 1, player: 1, type: 2, pos: { x: 300, y: 200 }, rotation: 0 },
+      { id: 2, player: 2, type: 1, pos: { x: 250, y: 200 }, rotation: 0 },
+    ]);
+    const cavalry = game.getUnit(1)!;
+    const { collisionCircleSize } = game.getUnitFormation(cavalry);
+
+    cavalry.lastVelocity = new Vector2(80, 0);
+    expect(game.collisionSystem.getCollisions(true)).toHaveLength(0);
+
+    game.collisionSystem.update();
+
+    expect(cavalry.position.x).toBeLessThan(250);
+    expect(cavalry.position.x).toBeGreaterThan(250 - collisionCircleSize * 2);
+    expect(cavalry.position.y).toBeCloseTo(200);
+  });
+
+  it("should push back a unit that walks head-on into an ally", () => {
+    const game = createGame([
+      { id: 1, player: 1, type: 1, pos: { x: 200, y: 200 }, rotation: 0 },
+      { id: 2, player: 1, type: 1, pos: { x: 210, y: 200 }, rotation: 0 },
+    ]);
+    const unit = game.getUnit(1)!;
+    const ally = game.getUnit(2)!;
+    const { collisionCircleSize } = game.getUnitFormation(unit);
+
+    unit.lastVelocity = new Vector2(1, 0);
+    game.collisionSystem.update();
+
+    expect(unit.position.x).toBeCloseTo(200 - (collisionCircleSize - 10));
+    expect(ally.position).toEqual(new Vector2(210, 200));
+  });
+});
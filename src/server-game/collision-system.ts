@@ -0,0 +1,525 @@
+import {
+  ActionType,
+  AnyAction,
+  CollisionData,
+  ICollisionSystem,
+  IUnit,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { degreesToRadians, getAngleDifference } from "@lob-sdk/utils";
+import { Vector2 } from "@lob-sdk/vector";
+import { ServerGame } from "./server-game";
+import { ServerUnit } from "./server-unit";
+import {
+  getCollisionCircles,
+  getDirectionTo,
+  getFormationExtent,
+} from "./utils";
+
+/**
+ * Push strength of units whose template doesn't define one.
+ */
+const DEFAULT_PUSH_STRENGTH = 40;
+
+/**
+ * Detects the overlapping units of a {@link ServerGame} and pushes them apart.
+ *
+ * The hitbox of a unit is the row of collision circles of its formation. Enemies
+ * with a higher collision level push the lower ones out of their way, and enemies
+ * with the same level push each other according to their push strength. Units that
+ * walk head-on into an ally are pushed back by the overlap.
+ *
+ * Movements are checked in `COLLISION_DETECTION_SUBTICKS` steps, so units that would
+ * pass through another unit in a single tick stop where they first touch it. Only the
+ * units in nearby cells of a grid of `COLLISION_CHECK_RADIUS` are checked against each other.
+ */
+export class CollisionSystem implements ICollisionSystem {
+  /**
+   * Creates a new CollisionSystem instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game whose units collide.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  getCollisionLevel(unit: IUnit, againstEnemy: boolean): number {
+    const { ROUTING_COLLISION_LEVEL } = this.gameDataManager.getGameConstants();
+
+    if (unit.isRouting()) {
+      return ROUTING_COLLISION_LEVEL;
+    }
+
+    const { allyCollisionLevel, enemyCollisionLevel } =
+      this.gameDataManager.getUnitCategoryTemplate(unit.category);
+
+    if (!againstEnemy) {
+      return allyCollisionLevel ?? 1;
+    }
+
+    return (
+      this.gameDataManager.getFixedEnemyCollisionLevel(
+        this.game.getUnitTerrain(unit)
+      ) ??
+      enemyCollisionLevel ??
+      1
+    );
+  }
+
+  getCollisions(enemies: boolean): CollisionData<ServerUnit>[] {
+    const collisions: CollisionData<ServerUnit>[] = [];
+
+    for (const [unitA, unitB] of this.getNearbyPairs(enemies, 0)) {
+      const collision = this.getCollision(unitA, unitB);
+
+      if (collision) {
+        collisions.push(collision);
+      }
+    }
+
+    return collisions;
+  }
+
+  update(): AnyAction[] {
+    const actions = [
+      ...this.stopAtFirstContact(false),
+      ...this.stopAtFirstContact(true),
+    ];
+    const pushes = new Map<ServerUnit, Vector2[]>();
+
+    for (const collision of this.getCollisions(false)) {
+      this.addAllyPushes(collision, pushes);
+    }
+
+    for (const collision of this.getCollisions(true)) {
+      this.addEnemyPush(collision, pushes);
+    }
+
+    actions.push(...this.applyPushes(pushes));
+
+    return actions;
+  }
+
+  /**
+   * Gets the pairs of units that can collide with each other, in the order of the units of the
+   * game. Units are put in a grid of `COLLISION_CHECK_RADIUS` cells and only compared with the
+   * units of the cells within reach of their formations.
+   * @param enemies - Whether to get the pairs of enemies or of allies.
+   * @param margin - Extra distance between the units, like the distance they moved this tick.
+   */
+  private getNearbyPairs(
+    enemies: boolean,
+    margin: number
+  ): [ServerUnit, ServerUnit][] {
+    const { COLLISION_CHECK_RADIUS } = this.gameDataManager.getGameConstants();
+    const units = this.game
+      .getUnits()
+      .filter((unit) => this.getCollisionLevel(unit, enemies) > 0);
+    const extents = units.map((unit) =>
+      getFormationExtent(this.game.getUnitFormation(unit))
+    );
+    const maxExtent = Math.max(0, ...extents);
+    const cells = new Map<string, number[]>();
+    const getCell = (unit: ServerUnit) => ({
+      x: Math.floor(unit.position.x / COLLISION_CHECK_RADIUS),
+      y: Math.floor(unit.position.y / COLLISION_CHECK_RADIUS),
+    });
+
+    units.forEach((unit, i) => {
+      const { x, y } = getCell(unit);
+      const key = `${x},${y}`;
+      const cell = cells.get(key);
+
+      if (cell) {
+        cell.push(i);
+      } else {
+        cells.set(key, [i]);
+      }
+    });
+
+    const pairs: [ServerUnit, ServerUnit][] = [];
+
+    units.forEach((unitA, i) => {
+      const { x, y } = getCell(unitA);
+      const reach = Math.ceil(
+        (extents[i] + maxExtent + margin) / COLLISION_CHECK_RADIUS
+      );
+      const nearby: number[] = [];
+
+      for (let cellX = x - reach; cellX <= x + reach; cellX++) {
+        for (let cellY = y - reach; cellY <= y + reach; cellY++) {
+          for (const j of cells.get(`${cellX},${cellY}`) ?? []) {
+            if (j > i && (unitA.team !== units[j].team) === enemies) {
+              nearby.push(j);
+            }
+          }
+        }
+      }
+
+      nearby
+        .sort((a, b) => a - b)
+        .forEach((j) => pairs.push([unitA, units[j]]));
+    });
+
+    return pairs;
+  }
+
+  /**
+   * Checks the movements of this tick in `COLLISION_DETECTION_SUBTICKS` steps, and moves back
+   * the units that passed through another unit to the step where they first touched it.
+   * Units that touch at the start or at the end of the tick are left to the pushes.
+   * @param enemies - Whether to check the movements through enemies or through allies.
+   * @returns The move actions of the units moved back.
+   */
+  private stopAtFirstContact(enemies: boolean): AnyAction[] {
+    const { COLLISION_DETECTION_SUBTICKS } =
+      this.gameDataManager.getGameConstants();
+    const getPositionAt = (unit: ServerUnit, progress: number) =>
+      unit.lastVelocity
+        ? unit.position.subtract(unit.lastVelocity.scale(1 - progress))
+        : unit.position;
+    const maxStep = Math.max(
+      0,
+      ...this.game.getUnits().map((unit) => unit.lastVelocity?.length() ?? 0)
+    );
+
+    if (maxStep === 0) {
+      return [];
+    }
+
+    const contacts = new Map<ServerUnit, number>();
+
+    for (const [unitA, unitB] of this.getNearbyPairs(enemies, maxStep * 2)) {
+      if (
+        (!unitA.lastVelocity && !unitB.lastVelocity) ||
+        this.getCollision(unitA, unitB) ||
+        this.getCollision(
+          unitA,
+          unitB,
+          getPositionAt(unitA, 0),
+          getPositionAt(unitB, 0)
+        )
+      ) {
+        continue;
+      }
+
+      for (let step = 1; step < COLLISION_DETECTION_SUBTICKS; step++) {
+        const progress = step / COLLISION_DETECTION_SUBTICKS;
+        const positionA = getPositionAt(unitA, progress);
+        const positionB = getPositionAt(unitB, progress);
+
+        if (this.getCollision(unitA, unitB, positionA, positionB)) {
+          for (const unit of [unitA, unitB]) {
+            if (unit.lastVelocity) {
+              contacts.set(
+                unit,
+                Math.min(contacts.get(unit) ?? Infinity, progress)
+              );
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    const actions: AnyAction[] = [];
+
+    for (const [unit, progress] of contacts) {
+      const start = getPositionAt(unit, 0);
+
+      unit.position = getPositionAt(unit, progress);
+      unit.lastVelocity = unit.position.subtract(start);
+      actions.push({
+        type: ActionType.Move,
+        unitId: unit.id,
+        path: [unit.position.toArray()],
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Gets the collision between two units, using the closest pair of their collision circles.
+   * @param positionA - Position to check the first unit at, its current position by default.
+   * @param positionB - Position to check the second unit at, its current position by default.
+   * @returns The collision data, or null if the units don't touch.
+   */
+  private getCollision(
+    unitA: ServerUnit,
+    unitB: ServerUnit,
+    positionA = unitA.position,
+    positionB = unitB.position
+  ): CollisionData<ServerUnit> | null {
+    const formationA = this.game.getUnitFormation(unitA);
+    const formationB = this.game.getUnitFormation(unitB);
+
+    const maxDistance =
+      getFormationExtent(formationA) + getFormationExtent(formationB);
+
+    if (positionA.squaredDistanceTo(positionB) > maxDistance * maxDistance) {
+      return null;
+    }
+
+    const circlesA = getCollisionCircles(positionA, unitA.rotation, formationA);
+    const circlesB = getCollisionCircles(positionB, unitB.rotation, formationB);
+
+    let closest: CollisionData<ServerUnit> | null = null;
+
+    for (const circleA of circlesA) {
+      for (const circleB of circlesB) {
+        const radius = circleA.radius + circleB.radius;
+        const squaredDistance = circleA.center.squaredDistanceTo(
+          circleB.center
+        );
+
+        if (
+          squaredDistance >= radius * radius ||
+          (closest && squaredDistance >= closest.squaredDistance)
+        ) {
+          continue;
+        }
+
+        closest = {
+          unitA,
+          unitB,
+          pointA: circleA.center,
+          pointB: circleB.center,
+          directionA: getDirectionTo(
+            positionA,
+            unitA.rotation,
+            formationA,
+            circleB.center
+          ),
+          directionB: getDirectionTo(
+            positionB,
+            unitB.rotation,
+            formationB,
+            circleA.center
+          ),
+          squaredDistance,
+          totalOverlap: (radius - Math.sqrt(squaredDistance)) / radius,
+        };
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Pushes back the units of an ally collision that moved head-on into the other unit.
+   * If both did, each one is pushed back by half of the overlap.
+   */
+  private addAllyPushes(
+    collision: CollisionData<ServerUnit>,
+    pushes: Map<ServerUnit, Vector2[]>
+  ) {
+    const { unitA, unitB, pointA, pointB, squaredDistance } = collision;
+    const radius =
+      (this.game.getUnitFormation(unitA).collisionCircleSize +
+        this.game.getUnitFormation(unitB).collisionCircleSize) /
+      2;
+    const overlap = radius - Math.sqrt(squaredDistance);
+
+    const movers = [
+      { unit: unitA, from: pointB, to: pointA },
+      { unit: unitB, from: pointA, to: pointB },
+    ].filter(({ unit, from, to }) => this.isMovingHeadOn(unit, to, from));
+
+    for (const { unit, from, to } of movers) {
+      const direction = Vector2.equal(from, to)
+        ? unit.lastVelocity?.normalize().scale(-1)
+        : to.subtract(from).normalize();
+
+      if (direction) {
+        this.addPush(pushes, unit, direction.scale(overlap / movers.length));
+      }
+    }
+  }
+
+  /**
+   * Makes the unit of an enemy collision with the higher collision level push the other one.
+   * When both have the same level, the stronger one pushes the weaker one
+   * in proportion to the difference between their push strengths.
+   */
+  private addEnemyPush(
+    collision: CollisionData<ServerUnit>,
+    pushes: Map<ServerUnit, Vector2[]>
+  ) {
+    const { unitA, unitB, pointA, pointB } = collision;
+    const levelA = this.getCollisionLevel(unitA, true);
+    const levelB = this.getCollisionLevel(unitB, true);
+
+    let ratio = 1;
+    let pusherIsA = levelA > levelB;
+
+    if (levelA === levelB) {
+      const strengthA = this.getPushStrength(unitA);
+      const strengthB = this.getPushStrength(unitB);
+
+      if (strengthA === strengthB) {
+        return;
+      }
+
+      pusherIsA = strengthA > strengthB;
+      ratio = Math.abs(strengthA - strengthB) / (strengthA + strengthB);
+    }
+
+    const [pusher, pushed] = pusherIsA ? [unitA, unitB] : [unitB, unitA];
+    const [from, to] = pusherIsA ? [pointA, pointB] : [pointB, pointA];
+
+    if (Vector2.equal(from, to)) {
+      return;
+    }
+
+    const distance =
+      (pusher.template.pushDistance ?? 0) *
+      Math.max(
+        0,
+        1 +
+          this.gameDataManager.getPushDistanceModifier(
+            this.game.getUnitTerrain(pushed)
+          )
+      ) *
+      ratio;
+
+    if (distance > 0) {
+      this.addPush(
+        pushes,
+        pushed,
+        to.subtract(from).normalize().scale(distance)
+      );
+    }
+  }
+
+  /**
+   * Moves the pushed units by the sum of their pushes. Units pushed from
+   * opposite sides are squeezed and stay where they are.
+   * @returns The move actions of the pushed units.
+   */
+  private applyPushes(pushes: Map<ServerUnit, Vector2[]>): AnyAction[] {
+    const { COLLISION_PUSH_MAX_ANGLE_RANGE_DEGREES } =
+      this.gameDataManager.getGameConstants();
+    const maxAngleRange = degreesToRadians(
+      COLLISION_PUSH_MAX_ANGLE_RANGE_DEGREES
+    );
+    const actions: AnyAction[] = [];
+
+    for (const [unit, vectors] of pushes) {
+      if (getAngleRange(vectors) > maxAngleRange) {
+        continue;
+      }
+
+      const offset = vectors.reduce((sum, vector) => sum.add(vector));
+      const position = this.game.clampToMap(unit.position.add(offset));
+
+      if (
+        Vector2.equal(position, unit.position) ||
+        !this.game.isPositionPassable(position)
+      ) {
+        continue;
+      }
+
+      unit.position = position;
+      actions.push({
+        type: ActionType.Move,
+        unitId: unit.id,
+        path: [position.toArray()],
+      });
+    }
+
+    return actions;
+  }
+
+  private addPush(
+    pushes: Map<ServerUnit, Vector2[]>,
+    unit: ServerUnit,
+    vector: Vector2
+  ) {
+    const vectors = pushes.get(unit);
+
+    if (vectors) {
+      vectors.push(vector);
+    } else {
+      pushes.set(unit, [vector]);
+    }
+  }
+
+  /**
+   * Gets the strength a unit pushes enemies with the same collision level,
+   * including the modifiers of its formation, terrain and entrenchment.
+   */
+  private getPushStrength(unit: ServerUnit): number {
+    const formation = this.game.getUnitFormation(unit);
+    const { entrenchment } = this.gameDataManager.getGameRules();
+
+    const modifier =
+      1 +
+      (formation.pushStrengthModifier ?? 0) +
+      this.gameDataManager.getPushStrengthModifier(
+        this.game.getUnitTerrain(unit)
+      );
+    const entrenchmentModifier =
+      1 + unit.entrenchment * (entrenchment?.pushStrengthModifierPerLevel ?? 0);
+
+    return (
+      (unit.template.pushStrength ?? DEFAULT_PUSH_STRENGTH) *
+      Math.max(0, modifier) *
+      entrenchmentModifier
+    );
+  }
+
+  /**
+   * Checks whether a unit moved this tick towards a point, within the head-on collision angle.
+   * @param point - Collision point of the unit.
+   * @param target - Collision point of the other unit.
+   */
+  private isMovingHeadOn(
+    unit: ServerUnit,
+    point: Vector2,
+    target: Vector2
+  ): boolean {
+    const velocity = unit.lastVelocity;
+
+    if (!velocity) {
+      return false;
+    }
+
+    const offset = target.subtract(point);
+    const squaredLength = offset.x * offset.x + offset.y * offset.y;
+
+    if (squaredLength === 0) {
+      return true;
+    }
+
+    const dot = velocity.x * offset.x + velocity.y * offset.y;
+
+    return (
+      dot > 0 &&
+      dot * dot >=
+        this.gameDataManager.getHeadOnCollisionCosineThresholdSquared() *
+          (velocity.x * velocity.x + velocity.y * velocity.y) *
+          squaredLength
+    );
+  }
+}
+
+/**
+ * Gets the biggest angle between any two of a list of vectors.
+ */
+function getAngleRange(vectors: Vector2[]): number {
+  const angles = vectors.map((vector) => vector.angle());
+  let range = 0;
+
+  for (let i = 0; i < angles.length; i++) {
+    for (let j = i + 1; j < angles.length; j++) {
+      range = Math.max(
+        range,
+        Math.abs(getAngleDifference(angles[i], angles[j]))
+      );
+    }
+  }
+
+  return range;
+}
@@ -0,0 +1,36 @@
+import { FogOfWarResult, IServerFogOfWarService } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { calculateFogOfWar } from "@lob-sdk/fog-of-war";
+import { ServerGame } from "./server-game";
+
+/**
+ * Calculates what the units of a team can see in a {@link ServerGame}.
+ *
+ * Vision levels follow the line of sight between units over the height map of the game.
+ * See {@link calculateFogOfWar}.
+ */
+export class FogOfWarService implements IServerFogOfWarService {
+  /**
+   * Creates a new FogOfWarService instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game to calculate the fog of war for.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  /**
+   * Calculates the vision level of every unit for a team.
+   * @param team - The team looking at the units.
+   * @returns The vision levels by unit id.
+   */
+  calculate(team: number): FogOfWarResult {
+    return calculateFogOfWar(
+      this.gameDataManager,
+      this.game.map,
+      this.game.getUnits(),
+      team
+    );
+  }
+}
@@ -0,0 +1,11 @@
+export * from "./server-game";
+export * from "./server-unit";
+export * from "./server-objective";
+export * from "./order-manager";
+export * from "./vp-service";
+export * from "./organization-system";
+export * from "./movement-system";
+export * from "./attack-system";
+export * from "./collision-system";
+export * from "./fog-of-war-service";
+export * from "./trigger-system";
@@ -0,0 +1,75 @@
+import { AnyOrder, OrderType } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { ServerGame } from "./server-game";
+import { createTestGame, createTestState } from "./test-utils";
+
+describe("MovementSystem", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+
+  const createGame = (rotation: number) =>
+    createTestGame({
+      state: createTestState({
+        units: [
+          { id: 1, player: 1, type: 1, pos: { x: 200, y: 200 }, rotation },
+          { id: 2, player: 2, type: 1, pos: { x: 900, y: 900 }, rotation: 0 },
+        ],
+      }),
+    });
+
+  const executeOrder = (game: ServerGame, order: AnyOrder) => {
+    game.submitOrders(1, { turn: game.turnNumber, orders: [order] });
+    game.executeTurn();
+  };
+
+  it("should walk the walk movement of the unit in one turn", () => {
+    const game = createGame(0);
+    const unit = game.getUnit(1)!;
+
+    executeOrder(game, { id: 1, type: OrderType.Walk, path: [[400, 200]] });
+
+    expect(unit.position.x).toBeCloseTo(200 + unit.template.walkMovement);
+    expect(unit.position.y).toBeCloseTo(200);
+  });
+
+  it("should turn towards the path before moving at full speed", () => {
+    const game = createGame(Math.PI);
+    const unit = game.getUnit(1)!;
+
+    executeOrder(game, { id: 1, type: OrderType.Walk, path: [[400, 200]] });
+
+    expect(unit.rotation).toBeCloseTo(0);
+    expect(unit.position.x).toBeGreaterThan(200);
+    expect(unit.position.x).toBeLessThan(200 + unit.template.walkMovement);
+  });
+
+  it("should turn to the rotation of the order at the end of the path", () => {
+    const game = createGame(0);
+    const unit = game.getUnit(1)!;
+
+    executeOrder(game, {
+      id: 1,
+      type: OrderType.Walk,
+      path: [[220, 200]],
+      rotation: Math.PI / 2,
+    });
+
+    expect(unit.position.x).toBeCloseTo(220, 0);
+    expect(unit.rotation).toBeCloseTo(Math.PI / 2);
+    expect(game.orderManager.getOrder(1)).toBeNull();
+  });
+
+  it("should keep facing away from the movement when falling back", () => {
+    const game = createGame(Math.PI);
+    const unit = game.getUnit(1)!;
+    const { speedModifier = 0 } = gameDataManager.getOrderTemplate(
+      OrderType.Fallback
+    );
+
+    executeOrder(game, { id: 1, type: OrderType.Fallback, path: [[400, 200]] });
+
+    expect(unit.rotation).toBeCloseTo(Math.PI);
+    expect(unit.position.x).toBeCloseTo(
+      200 + unit.template.walkMovement * (1 + speedModifier)
+    );
+  });
+});
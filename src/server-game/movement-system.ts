@@ -0,0 +1,371 @@
+import {
+  ActionType,
+  AnyAction,
+  AnyOrder,
+  IMovementSystem,
+  IUnit,
+  OrderType,
+  UnitEffectId,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { getAngleDifference, normalizeAngle } from "@lob-sdk/utils";
+import { Vector2 } from "@lob-sdk/vector";
+import { ServerGame } from "./server-game";
+import { ServerUnit } from "./server-unit";
+
+/**
+ * Moves and rotates the units of a {@link ServerGame} each tick according to their orders.
+ *
+ * Units follow the points of their paths in straight lines, turning towards their
+ * movement direction at their rotation speed. While the turn left is bigger than the
+ * `rotationMaxThreshold` of the unit, it slows down proportionally. Falling back units
+ * keep facing away from their movement direction, and routing units flee from the closest enemy.
+ */
+export class MovementSystem implements IMovementSystem {
+  /**
+   * Creates a new MovementSystem instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game whose units are moved.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  update(engagedUnits: Set<IUnit>): AnyAction[] {
+    const actions: AnyAction[] = [];
+
+    for (const unit of this.game.getUnits()) {
+      const previousPosition = unit.position;
+      const previousRotation = unit.rotation;
+
+      if (engagedUnits.has(unit)) {
+        unit.accumulatedTicks = 0;
+      } else if (unit.isRouting()) {
+        this.flee(unit);
+      } else if (!unit.isRoutingOrRecovering()) {
+        this.executeOrder(unit);
+      }
+
+      if (!Vector2.equal(previousPosition, unit.position)) {
+        unit.lastVelocity = unit.position.subtract(previousPosition);
+        unit.stoppedTicks = 0;
+        actions.push({
+          type: ActionType.Move,
+          unitId: unit.id,
+          path: [unit.position.toArray()],
+        });
+      } else {
+        unit.lastVelocity = null;
+        unit.stoppedTicks++;
+      }
+
+      if (unit.rotation !== previousRotation) {
+        actions.push({
+          type: ActionType.Rotate,
+          unitId: unit.id,
+          rotation: unit.rotation,
+        });
+      }
+    }
+
+    return actions;
+  }
+
+  private executeOrder(unit: ServerUnit) {
+    const { MOVEMENT_PATH_ROTATION_SIMILARITY_THRESHOLD } =
+      this.gameDataManager.getGameConstants();
+    const order = this.game.orderManager.getOrder(unit.id);
+
+    if (order?.type !== OrderType.Run) {
+      unit.accumulatedTicks = 0;
+    }
+
+    if (!order) {
+      return;
+    }
+
+    switch (order.type) {
+      case OrderType.Walk:
+      case OrderType.Run:
+      case OrderType.FireAndAdvance:
+      case OrderType.Fallback:
+        this.executeMovementOrder(unit, order);
+        break;
+      case OrderType.Shoot:
+      case OrderType.Rotate: {
+        const target =
+          order.targetId !== undefined
+            ? this.game.getUnit(order.targetId)?.position
+            : order.pos && Vector2.fromArray(order.pos);
+
+        if (target && !Vector2.equal(target, unit.position)) {
+          this.rotateTowards(
+            unit,
+            unit.position.getRotationTo(target),
+            order.type,
+            MOVEMENT_PATH_ROTATION_SIMILARITY_THRESHOLD
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  private executeMovementOrder(unit: ServerUnit, order: AnyOrder) {
+    const { MOVEMENT_PATH_FINAL_POINT_ROTATION_SIMILARITY_THRESHOLD } =
+      this.gameDataManager.getGameConstants();
+
+    if (order.targetId !== undefined) {
+      const target = this.game.getUnit(order.targetId);
+
+      if (!target) {
+        this.game.orderManager.removeOrder(unit.id);
+        return;
+      }
+
+      this.moveTowards(unit, target.position, order.type, false);
+      return;
+    }
+
+    if (!order.path) {
+      return;
+    }
+
+    const pathIndex = this.game.orderManager.getPathIndex(unit.id);
+    const point = order.path[pathIndex];
+
+    if (!point) {
+      this.game.orderManager.removeOrder(unit.id);
+      return;
+    }
+
+    const isFinalPoint = pathIndex === order.path.length - 1;
+    const reached = this.moveTowards(
+      unit,
+      Vector2.fromArray(point),
+      order.type,
+      isFinalPoint
+    );
+
+    if (!reached) {
+      return;
+    }
+
+    if (!isFinalPoint) {
+      this.game.orderManager.setPathIndex(unit.id, pathIndex + 1);
+      return;
+    }
+
+    if (
+      "rotation" in order &&
+      order.rotation !== undefined &&
+      this.rotateTowards(
+        unit,
+        order.rotation,
+        order.type,
+        MOVEMENT_PATH_FINAL_POINT_ROTATION_SIMILARITY_THRESHOLD
+      ) > 0
+    ) {
+      return;
+    }
+
+    this.game.orderManager.removeOrder(unit.id);
+  }
+
+  private flee(unit: ServerUnit) {
+    const { routingBehavior } = this.gameDataManager.getUnitCategoryTemplate(
+      unit.category
+    );
+
+    if (routingBehavior?.fleeWhenRouted === false) {
+      return;
+    }
+
+    const enemies = this.game
+      .getUnits()
+      .filter((other) => other.team !== unit.team);
+    const closestEnemy = this.game.getClosestUnitOf(unit.position, enemies);
+
+    if (!closestEnemy || Vector2.equal(closestEnemy.position, unit.position)) {
+      return;
+    }
+
+    const direction = unit.position.subtract(closestEnemy.position).normalize();
+    const orderType =
+      routingBehavior?.baseSpeed === "walk" ? OrderType.Walk : OrderType.Run;
+    const distance = this.getTickDistance(unit, orderType);
+
+    this.moveTowards(
+      unit,
+      unit.position.add(direction.scale(distance)),
+      orderType,
+      false
+    );
+  }
+
+  /**
+   * Moves a unit towards a point, turning it towards its movement direction.
+   * @param isFinalPoint - Whether the point is the end of the path, which must be reached more precisely.
+   * @returns True if the unit has reached the point.
+   */
+  private moveTowards(
+    unit: ServerUnit,
+    point: Vector2,
+    orderType: OrderType,
+    isFinalPoint: boolean
+  ): boolean {
+    const {
+      MOVEMENT_PATH_POINT_PROXIMITY_THRESHOLD_SQUARED,
+      MOVEMENT_PATH_FINAL_POINT_PROXIMITY_THRESHOLD_SQUARED,
+      MOVEMENT_PATH_ROTATION_SIMILARITY_THRESHOLD,
+      EFFECT_HAS_RAN_TICKS,
+    } = this.gameDataManager.getGameConstants();
+
+    const offset = point.subtract(unit.position);
+    const squaredDistance = offset.x * offset.x + offset.y * offset.y;
+    const proximityThreshold = isFinalPoint
+      ? MOVEMENT_PATH_FINAL_POINT_PROXIMITY_THRESHOLD_SQUARED
+      : MOVEMENT_PATH_POINT_PROXIMITY_THRESHOLD_SQUARED;
+
+    if (squaredDistance <= proximityThreshold) {
+      return true;
+    }
+
+    const facing =
+      orderType === OrderType.Fallback
+        ? offset.angle() + Math.PI
+        : offset.angle();
+    const remainingRotation = this.rotateTowards(
+      unit,
+      facing,
+      orderType,
+      MOVEMENT_PATH_ROTATION_SIMILARITY_THRESHOLD
+    );
+
+    if (orderType === OrderType.Run) {
+      unit.accumulatedTicks++;
+      unit.addEffect(UnitEffectId.HasRan, EFFECT_HAS_RAN_TICKS);
+    }
+
+    const { rotationMaxThreshold } = unit.template;
+    const turningModifier =
+      remainingRotation > rotationMaxThreshold
+        ? rotationMaxThreshold / remainingRotation
+        : 1;
+
+    const distance = Math.sqrt(squaredDistance);
+    const step = Math.min(
+      distance,
+      this.getTickDistance(unit, orderType) * turningModifier
+    );
+
+    if (step <= 0) {
+      return false;
+    }
+
+    const nextPosition = this.game.clampToMap(
+      unit.position.add(offset.scale(step / distance))
+    );
+
+    if (!this.game.isPositionPassable(nextPosition)) {
+      this.game.orderManager.removeOrder(unit.id);
+      return false;
+    }
+
+    unit.position = nextPosition;
+
+    return step >= distance;
+  }
+
+  /**
+   * Turns a unit towards a rotation at its rotation speed.
+   * @param similarityThreshold - Differences up to this angle are completed at once.
+   * @returns The angle left to turn, in radians. 0 if the unit faces the rotation.
+   */
+  private rotateTowards(
+    unit: ServerUnit,
+    rotation: number,
+    orderType: OrderType,
+    similarityThreshold: number
+  ): number {
+    const difference = getAngleDifference(unit.rotation, rotation);
+    const absDifference = Math.abs(difference);
+
+    if (absDifference === 0) {
+      return 0;
+    }
+
+    const speed = this.getRotationSpeed(unit, orderType);
+
+    if (absDifference <= Math.max(similarityThreshold, speed)) {
+      unit.rotation = normalizeAngle(rotation);
+      return 0;
+    }
+
+    unit.rotation = normalizeAngle(
+      unit.rotation + Math.sign(difference) * speed
+    );
+
+    return absDifference - speed;
+  }
+
+  /**
+   * Gets the angle a unit can turn in one tick.
+   */
+  private getRotationSpeed(unit: ServerUnit, orderType: OrderType): number {
+    const { rotationSpeed, runRotationSpeed } = unit.template;
+    const formation = this.game.getUnitFormation(unit);
+    const speed =
+      orderType === OrderType.Run ? runRotationSpeed : rotationSpeed;
+
+    return speed * Math.max(0, 1 + (formation.rotationSpeedModifier ?? 0));
+  }
+
+  /**
+   * Gets the distance a unit moves in one tick.
+   */
+  private getTickDistance(unit: ServerUnit, orderType: OrderType): number {
+    const { TICKS_PER_TURN, HAS_TAKEN_FIRE_SPEED_MODIFIER } =
+      this.gameDataManager.getGameConstants();
+    const { template } = unit;
+    const formation = this.game.getUnitFormation(unit);
+
+    let movement = template.walkMovement;
+
+    if (orderType === OrderType.Run) {
+      movement =
+        unit.accumulatedTicks > template.timeToRun
+          ? template.runMovement
+          : template.runStartUpMovement ?? template.walkMovement;
+    }
+
+    let modifier =
+      (formation.movementModifier ?? 0) +
+      this.gameDataManager.getMovementModifier(
+        this.game.getUnitTerrain(unit),
+        unit.category
+      ) +
+      (this.gameDataManager.tryGetOrderTemplate(orderType)?.speedModifier ??
+        0);
+
+    if (unit.hasEffect(UnitEffectId.TakenFire)) {
+      modifier += HAS_TAKEN_FIRE_SPEED_MODIFIER;
+    }
+
+    if (formation.minMovementModifier !== undefined) {
+      modifier = Math.max(modifier, formation.minMovementModifier);
+    }
+
+    const formingModifier =
+      this.gameDataManager
+        .getFormationManager()
+        .getTemplate(unit.pendingFormationId)?.formingSpeedModifier ?? 0;
+
+    return (
+      (movement / TICKS_PER_TURN) *
+      Math.max(0, 1 + modifier) *
+      Math.max(0, 1 + formingModifier)
+    );
+  }
+}
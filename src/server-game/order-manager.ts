@@ -0,0 +1,72 @@
+import { AnyOrder, EntityId, IOrderManager } from "@lob-sdk/types";
+
+/**
+ * Keeps the order each unit is executing during the current turn.
+ * Orders only last one turn, so the manager is cleared when the turn ends. Only the orders
+ * given by the turn end triggers are kept, to be carried out in the next turn.
+ */
+export class OrderManager implements IOrderManager {
+  private orders = new Map<EntityId, AnyOrder>();
+  private pathIndexes = new Map<EntityId, number>();
+
+  /**
+   * Sets the order of a unit, replacing its previous order.
+   * @param order - The order. Its `id` is the id of the unit.
+   */
+  setOrder(order: AnyOrder) {
+    this.orders.set(order.id, order);
+    this.pathIndexes.set(order.id, 0);
+  }
+
+  /**
+   * Gets the order of a unit.
+   * @param unitId - The unit id.
+   * @returns The order, or null if the unit has no order.
+   */
+  getOrder(unitId: EntityId): AnyOrder | null {
+    return this.orders.get(unitId) ?? null;
+  }
+
+  /**
+   * Gets the orders of all the units.
+   * @returns The orders.
+   */
+  getOrders(): AnyOrder[] {
+    return [...this.orders.values()];
+  }
+
+  /**
+   * Removes the order of a unit.
+   * @param unitId - The unit id.
+   */
+  removeOrder(unitId: EntityId) {
+    this.orders.delete(unitId);
+    this.pathIndexes.delete(unitId);
+  }
+
+  /**
+   * Gets the index of the next path point a unit is moving to.
+   * @param unitId - The unit id.
+   * @returns The index in the path of the order.
+   */
+  getPathIndex(unitId: EntityId): number {
+    return this.pathIndexes.get(unitId) ?? 0;
+  }
+
+  /**
+   * Sets the index of the next path point a unit is moving to.
+   * @param unitId - The unit id.
+   * @param index - The index in the path of the order.
+   */
+  setPathIndex(unitId: EntityId, index: number) {
+    this.pathIndexes.set(unitId, index);
+  }
+
+  /**
+   * Removes all the orders.
+   */
+  clear() {
+    this.orders.clear();
+    this.pathIndexes.clear();
+  }
+}
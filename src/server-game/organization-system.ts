@@ -0,0 +1,103 @@
+import { IOrganizationSystem, UnitEffectId, UnitStatus } from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { ServerGame } from "./server-game";
+import { ServerUnit } from "./server-unit";
+
+/**
+ * Updates the organization of units and the status changes it causes:
+ * routing, recovering, rallying and shattering.
+ */
+export class OrganizationSystem implements IOrganizationSystem {
+  /**
+   * Creates a new OrganizationSystem instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game whose units are updated.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  /**
+   * Updates the status of a unit according to its organization.
+   * @param unit - The unit to update.
+   * @returns True if the unit has shattered and must be destroyed.
+   */
+  updateUnitStatus(unit: ServerUnit): boolean {
+    const {
+      routedOrgThreshold,
+      recoverOrgThreshold,
+      rallyOrgThreshold,
+      shatterOrgThreshold,
+    } = this.gameDataManager.getGameRules().organization;
+    const { ROUTING_FORMATION, EFFECT_STARTED_ROUTING_TICKS } =
+      this.gameDataManager.getGameConstants();
+
+    const orgProportion = unit.getOrgProportion();
+
+    if (orgProportion <= shatterOrgThreshold) {
+      return true;
+    }
+
+    switch (unit.status) {
+      case UnitStatus.Standing:
+        if (orgProportion <= routedOrgThreshold) {
+          unit.status = UnitStatus.Routing;
+          unit.currentFormation = ROUTING_FORMATION;
+          unit.pendingFormationId = null;
+          unit.formationChangeTicksRemaining = 0;
+          unit.addEffect(
+            UnitEffectId.StartedRouting,
+            EFFECT_STARTED_ROUTING_TICKS
+          );
+          this.game.orderManager.removeOrder(unit.id);
+        }
+        break;
+      case UnitStatus.Routing:
+        if (orgProportion >= recoverOrgThreshold) {
+          unit.status = UnitStatus.Recovering;
+        }
+        break;
+      case UnitStatus.Recovering:
+        if (orgProportion <= routedOrgThreshold) {
+          unit.status = UnitStatus.Routing;
+        } else if (orgProportion >= rallyOrgThreshold) {
+          unit.status = UnitStatus.Standing;
+          unit.currentFormation = unit.template.defaultFormation;
+        }
+        break;
+    }
+
+    return false;
+  }
+
+  /**
+   * Regains the organization of the units at the end of a turn.
+   * Units that fought in melee during the turn don't regain organization.
+   * @param units - The units to update.
+   * @param engagedUnits - Units that fought in melee during the turn.
+   */
+  regainOrganization(units: ServerUnit[], engagedUnits: Set<ServerUnit>) {
+    const { regainRate, routingOrgRecoveryModifier } =
+      this.gameDataManager.getGameRules().organization;
+
+    for (const unit of units) {
+      if (engagedUnits.has(unit) || unit.org >= unit.maxOrg) {
+        continue;
+      }
+
+      const order = this.game.orderManager.getOrder(unit.id);
+      const orderModifier =
+        this.gameDataManager.tryGetOrderTemplate(order?.type ?? null)
+          ?.orgRegainModifier ?? 0;
+      const routingModifier = unit.isRouting() ? routingOrgRecoveryModifier : 0;
+
+      const regain =
+        unit.maxOrg *
+        regainRate *
+        Math.max(0, 1 + orderModifier + routingModifier);
+
+      unit.org = Math.min(unit.maxOrg, unit.org + regain);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  ActionType,
+  GameEndReason,
+  OrderType,
+  PresetScenario,
+  ServerGameProps,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { ServerGame } from "./server-game";
+import { Vector2 } from "@lob-sdk/vector";
+import {
+  createTestGame,
+  createTestState,
+  getScenarioProps,
+} from "./test-utils";
+
+describe("ServerGame", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const scenario = gameDataManager.getScenario<PresetScenario>(
+    "clash-at-chelmnitz"
+  );
+
+  const createGame = (props: Partial<ServerGameProps> = {}) =>
+    createTestGame({
+      ...getScenarioProps("napoleonic", "clash-at-chelmnitz"),
+      ...props,
+    });
+
+  const getWalkOrders = (game: ServerGame, playerNumber: number) =>
+    game.getUnitsOfPlayer(playerNumber).map((unit) => ({
+      id: unit.id,
+      type: OrderType.Walk as const,
+      path: [[unit.position.x, playerNumber === 1 ? 600 : 700]] as [
+        number,
+        number
+      ][],
+    }));
+
+  const playTurn = (game: ServerGame) => {
+    for (const player of game.getPlayers()) {
+      game.submitOrders(player.playerNumber, {
+        turn: game.turnNumber,
+        orders: getWalkOrders(game, player.playerNumber),
+      });
+    }
+    game.executeTurn();
+  };
+
+  describe("setupFromState()", () => {
+    it("should create the units and objectives of the scenario with unique ids", () => {
+      const game = createGame();
+      const ids = [
+        ...game.getUnits().map((unit) => unit.id),
+        ...game.getObjectives().map((objective) => objective.id),
+      ];
+
+      expect(game.getUnits()).toHaveLength(scenario.units.length);
+      expect(game.getObjectives()).toHaveLength(scenario.objectives.length);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+
+  describe("executeTurn()", () => {
+    it("should move units towards their orders and record the turn actions", () => {
+      const game = createGame();
+
+      const unit = game.getUnitsOfPlayer(1)[0];
+      const startY = unit.position.y;
+
+      game.submitOrders(1, {
+        turn: 1,
+        orders: [{ id: unit.id, type: OrderType.Walk, path: [[unit.position.x, 600]] }],
+      });
+      game.executeTurn();
+
+      const { TICKS_PER_TURN } = gameDataManager.getGameConstants();
+      const tickActions = game.lastActions!.filter(
+        (action) => action.type === ActionType.TickAction
+      );
+
+      expect(game.turnNumber).toBe(2);
+      expect(game.lastActions![0].type).toBe(ActionType.TurnAction);
+      expect(tickActions).toHaveLength(TICKS_PER_TURN);
+      expect(Math.abs(unit.position.y - 600)).toBeLessThan(
+        Math.abs(startY - 600)
+      );
+    });
+
+    it("should reject orders for a different turn", () => {
+      const game = createGame();
+
+      expect(() => game.submitOrders(1, { turn: 2, orders: [] })).toThrow();
+    });
+
+    it("should play out identically for games with the same state", () => {
+      const game1 = createGame();
+      const game2 = createGame();
+
+      for (let i = 0; i < 5; i++) {
+        playTurn(game1);
+        playTurn(game2);
+      }
+
+      expect(game2.getState()).toEqual(game1.getState());
+      expect(game2.lastActions).toEqual(game1.lastActions);
+    });
+
+    it("should continue identically after being saved and loaded", () => {
+      const game = createGame();
+
+      for (let i = 0; i < 3; i++) {
+        playTurn(game);
+      }
+
+      const gameData = game.getGameData(1, []);
+      const loadedGame = createGame({
+        turnNumber: gameData.turnNumber,
+        state: JSON.parse(JSON.stringify(gameData.gameState)),
+        players: JSON.parse(JSON.stringify(game.getPlayers())),
+        started: gameData.started,
+        randomState: gameData.randomState,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        playTurn(game);
+        playTurn(loadedGame);
+      }
+
+      expect(loadedGame.getState()).toEqual(game.getState());
+      expect(loadedGame.random.getState()).toEqual(game.random.getState());
+    });
+  });
+
+  describe("shoot()", () => {
+    it("should hit the allies in the way unless their formation is immune to the shot", () => {
+      const shootThrough = (allyType: number) => {
+        const unit = (id: number, player: number, type: number, x: number) => ({
+          id,
+          player,
+          type,
+          pos: { x, y: 200 },
+          rotation: 0,
+        });
+        const game = createTestGame({
+          state: createTestState({
+            units: [
+              unit(1, 1, 1, 200),
+              unit(2, 1, allyType, 228),
+              unit(3, 2, 1, 256),
+            ],
+          }),
+        });
+        const [shooter, ally] = game.getUnitsOfPlayer(1);
+        const hp = ally.hp;
+
+        expect(
+          game.shoot(gameDataManager, shooter, new Vector2(256, 200))
+        ).not.toBeNull();
+
+        return hp - ally.hp;
+      };
+
+      expect(shootThrough(1)).toBeGreaterThan(0);
+      expect(shootThrough(3)).toBe(0);
+    });
+  });
+
+  describe("checkGameEnd()", () => {
+    it("should finish the game when the turn limit is exceeded", () => {
+      const game = createGame({ maxTurn: 2 });
+
+      playTurn(game);
+      expect(game.finished).toBe(false);
+
+      playTurn(game);
+      expect(game.finished).toBe(true);
+      expect(game.endReason).toBe(GameEndReason.MaxTurn);
+    });
+
+    it("should give the victory to the last team alive", () => {
+      const game = createGame();
+
+      for (const unit of game.getUnitsOfPlayer(2)) {
+        game.removeUnit(unit);
+      }
+      game.executeTurn();
+
+      expect(game.finished).toBe(true);
+      expect(game.endReason).toBe(GameEndReason.Victory);
+      expect(game.getResult()).toEqual({
+        winnerTeam: 1,
+        winners: [{ playerNumber: 1, userId: 1 }],
+        losers: [{ playerNumber: 2, userId: 2 }],
+      });
+    });
+  });
+});
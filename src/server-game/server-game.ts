@@ -0,0 +1,1995 @@
+import {
+  ActionType,
+  AddNewPlayerProps,
+  AnyAction,
+  DamageHit,
+  Direction,
+  DynamicBattleType,
+  EntityId,
+  FogOfWarResult,
+  FormationTemplate,
+  GameClientEventDto,
+  GameData,
+  GameEndReason,
+  GameId,
+  GameMap,
+  GameMetadata,
+  GameTriggerEventType,
+  GameResult,
+  GameScenarioType,
+  GameState,
+  HandleTurnStatusOptions,
+  IServerGame,
+  IUnit,
+  ObjectiveDto,
+  ObjectiveType,
+  OrderType,
+  PendingMeleeAttackData,
+  PlaceEntityOrder,
+  Player,
+  PlayerInfo,
+  PlayerSetup,
+  RangeUnitTemplate,
+  ServerGameProps,
+  ShootResult,
+  TerrainType,
+  TurnStatus,
+  TurnSubmission,
+  UnitCounts,
+  UnitDto,
+  UnitDtoPartialId,
+  UnitEffectId,
+  UnitStatus,
+  UnitType,
+  UpdateUnitStateAction,
+  UserTier,
+  VisionLevel,
+  Zone,
+} from "@lob-sdk/types";
+import {
+  GameDataManager,
+  GameEra,
+  RangedDamageTypeTemplate,
+} from "@lob-sdk/game-data-manager";
+import { ArmyDeployer } from "@lob-sdk/army-deployer";
+import {
+  calculateMeleeDamage,
+  calculateRangedDamage,
+  CombatUnitSnapshot,
+  getRangeModifier,
+  resolveShot,
+  ShotObstacle,
+} from "@lob-sdk/combat";
+import { Random } from "@lob-sdk/random";
+import { Point2, Vector2 } from "@lob-sdk/vector";
+import { isPointInsideZone } from "@lob-sdk/utils";
+import { AttackSystem } from "./attack-system";
+import { CollisionSystem } from "./collision-system";
+import { FogOfWarService } from "./fog-of-war-service";
+import { MovementSystem } from "./movement-system";
+import { OrderManager } from "./order-manager";
+import { OrganizationSystem } from "./organization-system";
+import { ServerObjective } from "./server-objective";
+import { ServerUnit } from "./server-unit";
+import { TriggerSystem } from "./trigger-system";
+import { getCollisionCircles, getDirectionTo, getMapTile } from "./utils";
+import { VpService } from "./vp-service";
+
+/**
+ * Games with a turn time limit up to this many seconds are fast games.
+ */
+const FAST_GAME_TURN_TIME_LIMIT = 60;
+
+/**
+ * Tolerance used when checking if an objective capture has finished,
+ * so rounding errors don't delay it one tick.
+ */
+const CAPTURE_PROGRESS_EPSILON = 1e-9;
+
+/**
+ * A shot a unit can fire at a position.
+ */
+export interface ShotTrajectory {
+  /** Name of the damage type used for the shot. */
+  damageType: string;
+  /** Position the shot is fired from. */
+  origin: Vector2;
+  /** Position the shot is aimed at. */
+  target: Vector2;
+  /** Distance between the origin and the target. */
+  distance: number;
+}
+
+/**
+ * State of a unit before a tick, used to report what changed during it.
+ */
+interface UnitStateSnapshot {
+  hp: number;
+  org: number;
+  status: UnitStatus;
+  stamina: number | null;
+  ammo: number | null;
+  accumulatedTicks: number;
+}
+
+/**
+ * Headless implementation of {@link IServerGame}.
+ *
+ * Runs the whole simulation of a game: players submit their orders, and `executeTurn`
+ * simulates `TICKS_PER_TURN` ticks of movement, melee, ranged fire, organization and
+ * objective captures, recording everything that happened as actions. Games can be saved
+ * with `getGameData` and restored by passing the saved state to the constructor; the
+ * random number generator state is saved too, so restored games play out identically.
+ */
+export class ServerGame implements IServerGame {
+  readonly id: GameId;
+  readonly era: GameEra;
+  readonly scenarioName: string;
+  readonly dynamicBattleType: DynamicBattleType | null;
+  readonly scenarioType: GameScenarioType;
+  readonly fogOfWar: boolean;
+  readonly ranked: boolean;
+  readonly givesRewards: boolean;
+  /** Turn duration limit in seconds. 0 or less means no limit. */
+  readonly turnTimeLimit: number;
+  readonly tournamentId?: number;
+
+  units = new Map<EntityId, ServerUnit>();
+  turnNumber: number;
+  started: boolean;
+  finished: boolean;
+  endReason: GameEndReason | null = null;
+  playerSetups: PlayerSetup[];
+  /** Timestamp in seconds for the start of the current turn. */
+  turnStartedTime: number;
+  /** Timestamp in seconds when the game was created. */
+  createdAt: number;
+  /** Last turn of the game. 0 or less means no limit. */
+  maxTurn: number;
+  map!: GameMap;
+  lastActions: AnyAction[] | null;
+  previousState: GameState | null;
+  attackingUnits = new Set<ServerUnit>();
+  pendingMeleeAttacks = new Set<PendingMeleeAttackData<ServerUnit>>();
+  drawUnlockTurn: number;
+  clientEvents: GameClientEventDto[] | null;
+  clientEventsToSave = new Set<Omit<GameClientEventDto, "id">>();
+  metadata: GameMetadata;
+  random: Random;
+  /** Player the game is played by, used when no player is given. */
+  currentPlayer: number | null = null;
+
+  vpService: VpService;
+  orderManager: OrderManager;
+  organizationSystem: OrganizationSystem;
+  attackSystem: AttackSystem;
+  movementSystem: MovementSystem;
+  collisionSystem: CollisionSystem;
+  triggerSystem: TriggerSystem;
+  fogOfWarService: FogOfWarService;
+
+  private gameDataManager: GameDataManager;
+  private players = new Map<number, Player>();
+  private objectives = new Map<EntityId, ServerObjective>();
+  private fogOfWarCache = new Map<number, FogOfWarResult>();
+  private nextEntityId = 1;
+  /** Actions that happened between two turns, recorded with the next turn. */
+  private pendingActions: AnyAction[] = [];
+
+  /**
+   * Creates a new ServerGame instance.
+   * @param props - The game configuration and its current state.
+   */
+  constructor(props: ServerGameProps) {
+    this.gameDataManager = GameDataManager.get(props.era);
+
+    this.id = props.id;
+    this.era = props.era;
+    this.scenarioName = props.scenarioName;
+    this.dynamicBattleType = props.dynamicBattleType;
+    this.scenarioType = props.scenarioType;
+    this.ranked = props.ranked;
+    this.givesRewards = props.givesRewards;
+    this.turnTimeLimit = props.turnTimeLimit;
+    this.tournamentId = props.tournamentId;
+    this.turnNumber = props.turnNumber;
+    this.started = props.started;
+    this.finished = props.finished;
+    this.turnStartedTime = props.turnStartedTime;
+    this.createdAt = props.createdAt ?? Date.now() / 1000;
+    this.maxTurn = props.maxTurn;
+    this.lastActions = props.lastActions ?? null;
+    this.previousState = props.previousState ?? null;
+    this.drawUnlockTurn = props.drawUnlockTurn;
+    this.clientEvents = props.clientEvents ?? null;
+    this.metadata = props.metadata ?? {};
+    this.fogOfWar =
+      props.fogOfWar ??
+      (props.dynamicBattleType
+        ? this.gameDataManager.getBattleType(props.dynamicBattleType).fogOfWar
+        : false);
+    this.random = props.randomState
+      ? Random.fromState(props.randomState)
+      : new Random(Random.generateSeed());
+
+    for (const player of props.players) {
+      this.players.set(player.playerNumber, player);
+    }
+
+    this.playerSetups = props.playerSetups
+      ? props.playerSetups.map((setup) => ({ ...setup }))
+      : [];
+
+    for (const player of props.players) {
+      this.addPlayerSetup(player);
+    }
+
+    if (this.playerSetups.length === 0) {
+      this.playerSetups = [
+        { player: 1, team: 1 },
+        { player: 2, team: 2 },
+      ];
+    }
+
+    this.vpService = new VpService(this.gameDataManager, this);
+    this.orderManager = new OrderManager();
+    this.organizationSystem = new OrganizationSystem(
+      this.gameDataManager,
+      this
+    );
+    this.attackSystem = new AttackSystem(this.gameDataManager, this);
+    this.movementSystem = new MovementSystem(this.gameDataManager, this);
+    this.collisionSystem = new CollisionSystem(this.gameDataManager, this);
+    this.triggerSystem = new TriggerSystem(this.gameDataManager, this);
+    this.fogOfWarService = new FogOfWarService(this.gameDataManager, this);
+
+    this.setupFromState(props.state);
+
+    for (const order of props.pendingOrders ?? []) {
+      this.orderManager.setOrder(order);
+    }
+  }
+
+  getPlayerTeam(playerNumber: number | null = this.currentPlayer): number {
+    if (playerNumber === null) {
+      throw new Error("No player given");
+    }
+
+    const team =
+      this.players.get(playerNumber)?.team ??
+      this.playerSetups.find((setup) => setup.player === playerNumber)?.team;
+
+    if (team === undefined) {
+      throw new Error(`Player ${playerNumber} not found`);
+    }
+
+    return team;
+  }
+
+  setupFromState(state: GameState<false> | GameState<true>) {
+    this.removeAllUnits();
+    this.objectives.clear();
+    this.nextEntityId = 1;
+
+    this.map = state.map;
+    this.triggerSystem.setTriggers(state.triggers ?? []);
+
+    for (const { player, unitsGained } of state.players) {
+      const existing = this.players.get(player);
+      if (existing) {
+        existing.unitsGained = unitsGained;
+      }
+    }
+
+    this.reserveEntityIds([...state.units, ...(state.objectives ?? [])]);
+    this.createUnits(state.units);
+    this.createObjectives(state.objectives ?? []);
+
+    this.clearTurnCache();
+    this.vpService.updateArmiesPower();
+  }
+
+  start() {
+    if (this.started) {
+      throw new Error("Game has already started");
+    }
+
+    this.started = true;
+
+    for (const player of this.players.values()) {
+      player.armyComposition ??= this.getArmyComposition(player.playerNumber);
+    }
+
+    this.vpService.updateArmiesPower();
+    this.turnStartedTime = Date.now() / 1000;
+    this.resetTurn();
+  }
+
+  createUnits(unitDtos: UnitDtoPartialId[] = []): ServerUnit[] {
+    this.reserveEntityIds(unitDtos);
+
+    const units = unitDtos.map(
+      (dto) =>
+        new ServerUnit(
+          this.gameDataManager,
+          { ...dto, id: dto.id ?? this.nextEntityId++ },
+          this.getPlayerTeam(dto.player)
+        )
+    );
+
+    this.addUnit(...units);
+
+    return units;
+  }
+
+  createObjectives(objectiveDtos: ObjectiveDto<false>[]): ServerObjective[] {
+    this.reserveEntityIds(objectiveDtos);
+
+    const objectives = objectiveDtos.map((dto) => {
+      const team =
+        dto.team ?? (dto.player ? this.getPlayerTeam(dto.player) : 0);
+
+      return new ServerObjective(
+        { ...dto, id: dto.id ?? this.nextEntityId++ },
+        team
+      );
+    });
+
+    this.addObjective(...objectives);
+
+    return objectives;
+  }
+
+  getObjectives(): ServerObjective[] {
+    return [...this.objectives.values()];
+  }
+
+  getObjective(objectiveId: number): ServerObjective | undefined {
+    return this.objectives.get(objectiveId);
+  }
+
+  getObjectiveByName(name: string): ServerObjective | undefined {
+    return this.getObjectives().find((objective) => objective.name === name);
+  }
+
+  isGameFull(): boolean {
+    return this.players.size >= this.getMaxPlayers();
+  }
+
+  resetTurn() {
+    for (const player of this.players.values()) {
+      player.passed = player.defeated;
+      player.turnSubmission = null;
+    }
+  }
+
+  hasPlayerPassed(playerNumber: number): boolean {
+    return this.players.get(playerNumber)?.passed ?? false;
+  }
+
+  passTurn() {
+    if (this.currentPlayer === null) {
+      throw new Error("No player given");
+    }
+
+    const player = this.players.get(this.currentPlayer);
+
+    if (player) {
+      player.passed = true;
+    }
+  }
+
+  allTurnsPassed(): boolean {
+    const players = this.getPlayers().filter((player) => !player.defeated);
+    return players.length > 0 && players.every((player) => player.passed);
+  }
+
+  executeTurn() {
+    if (!this.started) {
+      throw new Error("Game has not started");
+    }
+
+    if (this.finished) {
+      throw new Error("Game has already finished");
+    }
+
+    const { TICKS_PER_TURN } = this.gameDataManager.getGameConstants();
+
+    this.previousState = this.getState();
+    this.clearTurnCache();
+    this.attackSystem.startTurn();
+
+    const actions: AnyAction[] = [
+      {
+        type: ActionType.TurnAction,
+        turn: this.turnNumber,
+        teams: this.getTeamsState(),
+      },
+      ...this.pendingActions.splice(0),
+      ...this.applyTurnSubmissions(),
+      ...this.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart),
+    ];
+
+    const unitDtos = new Map(
+      this.getUnits().map((unit) => [unit, unit.toDto()])
+    );
+
+    for (let tick = 0; tick < TICKS_PER_TURN; tick++) {
+      actions.push({ type: ActionType.TickAction, actions: this.executeTick() });
+    }
+
+    actions.push(...this.getTickStateUpdates(unitDtos), ...this.endTurn());
+
+    this.lastActions = actions;
+  }
+
+  createPlayer(
+    userId: number,
+    username: string,
+    elo: number,
+    userTier: UserTier,
+    playerNumber: number = this.getNextPlayerNumber()
+  ): Player {
+    const setup = this.playerSetups.find(
+      (setup) => setup.player === playerNumber
+    );
+    const baseAmmoReserve =
+      setup?.baseAmmoReserve ?? this.getDefaultAmmoReserve();
+
+    return {
+      userId,
+      playerNumber,
+      username,
+      elo,
+      team: setup?.team ?? ((playerNumber - 1) % 2) + 1,
+      passed: false,
+      defeated: false,
+      consecutiveUnplayedTurns: 0,
+      ticksUnderPressure: null,
+      userTier,
+      turnSubmission: null,
+      wantsDraw: false,
+      armyComposition: null,
+      unitDamageTaken: null,
+      unitsGained: null,
+      baseAmmoReserve,
+      ammoReserve: setup?.ammoReserve ?? baseAmmoReserve,
+    };
+  }
+
+  getNextPlayerNumber(): number {
+    const setup = [...this.playerSetups]
+      .sort((a, b) => a.player - b.player)
+      .find((setup) => !this.players.has(setup.player));
+
+    if (!setup) {
+      throw new Error("Game is full");
+    }
+
+    return setup.player;
+  }
+
+  addPlayer(...players: Player[]) {
+    for (const player of players) {
+      if (this.players.has(player.playerNumber)) {
+        throw new Error(`Player ${player.playerNumber} already exists`);
+      }
+
+      this.players.set(player.playerNumber, player);
+      this.addPlayerSetup(player);
+    }
+  }
+
+  addNewPlayer(props: AddNewPlayerProps): Player {
+    const player = this.createPlayer(
+      props.userId,
+      props.username,
+      props.elo,
+      props.userTier ?? UserTier.Free,
+      props.playerNumber
+    );
+
+    this.addPlayer(player);
+
+    if (props.units) {
+      const deployer = new ArmyDeployer(
+        this.gameDataManager,
+        props.units,
+        this.getPlayerDeploymentZone(player),
+        player.playerNumber,
+        player.team,
+        this.dynamicBattleType ?? DynamicBattleType.Combat
+      );
+
+      this.createUnits(deployer.deploy());
+      this.vpService.updateArmiesPower();
+    }
+
+    return player;
+  }
+
+  getPlayer(playerNumber: number): Player | undefined {
+    return this.players.get(playerNumber);
+  }
+
+  getPlayerByUserId(userId: number): Player | null {
+    return this.getPlayers().find((player) => player.userId === userId) ?? null;
+  }
+
+  addUnit(...units: ServerUnit[]) {
+    for (const unit of units) {
+      this.units.set(unit.id, unit);
+      this.nextEntityId = Math.max(this.nextEntityId, unit.id + 1);
+    }
+  }
+
+  addObjective(...objectives: ServerObjective[]) {
+    for (const objective of objectives) {
+      this.objectives.set(objective.id, objective);
+      this.nextEntityId = Math.max(this.nextEntityId, objective.id + 1);
+    }
+  }
+
+  getState(): GameState {
+    return {
+      players: this.getPlayers().map((player) => ({
+        player: player.playerNumber,
+        unitsGained: player.unitsGained,
+      })),
+      teams: this.getTeamsState(),
+      units: this.getUnits().map((unit) => unit.toDto()),
+      map: this.map,
+      objectives: this.getObjectives().map((objective) => objective.toDto()),
+      triggers: this.triggerSystem.triggers,
+    };
+  }
+
+  getUnits(): ServerUnit[] {
+    return [...this.units.values()];
+  }
+
+  getUnitTypesOf(playerNumber: number): Set<UnitType> {
+    return new Set(this.getUnitsOfPlayer(playerNumber).map((unit) => unit.type));
+  }
+
+  getPlayers(): Player[] {
+    return [...this.players.values()].sort(
+      (a, b) => a.playerNumber - b.playerNumber
+    );
+  }
+
+  getUserIds(): number[] {
+    return this.getPlayers().map((player) => player.userId);
+  }
+
+  submitOrders(playerNumber: number, turnSubmission: TurnSubmission) {
+    if (!this.started || this.finished) {
+      throw new Error("Game is not in progress");
+    }
+
+    const player = this.players.get(playerNumber);
+
+    if (!player) {
+      throw new Error(`Player ${playerNumber} not found`);
+    }
+
+    if (player.defeated) {
+      throw new Error(`Player ${playerNumber} has been defeated`);
+    }
+
+    if (turnSubmission.turn !== this.turnNumber) {
+      throw new Error(
+        `Orders are for turn ${turnSubmission.turn}, but the current turn is ${this.turnNumber}`
+      );
+    }
+
+    player.turnSubmission = turnSubmission;
+    player.passed = true;
+    player.consecutiveUnplayedTurns = 0;
+  }
+
+  getTurnStatus(wsServerTimestamp: number | null): TurnStatus {
+    if (this.allTurnsPassed()) {
+      return TurnStatus.Completed;
+    }
+
+    if (this.hasTurnTimeoutExceeded(wsServerTimestamp)) {
+      return TurnStatus.TimedOut;
+    }
+
+    return TurnStatus.InProgress;
+  }
+
+  async handleTurnStatus(
+    turnStatus: TurnStatus,
+    options: Partial<HandleTurnStatusOptions> = {}
+  ): Promise<void> {
+    if (turnStatus === TurnStatus.InProgress) {
+      return;
+    }
+
+    if (turnStatus === TurnStatus.TimedOut) {
+      const { MAX_INACTIVE_TURNS } = this.gameDataManager.getGameConstants();
+
+      await options.onPreTimeout?.();
+
+      for (const player of this.getPlayers()) {
+        if (player.defeated || player.passed) {
+          continue;
+        }
+
+        player.consecutiveUnplayedTurns++;
+
+        if (player.consecutiveUnplayedTurns > MAX_INACTIVE_TURNS) {
+          this.pendingActions.push(...this.defeatPlayer(player.playerNumber));
+        }
+      }
+
+      this.checkGameEnd();
+    }
+
+    if (!this.finished) {
+      this.executeTurn();
+    }
+  }
+
+  getIdlePlayerIds(): number[] {
+    return this.getPlayers()
+      .filter((player) => !player.defeated && !player.passed)
+      .map((player) => player.userId);
+  }
+
+  removeUnit(unit: ServerUnit) {
+    this.units.delete(unit.id);
+    this.orderManager.removeOrder(unit.id);
+    this.attackingUnits.delete(unit);
+  }
+
+  removeAllUnits() {
+    this.units.clear();
+    this.orderManager.clear();
+    this.attackingUnits.clear();
+    this.pendingMeleeAttacks.clear();
+  }
+
+  getUnit(id: number): ServerUnit | undefined {
+    return this.units.get(id);
+  }
+
+  getUnitByName(name: string): ServerUnit | undefined {
+    return this.getUnits().find((unit) => unit.name === name);
+  }
+
+  getClosestUnitOf<T extends IUnit>(position: Vector2, units: T[]): T | null {
+    let closest: T | null = null;
+    let minSquaredDistance = Infinity;
+
+    for (const unit of units) {
+      const squaredDistance = position.squaredDistanceTo(unit.position);
+
+      if (squaredDistance < minSquaredDistance) {
+        closest = unit;
+        minSquaredDistance = squaredDistance;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Gets the shot a unit would fire at a position, using the damage type
+   * with the best range modifier at that distance.
+   * @param unit - The shooting unit.
+   * @param targetPosition - The position to shoot at.
+   * @param ignoreEffects - Whether to ignore effects that prevent shooting, like having ran.
+   * @param forAutofire - Whether the shot is fired by autofire, which skips hold fire damage types.
+   * @returns The shot trajectory, or null if the unit can't shoot at the position.
+   */
+  getShotTrajectory(
+    unit: ServerUnit,
+    targetPosition: Vector2,
+    ignoreEffects = false,
+    forAutofire = false
+  ): ShotTrajectory | null {
+    const { rangedDamageTypes } = unit.template as RangeUnitTemplate;
+    const distance = unit.position.distanceTo(targetPosition);
+
+    let best: { damageType: string; modifier: number } | null = null;
+
+    for (const damageTypeName of rangedDamageTypes ?? []) {
+      const damageType =
+        this.gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>(
+          damageTypeName
+        );
+
+      if (forAutofire && unit.holdFireDamageTypes.includes(damageType.id)) {
+        continue;
+      }
+
+      if (
+        !ignoreEffects &&
+        damageType.cannotUseAfterRun &&
+        unit.hasEffect(UnitEffectId.HasRan)
+      ) {
+        continue;
+      }
+
+      if (unit.ammo !== null && unit.ammo < (damageType.ammoCost ?? 0)) {
+        continue;
+      }
+
+      const modifier = getRangeModifier(damageType, distance);
+
+      if (modifier !== null && (!best || modifier > best.modifier)) {
+        best = { damageType: damageTypeName, modifier };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    return {
+      damageType: best.damageType,
+      origin: unit.position,
+      target: targetPosition,
+      distance,
+    };
+  }
+
+  shoot(
+    gameDataManager: GameDataManager,
+    unit: ServerUnit,
+    targetPosition: Vector2
+  ): ShootResult | null {
+    const { EFFECT_HAS_FIRED_TICKS } = gameDataManager.getGameConstants();
+    const trajectory = this.getShotTrajectory(unit, targetPosition);
+
+    if (!trajectory) {
+      return null;
+    }
+
+    const damageType =
+      gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>(
+        trajectory.damageType
+      );
+    const resolution = resolveShot(
+      gameDataManager,
+      this.map,
+      damageType.name,
+      unit.position,
+      targetPosition,
+      this.getShotObstacles(unit, damageType.name),
+      this.getElevationDifference(unit.position, targetPosition)
+    );
+
+    for (const hit of resolution.hits) {
+      const damageHit = this.calculateRangedDamage(
+        unit,
+        hit.unit,
+        damageType.name,
+        hit.strength
+      );
+
+      this.applyDamageHit(hit.unit, damageHit, false);
+    }
+
+    const ammoCost = damageType.ammoCost ?? 0;
+    const staminaCost = gameDataManager.getGameRules().stamina?.rangedTurnCost ?? 0;
+
+    if (unit.ammo !== null) {
+      unit.ammo = Math.max(0, unit.ammo - ammoCost);
+    }
+
+    if (unit.stamina !== null) {
+      unit.stamina = Math.max(0, unit.stamina - staminaCost);
+    }
+
+    unit.addEffect(UnitEffectId.HasFired, EFFECT_HAS_FIRED_TICKS);
+
+    return {
+      action: {
+        type: ActionType.RangedAttack,
+        unitId: unit.id,
+        dt: damageType.id,
+        fss: [
+          unit.position.toArray(),
+          Vector2.fromPoint(resolution.end).toArray(),
+        ],
+      },
+      ammoCost,
+      staminaCost,
+    };
+  }
+
+  calculateRangedDamage(
+    shooter: ServerUnit,
+    target: ServerUnit,
+    damageType: string,
+    stepStrength: number
+  ): DamageHit {
+    const side = getDirectionTo(
+      target.position,
+      target.rotation,
+      this.getUnitFormation(target),
+      shooter.position
+    );
+
+    return calculateRangedDamage(
+      this.gameDataManager,
+      this.getCombatSnapshot(shooter),
+      this.getCombatSnapshot(target),
+      damageType,
+      shooter.position.distanceTo(target.position),
+      side,
+      stepStrength
+    ).hit;
+  }
+
+  calculateMeleeDamage(
+    attacker: ServerUnit,
+    defender: ServerUnit,
+    side: Direction,
+    isCharging: boolean
+  ): DamageHit | null {
+    if (attacker.isRouting()) {
+      return null;
+    }
+
+    return calculateMeleeDamage(
+      this.gameDataManager,
+      this.getCombatSnapshot(attacker),
+      this.getCombatSnapshot(defender),
+      side,
+      isCharging
+    ).hit;
+  }
+
+  /**
+   * Gets the state of a unit the combat calculators need.
+   * @param unit - The unit.
+   * @returns The snapshot of the unit.
+   */
+  getCombatSnapshot(unit: ServerUnit): CombatUnitSnapshot {
+    return {
+      type: unit.type,
+      formation: unit.currentFormation,
+      terrain: this.getUnitTerrain(unit),
+      org: unit.org,
+      maxOrg: unit.maxOrg,
+      orderType: this.orderManager.getOrder(unit.id)?.type ?? null,
+    };
+  }
+
+  /**
+   * Applies the damage of a hit to a unit.
+   * @param unit - The unit receiving the hit.
+   * @param hit - The hit.
+   * @param collidedWithEnemy - Whether the hit comes from a melee attack.
+   */
+  applyDamageHit(unit: ServerUnit, hit: DamageHit, collidedWithEnemy: boolean) {
+    const { orgDamageRatio } = this.gameDataManager.getDamageTypeByName(
+      hit.damageType
+    );
+    const order = this.orderManager.getOrder(unit.id);
+    const receivedOrgDamage =
+      this.gameDataManager.tryGetOrderTemplate(order?.type ?? null)
+        ?.receivedOrgDamage ?? 0;
+
+    unit.hp = Math.max(0, unit.hp - hit.damage);
+    unit.org -=
+      ((hit.damage * orgDamageRatio) / 100) *
+      Math.max(0, 1 + hit.orgBonus + receivedOrgDamage);
+
+    this.recordUnitDamageForPlayer(unit, hit.damage);
+    this.applyUnitDamageTaken(unit, collidedWithEnemy);
+  }
+
+  checkPlayerDefeat(playerNumber: number): boolean {
+    const player = this.players.get(playerNumber);
+
+    if (!player) {
+      return false;
+    }
+
+    return player.defeated || !this.hasActiveUnits(playerNumber);
+  }
+
+  defeatPlayer(playerNumber: number): AnyAction[] {
+    const player = this.players.get(playerNumber);
+
+    if (!player) {
+      throw new Error(`Player ${playerNumber} not found`);
+    }
+
+    player.defeated = true;
+    player.passed = true;
+
+    return this.getUnitsOfPlayer(playerNumber).map((unit) => {
+      this.removeUnit(unit);
+      return { type: ActionType.UnitDestroyed, unitId: unit.id };
+    });
+  }
+
+  defeatPlayerIfExists(playerNumber: number): AnyAction[] {
+    if (!this.players.has(playerNumber)) {
+      return [];
+    }
+
+    return this.defeatPlayer(playerNumber);
+  }
+
+  getWinnerTeam(): number | null {
+    if (this.endReason === GameEndReason.DrawByAgreement) {
+      return null;
+    }
+
+    const { VP_POINTS_TO_TIE_BREAK } = this.gameDataManager.getGameConstants();
+    const aliveTeams = this.getAliveTeams();
+
+    if (aliveTeams.length <= 1) {
+      return aliveTeams[0] ?? null;
+    }
+
+    const [first, second] = aliveTeams
+      .map((team) => ({ team, vp: this.getTeamVictoryPoints(team) }))
+      .sort((a, b) => b.vp - a.vp || a.team - b.team);
+
+    return first.vp - second.vp >= VP_POINTS_TO_TIE_BREAK ? first.team : null;
+  }
+
+  getResult(): GameResult | null {
+    if (!this.finished) {
+      return null;
+    }
+
+    const winnerTeam = this.getWinnerTeam();
+
+    if (winnerTeam === null) {
+      return { winnerTeam: 0, winners: [], losers: [] };
+    }
+
+    const toResult = ({ playerNumber, userId }: Player) => ({
+      playerNumber,
+      userId,
+    });
+    const players = this.getPlayers();
+
+    return {
+      winnerTeam,
+      winners: players
+        .filter((player) => player.team === winnerTeam)
+        .map(toResult),
+      losers: players
+        .filter((player) => player.team !== winnerTeam)
+        .map(toResult),
+    };
+  }
+
+  countAliveTeams(): number {
+    return this.getAliveTeams().length;
+  }
+
+  getAlivePlayersOfTeam(team: number): number[] {
+    return this.getPlayers()
+      .filter((player) => player.team === team && !player.defeated)
+      .map((player) => player.playerNumber);
+  }
+
+  getFirstPlayerOfTeam(team: number): number {
+    const playerNumber =
+      this.getAlivePlayersOfTeam(team)[0] ??
+      this.getPlayers().find((player) => player.team === team)?.playerNumber;
+
+    if (playerNumber === undefined) {
+      throw new Error(`Team ${team} has no players`);
+    }
+
+    return playerNumber;
+  }
+
+  getUnitsOfPlayer(player: number): ServerUnit[] {
+    return this.getUnits().filter((unit) => unit.player === player);
+  }
+
+  getUnitTerrain(unit: IUnit): TerrainType {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const tile = getMapTile(this.map, unit.position, TILE_SIZE);
+
+    return this.map.terrains[tile.x][tile.y];
+  }
+
+  /**
+   * Checks whether units can stand on a position.
+   * @param position - The position in pixels.
+   * @returns False if the position is outside the map or on impassable terrain.
+   */
+  isPositionPassable(position: Point2): boolean {
+    if (this.isPointOutsideMap(position)) {
+      return false;
+    }
+
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const tile = getMapTile(this.map, position, TILE_SIZE);
+
+    return this.gameDataManager.isPassable(this.map.terrains[tile.x][tile.y]);
+  }
+
+  /**
+   * Clamps a position to the bounds of the map.
+   * @param position - The position in pixels.
+   * @returns The closest position inside the map.
+   */
+  clampToMap(position: Point2): Vector2 {
+    return new Vector2(
+      Math.min(this.map.width - 1, Math.max(0, position.x)),
+      Math.min(this.map.height - 1, Math.max(0, position.y))
+    );
+  }
+
+  isPointOutsideMap(point: Point2): boolean {
+    return (
+      point.x < 0 ||
+      point.y < 0 ||
+      point.x >= this.map.width ||
+      point.y >= this.map.height
+    );
+  }
+
+  hasActiveUnits(playerNumber: number): boolean {
+    return this.getUnitsOfPlayer(playerNumber).some(
+      (unit) => !unit.isRouting()
+    );
+  }
+
+  hasTurnTimeoutExceeded(wsServerTimestamp: number | null): boolean {
+    if (this.turnTimeLimit <= 0) {
+      return false;
+    }
+
+    const { TURN_LIMIT_TIME_MARGIN_SECONDS, DEPLOYMENT_TURN_ADDITIONAL_SECONDS } =
+      this.gameDataManager.getGameConstants();
+
+    const now = (wsServerTimestamp ?? Date.now()) / 1000;
+    const timeLimit =
+      this.turnTimeLimit +
+      TURN_LIMIT_TIME_MARGIN_SECONDS +
+      (this.isFirstTurn() ? DEPLOYMENT_TURN_ADDITIONAL_SECONDS : 0);
+
+    return now - this.turnStartedTime > timeLimit;
+  }
+
+  finish(reason: GameEndReason) {
+    this.finished = true;
+    this.endReason = reason;
+  }
+
+  checkGameEnd() {
+    if (this.finished) {
+      return;
+    }
+
+    const conquestVictory =
+      this.gameDataManager.tryGetScenario(this.scenarioName)
+        ?.conquestVictory ?? true;
+
+    if (conquestVictory && this.countAliveTeams() <= 1) {
+      this.metadata.conquestVictory = true;
+      this.finish(GameEndReason.Victory);
+    } else if (this.isUnanimousDraw()) {
+      this.finish(GameEndReason.DrawByAgreement);
+    } else if (this.isTurnLimitExceeded()) {
+      this.finish(GameEndReason.MaxTurn);
+    }
+  }
+
+  isTurnLimitExceeded(): boolean {
+    return this.maxTurn > 0 && this.turnNumber > this.maxTurn;
+  }
+
+  isLastTurn(): boolean {
+    return this.maxTurn > 0 && this.turnNumber >= this.maxTurn;
+  }
+
+  isUnanimousDraw(): boolean {
+    const players = this.getPlayers().filter((player) => !player.defeated);
+    return players.length > 0 && players.every((player) => player.wantsDraw);
+  }
+
+  isFirstTurn(): boolean {
+    return this.turnNumber === 1;
+  }
+
+  isFastGame(): boolean {
+    return (
+      this.turnTimeLimit > 0 &&
+      this.turnTimeLimit <= FAST_GAME_TURN_TIME_LIMIT
+    );
+  }
+
+  wasFirstTurn(): boolean {
+    return this.turnNumber === 2;
+  }
+
+  hasObjectives(team: number): boolean {
+    return this.getObjectives().some((objective) => objective.team === team);
+  }
+
+  hasBigObjectives(team: number): boolean {
+    return this.getObjectives().some(
+      (objective) =>
+        objective.team === team && objective.type === ObjectiveType.Big
+    );
+  }
+
+  shouldTeamLoseForNoBigObjectives(team: number): boolean {
+    const bigObjectives = this.getObjectives().filter(
+      (objective) => objective.type === ObjectiveType.Big
+    );
+
+    return (
+      bigObjectives.length > 0 &&
+      !this.hasBigObjectives(team) &&
+      bigObjectives.some(
+        (objective) => objective.team !== 0 && objective.team !== team
+      )
+    );
+  }
+
+  getClosestObjective(
+    position: Vector2,
+    condition: (objective: ServerObjective) => boolean
+  ): ServerObjective | null {
+    let closest: ServerObjective | null = null;
+    let minSquaredDistance = Infinity;
+
+    for (const objective of this.objectives.values()) {
+      if (!condition(objective)) {
+        continue;
+      }
+
+      const squaredDistance = position.squaredDistanceTo(objective.position);
+
+      if (squaredDistance < minSquaredDistance) {
+        closest = objective;
+        minSquaredDistance = squaredDistance;
+      }
+    }
+
+    return closest;
+  }
+
+  getClosestEnemyObjective(
+    position: Vector2,
+    team: number
+  ): ServerObjective | null {
+    return this.getClosestObjective(
+      position,
+      (objective) => objective.team !== team
+    );
+  }
+
+  getClosestAllyObjective(
+    position: Vector2,
+    team: number
+  ): ServerObjective | null {
+    return this.getClosestObjective(
+      position,
+      (objective) => objective.team === team
+    );
+  }
+
+  calculateFogOfWar(team: number): FogOfWarResult | null {
+    if (!this.fogOfWar) {
+      return null;
+    }
+
+    let result = this.fogOfWarCache.get(team);
+
+    if (!result) {
+      result = this.fogOfWarService.calculate(team);
+      this.fogOfWarCache.set(team, result);
+    }
+
+    return result;
+  }
+
+  getVisibleEnemyUnits(playerNumber: number): ServerUnit[] {
+    const team = this.getPlayerTeam(playerNumber);
+
+    return this.getUnits().filter(
+      (unit) => unit.team !== team && this.isUnitVisibleToTeam(unit, team)
+    );
+  }
+
+  getVisibleNearbyUnits(
+    playerNumber: number,
+    position: Vector2,
+    range: number
+  ): ServerUnit[] {
+    const team = this.getPlayerTeam(playerNumber);
+
+    return this.getNearbyUnits(position, range).filter((unit) =>
+      this.isUnitVisibleToTeam(unit, team)
+    );
+  }
+
+  getVisibleClosestUnitOf<T extends IUnit>(
+    playerNumber: number,
+    position: Vector2,
+    units: T[]
+  ): T | null {
+    const team = this.getPlayerTeam(playerNumber);
+
+    return this.getClosestUnitOf(
+      position,
+      units.filter((unit) => this.isUnitVisibleToTeam(unit, team))
+    );
+  }
+
+  getEntity(entityId: EntityId): ServerUnit | ServerObjective | undefined {
+    return this.units.get(entityId) ?? this.objectives.get(entityId);
+  }
+
+  getArmyComposition(playerNumber: number): UnitCounts {
+    const composition: UnitCounts = {};
+
+    for (const unit of this.getUnitsOfPlayer(playerNumber)) {
+      composition[unit.type] = (composition[unit.type] ?? 0) + 1;
+    }
+
+    return composition;
+  }
+
+  applyUnitDamageTaken(unit: ServerUnit, collidedWithEnemy: boolean) {
+    const { ATTACK_COOLDOWN, EFFECT_HAS_FIRED_TICKS } =
+      this.gameDataManager.getGameConstants();
+
+    if (collidedWithEnemy) {
+      unit.addEffect(UnitEffectId.BeenInMelee, ATTACK_COOLDOWN + 1);
+    } else {
+      unit.addEffect(UnitEffectId.TakenFire, EFFECT_HAS_FIRED_TICKS);
+    }
+  }
+
+  recordUnitDamageForPlayer(unit: IUnit, damage: number) {
+    const player = this.players.get(unit.player);
+
+    if (!player) {
+      return;
+    }
+
+    const damageTaken = player.unitDamageTaken ?? {};
+    damageTaken[unit.type] = (damageTaken[unit.type] ?? 0) + damage;
+    player.unitDamageTaken = damageTaken;
+  }
+
+  getPlayerUnitDamageTaken(playerNumber: number): Record<string, number> {
+    return { ...this.players.get(playerNumber)?.unitDamageTaken };
+  }
+
+  clearTurnCache() {
+    this.vpService.clearTurnCache();
+    this.fogOfWarCache.clear();
+  }
+
+  getMaxPlayers(): number {
+    return this.playerSetups.length;
+  }
+
+  canUnitShoot(unit: ServerUnit): boolean {
+    const { rangedDamageTypes } = unit.template as RangeUnitTemplate;
+
+    return (
+      !!rangedDamageTypes?.length &&
+      unit.status === UnitStatus.Standing &&
+      !this.attackingUnits.has(unit) &&
+      (unit.ammo === null || unit.ammo > 0)
+    );
+  }
+
+  offerDraw(playerNumber: number) {
+    const player = this.players.get(playerNumber);
+
+    if (!player) {
+      throw new Error(`Player ${playerNumber} not found`);
+    }
+
+    if (this.turnNumber < this.drawUnlockTurn) {
+      throw new Error(
+        `Draws can't be offered until turn ${this.drawUnlockTurn}`
+      );
+    }
+
+    player.wantsDraw = true;
+  }
+
+  withdrawDraw(playerNumber: number) {
+    const player = this.players.get(playerNumber);
+
+    if (!player) {
+      throw new Error(`Player ${playerNumber} not found`);
+    }
+
+    player.wantsDraw = false;
+  }
+
+  hasTeamObjectives(team: number): boolean {
+    return this.getObjectives().some(
+      (objective) => objective.isTeamObjective() && objective.team === team
+    );
+  }
+
+  getGameData(playerTeam: number, players: PlayerInfo[]): GameData {
+    return {
+      era: this.era,
+      scenarioName: this.scenarioName,
+      scenarioType: this.scenarioType,
+      gameState: this.getState(),
+      lastActions: this.lastActions,
+      prevGameState: this.previousState,
+      players,
+      turnNumber: this.turnNumber,
+      started: this.started,
+      finished: this.finished,
+      ranked: this.ranked,
+      endReason: this.endReason,
+      turnStartedTime: this.turnStartedTime,
+      turnTimeLimit: this.turnTimeLimit,
+      dynamicBattleType: this.dynamicBattleType,
+      maxTurn: this.maxTurn,
+      playerSetups: this.playerSetups,
+      drawUnlockTurn: this.drawUnlockTurn,
+      clientEvents: this.clientEvents,
+      fogOfWar: this.fogOfWar,
+      tournamentId: this.tournamentId,
+      createdAt: this.createdAt,
+      metadata: this.metadata,
+      randomState: this.random.getState(),
+      pendingOrders: this.orderManager.getOrders(),
+    };
+  }
+
+  getTeamVictoryPoints(team: number): number {
+    return this.vpService.getTeamVictoryPoints(team);
+  }
+
+  setPlayerAmmoReserve(playerNumber: number, amount: number) {
+    const player = this.players.get(playerNumber);
+
+    if (!player) {
+      throw new Error(`Player ${playerNumber} not found`);
+    }
+
+    player.ammoReserve = Math.max(0, amount);
+  }
+
+  consumeAmmoFromReserve(playerNumber: number, amount: number): boolean {
+    const player = this.players.get(playerNumber);
+
+    if (!player || player.ammoReserve < amount) {
+      return false;
+    }
+
+    player.ammoReserve -= amount;
+
+    return true;
+  }
+
+  clearTickCache() {
+    this.fogOfWarCache.clear();
+  }
+
+  age(): number {
+    return Date.now() / 1000 - this.createdAt;
+  }
+
+  getNearbyUnits<T extends IUnit = ServerUnit>(
+    position: Point2,
+    height: number
+  ): T[] {
+    const squaredHeight = height * height;
+
+    return this.getUnits().filter(
+      (unit) => unit.position.squaredDistanceTo(position) <= squaredHeight
+    ) as IUnit[] as T[];
+  }
+
+  /**
+   * Gets the formation a unit is currently in.
+   * @param unit - The unit.
+   * @returns The formation template.
+   */
+  getUnitFormation(unit: IUnit): FormationTemplate {
+    const formation = this.gameDataManager
+      .getFormationManager()
+      .getTemplate(unit.currentFormation);
+
+    if (!formation) {
+      throw new Error(`Formation ${unit.currentFormation} not found`);
+    }
+
+    return formation;
+  }
+
+  private executeTick(): AnyAction[] {
+    this.clearTickCache();
+
+    const snapshots = this.takeUnitSnapshots();
+    const actions: AnyAction[] = [];
+
+    for (const unit of this.getUnits()) {
+      unit.tickEffects();
+      unit.attackCooldown = Math.max(0, unit.attackCooldown - 1);
+
+      if (unit.pendingFormationId === null) {
+        continue;
+      }
+
+      unit.formationChangeTicksRemaining--;
+
+      if (unit.formationChangeTicksRemaining <= 0) {
+        unit.currentFormation = unit.pendingFormationId;
+        unit.pendingFormationId = null;
+        unit.formationChangeTicksRemaining = 0;
+
+        actions.push({
+          type: ActionType.FormationChange,
+          unitId: unit.id,
+          formationId: unit.currentFormation,
+        });
+      }
+    }
+
+    this.attackSystem.findMeleeContacts();
+
+    actions.push(
+      ...this.movementSystem.update(this.attackingUnits),
+      ...this.collisionSystem.update(),
+      ...this.attackSystem.resolveMeleeAttacks(),
+      ...this.attackSystem.updateRangedAttacks(),
+      ...this.updateUnitStates(snapshots),
+      ...this.updateObjectives()
+    );
+
+    return actions;
+  }
+
+  /**
+   * Finishes the current turn: regains organization, resupplies ammo, fires the
+   * turn end triggers, defeats the players that have lost and moves to the next turn.
+   * @returns The unit updates and trigger actions caused by the end of the turn.
+   */
+  private endTurn(): AnyAction[] {
+    const snapshots = this.takeUnitSnapshots();
+
+    this.organizationSystem.regainOrganization(
+      this.getUnits(),
+      this.attackSystem.engagedUnits
+    );
+    this.resupplyAmmo();
+
+    const actions = this.updateUnitStates(snapshots);
+
+    this.orderManager.clear();
+    this.vpService.updateArmiesPower();
+
+    // Orders given by these triggers are kept for the next turn.
+    actions.push(
+      ...this.triggerSystem.handleEvent(GameTriggerEventType.OnTurnEnd)
+    );
+
+    for (const player of this.getPlayers()) {
+      if (!player.defeated && this.checkPlayerDefeat(player.playerNumber)) {
+        actions.push(...this.defeatPlayer(player.playerNumber));
+      }
+    }
+
+    for (const team of this.getAliveTeams()) {
+      if (this.shouldTeamLoseForNoBigObjectives(team)) {
+        for (const playerNumber of this.getAlivePlayersOfTeam(team)) {
+          actions.push(...this.defeatPlayer(playerNumber));
+        }
+      }
+    }
+
+    this.vpService.updateArmiesPower();
+    this.turnNumber++;
+    this.checkGameEnd();
+    this.resetTurn();
+    this.turnStartedTime = Date.now() / 1000;
+
+    return actions;
+  }
+
+  /**
+   * Applies the orders, formation changes and autofire changes submitted by the players.
+   * @returns The actions of the autofire changes and of the units placed during deployment.
+   */
+  private applyTurnSubmissions(): AnyAction[] {
+    const actions: AnyAction[] = [];
+
+    for (const player of this.getPlayers()) {
+      const { turnSubmission } = player;
+
+      if (!turnSubmission || player.defeated) {
+        continue;
+      }
+
+      const getOwnUnit = (unitId: EntityId) => {
+        const unit = this.units.get(unitId);
+        return unit?.player === player.playerNumber &&
+          !unit.isRoutingOrRecovering()
+          ? unit
+          : null;
+      };
+
+      for (const change of turnSubmission.autofireConfigChanges ?? []) {
+        const unit = getOwnUnit(change.unitId);
+        if (unit) {
+          unit.holdFireDamageTypes = [...change.holdFireDamageTypes];
+          actions.push({
+            type: ActionType.UpdateUnitState,
+            unitId: unit.id,
+            hfdt: [...change.holdFireDamageTypes],
+          });
+        }
+      }
+
+      for (const change of turnSubmission.formationChanges ?? []) {
+        const unit = getOwnUnit(change.unitId);
+        if (unit) {
+          this.startFormationChange(unit, change.formationId);
+        }
+      }
+
+      for (const order of turnSubmission.orders) {
+        const unit = getOwnUnit(order.id);
+
+        if (
+          !unit ||
+          !this.gameDataManager.canUseOrder(unit.category, order.type)
+        ) {
+          continue;
+        }
+
+        if (order.type === OrderType.PlaceEntity) {
+          if (this.placeUnit(unit, order)) {
+            actions.push({
+              type: ActionType.PlaceEntity,
+              id: unit.id,
+              pos: order.pos,
+              rotation: unit.rotation,
+            });
+          }
+          continue;
+        }
+
+        this.orderManager.setOrder(order);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Moves a unit to a position of its deployment zone. Units can only be placed on the first turn.
+   * @returns True if the unit was placed.
+   */
+  private placeUnit(unit: ServerUnit, order: PlaceEntityOrder): boolean {
+    if (!this.isFirstTurn()) {
+      return false;
+    }
+
+    const [x, y] = order.pos;
+    const zone = this.map.deploymentZones?.find(
+      (zone) => zone.team === unit.team
+    );
+
+    if (zone && !isPointInsideZone(zone, { x, y })) {
+      return false;
+    }
+
+    unit.position = new Vector2(x, y);
+    unit.rotation = order.rotation ?? unit.rotation;
+
+    return true;
+  }
+
+  /**
+   * Starts changing the formation of a unit. Formation changes finish within the turn.
+   */
+  private startFormationChange(unit: ServerUnit, formationId: string) {
+    const { TICKS_PER_TURN } = this.gameDataManager.getGameConstants();
+
+    if (
+      formationId === unit.currentFormation ||
+      !unit.template.formations.some((formation) => formation.id === formationId)
+    ) {
+      return;
+    }
+
+    const formationManager = this.gameDataManager.getFormationManager();
+    const ticks =
+      (this.getUnitFormation(unit).timeToUnform ?? 0) +
+      (formationManager.getTemplate(formationId)?.timeToForm ?? 0);
+
+    unit.pendingFormationId = formationId;
+    unit.formationChangeTicksRemaining = Math.min(TICKS_PER_TURN, ticks);
+  }
+
+  private takeUnitSnapshots(): Map<ServerUnit, UnitStateSnapshot> {
+    return new Map(
+      this.getUnits().map((unit) => [
+        unit,
+        {
+          hp: unit.hp,
+          org: unit.org,
+          status: unit.status,
+          stamina: unit.stamina,
+          ammo: unit.ammo,
+          accumulatedTicks: unit.accumulatedTicks,
+        },
+      ])
+    );
+  }
+
+  /**
+   * Updates the status of the units, destroying the ones that have been wiped out or shattered.
+   * @param snapshots - State of the units before the changes.
+   * @returns The actions describing the changes.
+   */
+  private updateUnitStates(
+    snapshots: Map<ServerUnit, UnitStateSnapshot>
+  ): AnyAction[] {
+    const actions: AnyAction[] = [];
+
+    for (const unit of this.getUnits()) {
+      const formation = unit.currentFormation;
+
+      if (unit.hp <= 0 || this.organizationSystem.updateUnitStatus(unit)) {
+        this.removeUnit(unit);
+        actions.push({ type: ActionType.UnitDestroyed, unitId: unit.id });
+        continue;
+      }
+
+      if (unit.currentFormation !== formation) {
+        actions.push({
+          type: ActionType.FormationChange,
+          unitId: unit.id,
+          formationId: unit.currentFormation,
+        });
+      }
+
+      const snapshot = snapshots.get(unit);
+
+      if (!snapshot) {
+        continue;
+      }
+
+      const action: UpdateUnitStateAction = {
+        type: ActionType.UpdateUnitState,
+        unitId: unit.id,
+      };
+
+      if (unit.hp !== snapshot.hp) action.hp = unit.hp;
+      if (unit.org !== snapshot.org) action.org = unit.org;
+      if (unit.status !== snapshot.status) action.status = unit.status;
+      if (unit.stamina !== snapshot.stamina && unit.stamina !== null) {
+        action.st = unit.stamina;
+      }
+      if (unit.ammo !== snapshot.ammo && unit.ammo !== null) {
+        action.am = unit.ammo;
+      }
+      if (unit.accumulatedTicks !== snapshot.accumulatedTicks) {
+        action.ac = unit.accumulatedTicks;
+      }
+
+      if (Object.keys(action).length > 2) {
+        actions.push(action);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Reports the changes of the state the units only need during the ticks: last velocity,
+   * effects, attack cooldown and stopped ticks. They change almost every tick, so they are
+   * sent once at the end of the turn.
+   * @param unitDtos - The units before the ticks.
+   * @returns The unit state updates.
+   */
+  private getTickStateUpdates(unitDtos: Map<ServerUnit, UnitDto>): AnyAction[] {
+    const actions: AnyAction[] = [];
+
+    for (const [unit, before] of unitDtos) {
+      if (!this.units.has(unit.id)) {
+        continue;
+      }
+
+      const after = unit.toDto();
+      const action: UpdateUnitStateAction = {
+        type: ActionType.UpdateUnitState,
+        unitId: unit.id,
+      };
+
+      if (String(after.lv) !== String(before.lv)) action.lv = after.lv ?? null;
+      if (JSON.stringify(after.eff) !== JSON.stringify(before.eff)) {
+        action.eff = after.eff ?? [];
+      }
+      if (after.acd !== before.acd) action.acd = after.acd ?? 0;
+      if (after.stt !== before.stt) action.stt = after.stt ?? 0;
+
+      if (Object.keys(action).length > 2) {
+        actions.push(action);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Advances the capture of the objectives. A team captures an objective when its units
+   * hold most of the capture pressure around it.
+   * @returns The objective update actions.
+   */
+  private updateObjectives(): AnyAction[] {
+    const { radius, pressureThreshold } =
+      this.gameDataManager.getGameRules().objectives;
+    const { ticksToCaptureSmall, ticksToCaptureBig } =
+      this.gameDataManager.getBattleType(
+        this.dynamicBattleType ?? DynamicBattleType.Combat
+      );
+    const actions: AnyAction[] = [];
+
+    for (const objective of this.objectives.values()) {
+      const pressures = new Map<number, number>();
+      let totalPressure = 0;
+
+      for (const unit of this.getNearbyUnits(objective.position, radius)) {
+        const { captureSpeed = 0 } =
+          this.gameDataManager.getUnitCategoryTemplate(unit.category);
+
+        if (captureSpeed <= 0 || unit.isRoutingOrRecovering()) {
+          continue;
+        }
+
+        pressures.set(unit.team, (pressures.get(unit.team) ?? 0) + captureSpeed);
+        totalPressure += captureSpeed;
+      }
+
+      let capturingTeam: number | null = null;
+
+      for (const [team, pressure] of pressures) {
+        if (
+          team !== objective.team &&
+          pressure / totalPressure >= 1 - pressureThreshold
+        ) {
+          capturingTeam = team;
+        }
+      }
+
+      if (capturingTeam === null) {
+        if (objective.captureProgress > 0) {
+          objective.captureProgress = 0;
+          actions.push({
+            type: ActionType.UpdateObjectiveState,
+            objectiveId: objective.id,
+            captureProgress: 0,
+          });
+        }
+        continue;
+      }
+
+      if (objective.team !== 0) {
+        for (const playerNumber of this.getAlivePlayersOfTeam(objective.team)) {
+          const player = this.players.get(playerNumber)!;
+          player.ticksUnderPressure = (player.ticksUnderPressure ?? 0) + 1;
+        }
+      }
+
+      const ticksToCapture =
+        objective.type === ObjectiveType.Big
+          ? ticksToCaptureBig
+          : ticksToCaptureSmall;
+
+      objective.captureProgress += 1 / ticksToCapture;
+
+      if (objective.captureProgress + CAPTURE_PROGRESS_EPSILON < 1) {
+        actions.push({
+          type: ActionType.UpdateObjectiveState,
+          objectiveId: objective.id,
+          captureProgress: objective.captureProgress,
+        });
+        continue;
+      }
+
+      if (!objective.isTeamObjective()) {
+        objective.player = this.getFirstPlayerOfTeam(capturingTeam);
+      }
+
+      objective.team = capturingTeam;
+      objective.captureProgress = 0;
+      this.vpService.clearTurnCache();
+
+      actions.push({
+        type: ActionType.UpdateObjectiveState,
+        objectiveId: objective.id,
+        player: objective.player,
+        captureProgress: 0,
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Refills the ammo of the units from the ammo reserve of their players.
+   */
+  private resupplyAmmo() {
+    const ammoRule = this.gameDataManager.getGameRules().ammo;
+
+    if (!ammoRule) {
+      return;
+    }
+
+    for (const unit of this.getUnits()) {
+      const { maxAmmo } = unit;
+      const player = this.players.get(unit.player);
+
+      if (maxAmmo === null || unit.ammo === null || !player) {
+        continue;
+      }
+
+      const amount = Math.min(
+        maxAmmo - unit.ammo,
+        maxAmmo * ammoRule.regenerationBaseRate,
+        player.ammoReserve
+      );
+
+      if (amount > 0) {
+        unit.ammo += amount;
+        player.ammoReserve -= amount;
+      }
+    }
+  }
+
+  /**
+   * Gets the units a shot of a unit can hit: the units of the other teams, and the allies
+   * whose formation isn't immune to friendly fire of the damage type of the shot.
+   */
+  private getShotObstacles(
+    shooter: ServerUnit,
+    damageTypeName: string
+  ): ShotObstacle<ServerUnit>[] {
+    const formationManager = this.gameDataManager.getFormationManager();
+
+    return this.getUnits()
+      .filter(
+        (unit) =>
+          unit.team !== shooter.team ||
+          (unit !== shooter &&
+            !formationManager.isFriendlyFireImmune(
+              unit.currentFormation,
+              damageTypeName
+            ))
+      )
+      .map((unit) => {
+        const formation = this.getUnitFormation(unit);
+
+        return {
+          unit,
+          circles: getCollisionCircles(unit.position, unit.rotation, formation),
+          passThrough: formation.projectilePassThrough,
+        };
+      });
+  }
+
+  /**
+   * Gets the height of the tile of a point minus the height of the tile of another.
+   */
+  private getElevationDifference(from: Point2, to: Point2): number {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const fromTile = getMapTile(this.map, from, TILE_SIZE);
+    const toTile = getMapTile(this.map, to, TILE_SIZE);
+
+    return (
+      (this.map.heightMap[fromTile.x]?.[fromTile.y] ?? 0) -
+      (this.map.heightMap[toTile.x]?.[toTile.y] ?? 0)
+    );
+  }
+
+  private isUnitVisibleToTeam(unit: IUnit, team: number): boolean {
+    if (unit.team === team) {
+      return true;
+    }
+
+    const fogOfWar = this.calculateFogOfWar(team);
+
+    return (
+      !fogOfWar ||
+      (fogOfWar.unitVisionLevels.get(unit.id) ?? VisionLevel.NotVisible) >
+        VisionLevel.NotVisible
+    );
+  }
+
+  private getAliveTeams(): number[] {
+    const teams = new Set(
+      this.getPlayers()
+        .filter((player) => !player.defeated)
+        .map((player) => player.team)
+    );
+
+    return [...teams].sort((a, b) => a - b);
+  }
+
+  private getTeamsState(): GameState["teams"] {
+    const teams = new Set(this.getPlayers().map((player) => player.team));
+
+    return [...teams]
+      .sort((a, b) => a - b)
+      .map((team) => ({
+        team,
+        armyPower: this.vpService.getTeamArmyPower(team),
+      }));
+  }
+
+  private getDefaultAmmoReserve(): number {
+    if (this.dynamicBattleType) {
+      return this.gameDataManager.getBattleType(this.dynamicBattleType)
+        .ammoReserve;
+    }
+
+    return this.gameDataManager.getGameRules().ammo?.baseReserve ?? 0;
+  }
+
+  /**
+   * Gets the part of the team deployment zone a player deploys in.
+   * The zone is split horizontally between the players of the team.
+   */
+  private getPlayerDeploymentZone(player: Player): Zone {
+    const zone = this.map.deploymentZones?.find(
+      (zone) => zone.team === player.team
+    );
+
+    if (!zone) {
+      throw new Error(`Team ${player.team} has no deployment zone`);
+    }
+
+    const teamPlayers = this.playerSetups
+      .filter((setup) => setup.team === player.team)
+      .map((setup) => setup.player)
+      .sort((a, b) => a - b);
+    const width = zone.width / teamPlayers.length;
+
+    return {
+      x: zone.x + teamPlayers.indexOf(player.playerNumber) * width,
+      y: zone.y,
+      width,
+      height: zone.height,
+    };
+  }
+
+  private addPlayerSetup(player: Player) {
+    if (
+      !this.playerSetups.some((setup) => setup.player === player.playerNumber)
+    ) {
+      this.playerSetups.push({
+        player: player.playerNumber,
+        team: player.team,
+      });
+    }
+  }
+
+  /**
+   * Makes sure new entity ids don't collide with the ids given in a list of DTOs.
+   */
+  private reserveEntityIds(dtos: { id?: EntityId }[]) {
+    for (const { id } of dtos) {
+      if (id !== undefined) {
+        this.nextEntityId = Math.max(this.nextEntityId, id + 1);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  EntityId,
+  IObjective,
+  ObjectiveDto,
+  ObjectiveType,
+} from "@lob-sdk/types";
+import { Vector2 } from "@lob-sdk/vector";
+
+/**
+ * An objective simulated by the {@link ServerGame}.
+ * Objectives owned by a team but not by a player are team objectives.
+ */
+export class ServerObjective implements IObjective {
+  id: EntityId;
+  name: string | null;
+  position: Vector2;
+  player: number;
+  team: number;
+  type: ObjectiveType;
+  /** Progress (0-1) of the current capture. */
+  captureProgress: number;
+  logistics?: number;
+  manpowerPerTurn?: number;
+  goldPerTurn?: number;
+  manpower?: number;
+  gold?: number;
+
+  /**
+   * Creates a new ServerObjective instance.
+   * @param dto - The objective data.
+   * @param team - The team owning the objective, 0 if it is neutral.
+   */
+  constructor(dto: ObjectiveDto, team: number) {
+    this.id = dto.id;
+    this.name = dto.name ?? null;
+    this.position = new Vector2(dto.pos.x, dto.pos.y);
+    this.player = dto.player ?? 0;
+    this.team = team;
+    this.type = dto.type ?? ObjectiveType.Small;
+    this.captureProgress = dto.captureProgress ?? 0;
+    this.logistics = dto.lo;
+    this.manpowerPerTurn = dto.mp;
+    this.goldPerTurn = dto.gp;
+    this.manpower = dto.m;
+    this.gold = dto.g;
+  }
+
+  /**
+   * Whether the objective is owned by a team but not by a specific player.
+   */
+  isTeamObjective(): boolean {
+    return this.player === 0 && this.team !== 0;
+  }
+
+  /**
+   * Converts the objective to its data transfer object.
+   * @returns The objective DTO.
+   */
+  toDto(): ObjectiveDto {
+    const dto: ObjectiveDto = {
+      id: this.id,
+      pos: { x: this.position.x, y: this.position.y },
+      type: this.type,
+    };
+
+    if (this.name !== null) dto.name = this.name;
+    if (this.player !== 0) dto.player = this.player;
+    if (this.isTeamObjective()) dto.team = this.team;
+    if (this.captureProgress > 0) dto.captureProgress = this.captureProgress;
+    if (this.logistics !== undefined) dto.lo = this.logistics;
+    if (this.manpowerPerTurn !== undefined) dto.mp = this.manpowerPerTurn;
+    if (this.goldPerTurn !== undefined) dto.gp = this.goldPerTurn;
+    if (this.manpower !== undefined) dto.m = this.manpower;
+    if (this.gold !== undefined) dto.g = this.gold;
+
+    return dto;
+  }
+}
@@ -0,0 +1,265 @@
+import {
+  EntityId,
+  IUnit,
+  RangeUnitTemplate,
+  UnitCategoryId,
+  UnitDto,
+  UnitEffectDto,
+  UnitEffectId,
+  UnitStatus,
+  UnitTemplate,
+  UnitType,
+} from "@lob-sdk/types";
+import {
+  GameDataManager,
+  RangedDamageTypeTemplate,
+} from "@lob-sdk/game-data-manager";
+import { Vector2 } from "@lob-sdk/vector";
+
+/**
+ * A unit simulated by the {@link ServerGame}.
+ * Holds the full mutable state of a unit and converts it from and to a {@link UnitDto}.
+ */
+export class ServerUnit implements IUnit {
+  id: EntityId;
+  name: string | null;
+  type: UnitType;
+  category: UnitCategoryId;
+  player: number;
+  team: number;
+  template: UnitTemplate;
+
+  hp: number;
+  org: number;
+  /** Current stamina, or null if the unit type has no stamina. */
+  stamina: number | null;
+  /** Current ammo, or null if the unit type has unlimited ammo. */
+  ammo: number | null;
+  supply: number | null;
+  supplyConsumption?: number;
+  status: UnitStatus;
+
+  position: Vector2;
+  /** Rotation in radians. */
+  rotation: number;
+  lastVelocity: Vector2 | null;
+
+  currentFormation: string;
+  pendingFormationId: string | null = null;
+  formationChangeTicksRemaining = 0;
+
+  /** Active effects as [effectId, remainingTicks, ...args]. */
+  effects: UnitEffectDto[];
+  /** Ticks the unit has been running in a row. */
+  accumulatedTicks: number;
+  /** Ticks left before the unit can attack again in melee. */
+  attackCooldown: number;
+  previousHeight: number | null;
+  previousHeightTicks: number | null;
+  /** Damage type ids the unit won't use on autofire. */
+  holdFireDamageTypes: number[];
+  entrenchment: number;
+  stoppedTicks: number;
+
+  private _maxRange: number;
+
+  /**
+   * Creates a new ServerUnit instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param dto - The unit data. Missing values are taken from the unit template.
+   * @param team - The team of the player owning the unit.
+   */
+  constructor(gameDataManager: GameDataManager, dto: UnitDto, team: number) {
+    const template = gameDataManager.getUnitTemplateManager().getTemplate(
+      dto.type
+    );
+    const { ammo } = template as RangeUnitTemplate;
+
+    this.id = dto.id;
+    this.name = dto.name ?? null;
+    this.type = dto.type;
+    this.category = template.category;
+    this.player = dto.player;
+    this.team = team;
+    this.template = template;
+
+    this.hp = dto.hp ?? template.hp;
+    this.org = dto.org ?? template.org;
+    this.stamina = dto.st ?? template.stamina ?? null;
+    this.ammo = dto.am ?? ammo ?? null;
+    this.supply = dto.su ?? template.supply ?? null;
+    this.supplyConsumption = template.supplyConsumption;
+    this.status = dto.status ?? UnitStatus.Standing;
+
+    this.position = new Vector2(dto.pos.x, dto.pos.y);
+    this.rotation = dto.rotation;
+    this.lastVelocity = dto.lv ? Vector2.fromArray(dto.lv) : null;
+
+    this.currentFormation = dto.f ?? template.defaultFormation;
+
+    this.effects = dto.eff?.map((effect) => [...effect]) ?? [];
+    this.accumulatedTicks = dto.ac ?? 0;
+    this.attackCooldown = dto.acd ?? 0;
+    this.previousHeight = dto.ph ?? null;
+    this.previousHeightTicks = dto.pht ?? null;
+    this.holdFireDamageTypes = dto.hfdt ? [...dto.hfdt] : [];
+    this.entrenchment = dto.en ?? 0;
+    this.stoppedTicks = dto.stt ?? 0;
+
+    this._maxRange = getMaxRange(gameDataManager, template);
+  }
+
+  /** Maximum HP of the unit type. */
+  get maxHp(): number {
+    return this.template.hp;
+  }
+
+  /** Maximum organization of the unit type. */
+  get maxOrg(): number {
+    return this.template.org;
+  }
+
+  /** Maximum stamina of the unit type, or null if it has no stamina. */
+  get maxStamina(): number | null {
+    return this.template.stamina ?? null;
+  }
+
+  /** Maximum ammo of the unit type, or null if it has unlimited ammo. */
+  get maxAmmo(): number | null {
+    return (this.template as RangeUnitTemplate).ammo ?? null;
+  }
+
+  /**
+   * Gets the maximum distance the unit can shoot at.
+   * @returns The range in pixels, or 0 if the unit has no ranged attack.
+   */
+  getMaxRange(): number {
+    return this._maxRange;
+  }
+
+  /**
+   * Whether the unit is routing.
+   */
+  isRouting(): boolean {
+    return this.status === UnitStatus.Routing;
+  }
+
+  /**
+   * Whether the unit is routing or recovering, so it can't receive orders.
+   */
+  isRoutingOrRecovering(): boolean {
+    return (
+      this.status === UnitStatus.Routing ||
+      this.status === UnitStatus.Recovering
+    );
+  }
+
+  /**
+   * Whether the unit has an effect active.
+   * @param effectId - The effect to check.
+   */
+  hasEffect(effectId: UnitEffectId): boolean {
+    return this.effects.some(([id]) => id === effectId);
+  }
+
+  /**
+   * Adds an effect to the unit, or refreshes its duration if it is already active.
+   * @param effectId - The effect to add.
+   * @param duration - Duration of the effect in ticks.
+   */
+  addEffect(effectId: UnitEffectId, duration: number) {
+    const effect = this.effects.find(([id]) => id === effectId);
+
+    if (effect) {
+      effect[1] = Math.max(effect[1], duration);
+    } else {
+      this.effects.push([effectId, duration]);
+    }
+  }
+
+  /**
+   * Advances the effects of the unit by one tick, removing the expired ones.
+   */
+  tickEffects() {
+    for (const effect of this.effects) {
+      effect[1]--;
+    }
+    this.effects = this.effects.filter(([, duration]) => duration > 0);
+  }
+
+  /**
+   * Gets the proportion of HP the unit has left.
+   * @returns A number between 0 and 1.
+   */
+  getHpProportion(): number {
+    return Math.max(0, this.hp / this.maxHp);
+  }
+
+  /**
+   * Gets the proportion of organization the unit has left.
+   * @returns The proportion. It can be negative for shattering units.
+   */
+  getOrgProportion(): number {
+    return this.org / this.maxOrg;
+  }
+
+  /**
+   * Converts the unit to its data transfer object.
+   * Optional fields are only included when they differ from their defaults.
+   * @returns The unit DTO.
+   */
+  toDto(): UnitDto {
+    const dto: UnitDto = {
+      id: this.id,
+      hp: this.hp,
+      org: this.org,
+      status: this.status,
+      pos: { x: this.position.x, y: this.position.y },
+      player: this.player,
+      rotation: this.rotation,
+      type: this.type,
+      f: this.currentFormation,
+    };
+
+    if (this.name !== null) dto.name = this.name;
+    if (this.stamina !== null) dto.st = this.stamina;
+    if (this.ammo !== null) dto.am = this.ammo;
+    if (this.supply !== null) dto.su = this.supply;
+    if (this.lastVelocity) dto.lv = this.lastVelocity.toArray();
+    if (this.effects.length > 0) {
+      dto.eff = this.effects.map((effect) => [...effect]);
+    }
+    if (this.accumulatedTicks > 0) dto.ac = this.accumulatedTicks;
+    if (this.attackCooldown > 0) dto.acd = this.attackCooldown;
+    if (this.previousHeight !== null) dto.ph = this.previousHeight;
+    if (this.previousHeightTicks !== null) dto.pht = this.previousHeightTicks;
+    if (this.holdFireDamageTypes.length > 0) {
+      dto.hfdt = [...this.holdFireDamageTypes];
+    }
+    if (this.entrenchment > 0) dto.en = this.entrenchment;
+    if (this.stoppedTicks > 0) dto.stt = this.stoppedTicks;
+
+    return dto;
+  }
+}
+
+function getMaxRange(
+  gameDataManager: GameDataManager,
+  template: UnitTemplate
+): number {
+  const { rangedDamageTypes } = template as RangeUnitTemplate;
+  let maxRange = 0;
+
+  for (const damageTypeName of rangedDamageTypes ?? []) {
+    const { ranges } =
+      gameDataManager.getDamageTypeByName<RangedDamageTypeTemplate>(
+        damageTypeName
+      );
+
+    for (const range of ranges) {
+      maxRange = Math.max(maxRange, range.end);
+    }
+  }
+
+  return maxRange;
+}
@@ -0,0 +1,108 @@
+import {
+  GameScenarioType,
+  GameState,
+  PresetScenario,
+  ScenarioName,
+  ServerGameProps,
+  UserTier,
+} from "@lob-sdk/types";
+import { GameDataManager, GameEra } from "@lob-sdk/game-data-manager";
+import { Random } from "@lob-sdk/random";
+import { ServerGame } from "./server-game";
+
+/**
+ * Creates a game for the tests, with players 1 and 2 unless the props give the players, and
+ * starts it unless the props say it already started. By default the game is a napoleonic game
+ * on an empty map of grass tiles, see {@link createTestState}.
+ * @param props - Props of the game that override the defaults.
+ * @returns The game.
+ */
+export function createTestGame(
+  props: Partial<ServerGameProps> = {}
+): ServerGame {
+  const game = new ServerGame({
+    id: 1,
+    era: "napoleonic",
+    scenarioName: "test",
+    dynamicBattleType: null,
+    scenarioType: GameScenarioType.Preset,
+    turnNumber: 1,
+    state: createTestState(),
+    players: [],
+    turnStartedTime: 0,
+    turnTimeLimit: 0,
+    started: false,
+    finished: false,
+    ranked: false,
+    givesRewards: false,
+    maxTurn: 0,
+    drawUnlockTurn: 10,
+    randomState: new Random(42).getState(),
+    ...props,
+  });
+
+  if (game.getPlayers().length === 0) {
+    game.addPlayer(
+      game.createPlayer(1, "Player 1", 1000, UserTier.Free, 1),
+      game.createPlayer(2, "Player 2", 1000, UserTier.Free, 2)
+    );
+  }
+
+  if (!game.started) {
+    game.start();
+  }
+
+  return game;
+}
+
+/**
+ * Creates the state of a test game, by default without units on a map of 64x64 grass tiles.
+ * @param state - Parts of the state that override the defaults.
+ * @returns The game state.
+ */
+export function createTestState(
+  state: Partial<GameState<true>> = {}
+): GameState<true> {
+  const { TILE_SIZE } = GameDataManager.get("napoleonic").getGameConstants();
+  const tiles = 64;
+
+  return {
+    players: [],
+    teams: [],
+    units: [],
+    map: {
+      width: tiles * TILE_SIZE,
+      height: tiles * TILE_SIZE,
+      terrains: Array.from({ length: tiles }, () => Array(tiles).fill(0)),
+      heightMap: Array.from({ length: tiles }, () => Array(tiles).fill(0)),
+    },
+    objectives: [],
+    triggers: [],
+    ...state,
+  };
+}
+
+/**
+ * Gets the props of a test game played on a preset scenario.
+ * @param era - The era of the scenario.
+ * @param scenarioName - The name of the scenario.
+ * @returns The props to pass to {@link createTestGame}.
+ */
+export function getScenarioProps(
+  era: GameEra,
+  scenarioName: ScenarioName
+): Partial<ServerGameProps> {
+  const scenario =
+    GameDataManager.get(era).getScenario<PresetScenario>(scenarioName);
+
+  return {
+    era,
+    scenarioName,
+    state: createTestState({
+      units: scenario.units,
+      map: scenario.map,
+      objectives: scenario.objectives,
+    }),
+    playerSetups: scenario.players,
+  };
+}
@@ -0,0 +1,559 @@
+import {
+  ActionType,
+  ConditionUnitsInZone,
+  GameEndReason,
+  GameTrigger,
+  GameTriggerActionType,
+  GameTriggerConditionType,
+  GameTriggerEventType,
+  ObjectiveDto,
+  OrderType,
+  TerrainType,
+  UnitDtoPartialId,
+  UnitStatus,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { createTestGame, createTestState } from "./test-utils";
+
+describe("TriggerSystem", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const { TILE_SIZE } = gameDataManager.getGameConstants();
+  const tiles = 64;
+
+  const units: UnitDtoPartialId[] = [
+    {
+      id: 1,
+      name: "Guard",
+      player: 1,
+      type: 1,
+      pos: { x: 200, y: 200 },
+      rotation: 0,
+    },
+    { id: 2, player: 2, type: 1, pos: { x: 800, y: 800 }, rotation: 0 },
+  ];
+
+  const createGame = (
+    triggers: GameTrigger[],
+    objectives: ObjectiveDto<false>[] = []
+  ) =>
+    createTestGame({ state: createTestState({ units, objectives, triggers }) });
+
+  it("should fire once triggers a single time and add their units", () => {
+    const reinforcements: GameTrigger = {
+      event: GameTriggerEventType.OnTurnStart,
+      conditions: [
+        { type: GameTriggerConditionType.IsTurnGreaterThan, value: 1 },
+      ],
+      actions: [
+        {
+          type: GameTriggerActionType.AddUnit,
+          value: [{ player: 2, type: 2, pos: { x: 900, y: 900 }, rotation: 0 }],
+        },
+      ],
+      once: true,
+    };
+    const game = createGame([reinforcements]);
+
+    game.executeTurn();
+    expect(game.triggerSystem.firedTriggers).toHaveLength(0);
+
+    game.executeTurn();
+    game.executeTurn();
+
+    expect(game.triggerSystem.firedTriggers).toEqual([
+      {
+        turn: 2,
+        event: GameTriggerEventType.OnTurnStart,
+        trigger: reinforcements,
+      },
+    ]);
+    expect(game.triggerSystem.triggers).toHaveLength(0);
+    expect(game.getState().triggers).toHaveLength(0);
+    expect(game.getUnitsOfPlayer(2)).toHaveLength(2);
+    expect(game.getPlayer(2)!.unitsGained).toEqual({ 2: 1 });
+  });
+
+  it("should record the actions of the triggers in the turn", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [{ type: GameTriggerConditionType.IsTurn, value: 1 }],
+        actions: [
+          {
+            type: GameTriggerActionType.AddUnit,
+            value: [
+              { player: 1, type: 1, pos: { x: 300, y: 300 }, rotation: 0 },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    game.executeTurn();
+
+    expect(game.lastActions).toContainEqual({
+      type: ActionType.AddUnits,
+      units: [expect.objectContaining({ player: 1, pos: { x: 300, y: 300 } })],
+    });
+  });
+
+  it("should set vars and check them in later events", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnEnd,
+        conditions: [
+          { type: GameTriggerConditionType.IsTurn, value: 1 },
+          {
+            type: GameTriggerConditionType.IsVar,
+            value: { name: "alarm", value: 1, not: true },
+          },
+        ],
+        actions: [
+          {
+            type: GameTriggerActionType.SetVar,
+            value: { name: "alarm", value: 1 },
+          },
+        ],
+      },
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [
+          {
+            type: GameTriggerConditionType.IsVar,
+            value: { name: "alarm", value: 1 },
+          },
+          { type: GameTriggerConditionType.IsUnitRouting, value: "Guard" },
+        ],
+        conditionLogic: "OR",
+        actions: [
+          {
+            type: GameTriggerActionType.ShowMessage,
+            value: { title: "Alarm", message: "The enemy is coming" },
+          },
+        ],
+      },
+    ]);
+
+    game.executeTurn();
+    expect(game.metadata.vars).toEqual({ alarm: 1 });
+    expect(game.clientEventsToSave.size).toBe(0);
+
+    game.executeTurn();
+    expect(game.clientEventsToSave.size).toBe(2);
+  });
+
+  it("should stop firing triggers when one of them ends the game", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnEnd,
+        conditions: [
+          {
+            type: GameTriggerConditionType.IsTurnMultipleOf,
+            value: { multiple: 2 },
+          },
+        ],
+        actions: [
+          {
+            type: GameTriggerActionType.EndGame,
+            value: { reason: GameEndReason.Victory },
+          },
+        ],
+      },
+      {
+        event: GameTriggerEventType.OnTurnEnd,
+        conditions: [],
+        actions: [
+          {
+            type: GameTriggerActionType.SetVar,
+            value: { name: "ended", value: 0 },
+          },
+        ],
+      },
+    ]);
+    const listener = jest.fn();
+    game.triggerSystem.events.on(GameTriggerEventType.OnTurnEnd, listener);
+
+    game.executeTurn();
+    game.metadata.vars = {};
+    game.executeTurn();
+
+    expect(game.finished).toBe(true);
+    expect(game.endReason).toBe(GameEndReason.Victory);
+    expect(game.metadata.vars).toEqual({});
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("should count the units inside a zone", () => {
+    const zone = { x: 100, y: 100, width: 200, height: 200 };
+    const fires = (value: Partial<ConditionUnitsInZone["value"]>) => {
+      const game = createGame([
+        {
+          event: GameTriggerEventType.OnTurnStart,
+          conditions: [
+            {
+              type: GameTriggerConditionType.UnitsInZone,
+              value: { zone, ...value },
+            },
+          ],
+          actions: [],
+        },
+      ]);
+
+      game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+
+      return game.triggerSystem.firedTriggers.length > 0;
+    };
+
+    expect(fires({})).toBe(true);
+    expect(fires({ player: 2 })).toBe(false);
+    expect(fires({ team: 1, category: "infantry" })).toBe(true);
+    expect(fires({ category: "cavalry" })).toBe(false);
+    expect(fires({ minCount: 2 })).toBe(false);
+    expect(fires({ player: 2, minCount: 0, maxCount: 0 })).toBe(true);
+  });
+
+  it("should check if a unit reached a point", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [
+          {
+            type: GameTriggerConditionType.UnitReachedPoint,
+            value: { name: "Guard", x: 230, y: 240, radius: 50 },
+          },
+        ],
+        actions: [],
+      },
+    ]);
+
+    game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+    expect(game.triggerSystem.firedTriggers).toHaveLength(1);
+
+    game.getUnitByName("Guard")!.position.x = 150;
+    game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+    expect(game.triggerSystem.firedTriggers).toHaveLength(1);
+  });
+
+  it("should check the army power and the routing units of the battle", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [
+          {
+            type: GameTriggerConditionType.TeamArmyPowerBelowPercent,
+            value: { team: 2, percent: 40 },
+          },
+          {
+            type: GameTriggerConditionType.VictoryPointDifferenceAbove,
+            value: { team: 1, value: 0 },
+          },
+          {
+            type: GameTriggerConditionType.UnitsRoutingCountAbove,
+            value: { team: 2, value: 0 },
+          },
+        ],
+        actions: [],
+      },
+    ]);
+    const enemy = game.getUnit(2)!;
+
+    enemy.hp = enemy.maxHp * 0.3;
+    game.vpService.updateArmiesPower();
+    game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+    expect(game.triggerSystem.firedTriggers).toHaveLength(0);
+
+    enemy.status = UnitStatus.Routing;
+    game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+    expect(game.triggerSystem.firedTriggers).toHaveLength(1);
+  });
+
+  it("should withdraw units without counting them as lost", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [],
+        actions: [
+          { type: GameTriggerActionType.WithdrawUnit, value: "Guard" },
+          { type: GameTriggerActionType.RemoveUnit, value: "Missing" },
+        ],
+      },
+    ]);
+    const initialArmyPower = game.vpService.getPlayerBaseArmyPower(1);
+
+    const actions = game.triggerSystem.handleEvent(
+      GameTriggerEventType.OnTurnStart
+    );
+
+    expect(actions).toEqual([{ type: ActionType.UnitDestroyed, unitId: 1 }]);
+    expect(game.getUnit(1)).toBeUndefined();
+    expect(game.vpService.getPlayerBaseArmyPower(1)).toBeLessThan(
+      initialArmyPower
+    );
+  });
+
+  it("should transfer units and objectives to other players", () => {
+    const game = createGame(
+      [
+        {
+          event: GameTriggerEventType.OnTurnStart,
+          conditions: [],
+          actions: [
+            {
+              type: GameTriggerActionType.TransferUnit,
+              value: { name: "Guard", player: 2 },
+            },
+            {
+              type: GameTriggerActionType.TransferObjective,
+              value: { name: "Bridge", player: 2 },
+            },
+            {
+              type: GameTriggerActionType.AddObjectiveResources,
+              value: { name: "Bridge", manpower: 100, gold: 50 },
+            },
+          ],
+        },
+      ],
+      [{ id: 10, name: "Bridge", player: 1, pos: { x: 500, y: 500 }, m: 20 }]
+    );
+
+    const actions = game.triggerSystem.handleEvent(
+      GameTriggerEventType.OnTurnStart
+    );
+
+    expect(actions).toEqual([
+      { type: ActionType.UpdateUnitState, unitId: 1, player: 2 },
+      {
+        type: ActionType.UpdateObjectiveState,
+        objectiveId: 10,
+        player: 2,
+        captureProgress: 0,
+      },
+      {
+        type: ActionType.UpdateObjectiveState,
+        objectiveId: 10,
+        m: 120,
+        g: 50,
+      },
+    ]);
+    expect(game.getUnit(1)!.team).toBe(2);
+    expect(game.getObjective(10)!.team).toBe(2);
+  });
+
+  it("should grant ammo and set formations", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [],
+        actions: [
+          {
+            type: GameTriggerActionType.GrantAmmo,
+            value: { player: 1, amount: 500 },
+          },
+          {
+            type: GameTriggerActionType.SetUnitFormation,
+            value: { name: "Guard", formationId: "square" },
+          },
+          {
+            type: GameTriggerActionType.SetUnitFormation,
+            value: { name: "Guard", formationId: "missing" },
+          },
+        ],
+      },
+    ]);
+    const ammoReserve = game.getPlayer(1)!.ammoReserve;
+
+    const actions = game.triggerSystem.handleEvent(
+      GameTriggerEventType.OnTurnStart
+    );
+
+    expect(game.getPlayer(1)!.ammoReserve).toBe(ammoReserve + 500);
+    expect(game.getUnit(1)!.currentFormation).toBe("square");
+    expect(actions).toEqual([
+      {
+        type: ActionType.UpdatePlayerState,
+        player: 1,
+        ammoReserve: ammoReserve + 500,
+      },
+      { type: ActionType.FormationChange, unitId: 1, formationId: "square" },
+    ]);
+  });
+
+  it("should change the terrain of an area without mutating the old map", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [],
+        actions: [
+          {
+            type: GameTriggerActionType.ChangeTerrain,
+            value: {
+              circle: {
+                x: 10 * TILE_SIZE,
+                y: 10 * TILE_SIZE,
+                radius: TILE_SIZE,
+              },
+              terrain: TerrainType.ShallowWater,
+            },
+          },
+          {
+            type: GameTriggerActionType.ChangeTerrain,
+            value: {
+              zone: { x: 0, y: 0, width: TILE_SIZE, height: TILE_SIZE / 4 },
+              height: 2,
+            },
+          },
+        ],
+      },
+    ]);
+    const { map } = game.getState();
+
+    const actions = game.triggerSystem.handleEvent(
+      GameTriggerEventType.OnTurnStart
+    );
+
+    expect(actions).toEqual([
+      {
+        type: ActionType.TerrainChange,
+        tiles: [
+          [9, 9, TerrainType.ShallowWater, 0],
+          [9, 10, TerrainType.ShallowWater, 0],
+          [10, 9, TerrainType.ShallowWater, 0],
+          [10, 10, TerrainType.ShallowWater, 0],
+        ],
+      },
+    ]);
+    expect(game.map.terrains[10][10]).toBe(TerrainType.ShallowWater);
+    expect(game.map.terrains[11][10]).toBe(TerrainType.Grass);
+    expect(map.terrains[10][10]).toBe(TerrainType.Grass);
+  });
+
+  it("should order units by their name", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [],
+        actions: [
+          {
+            type: GameTriggerActionType.OrderUnit,
+            value: {
+              type: OrderType.Walk,
+              unitName: "Guard",
+              path: [[400, 200]],
+            },
+          },
+        ],
+      },
+    ]);
+
+    game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+
+    expect(game.orderManager.getOrder(1)).toEqual(
+      expect.objectContaining({
+        id: 1,
+        type: OrderType.Walk,
+        path: [[400, 200]],
+      })
+    );
+  });
+
+  it("should carry out the orders given at the end of a turn in the next turn", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnEnd,
+        conditions: [{ type: GameTriggerConditionType.IsTurn, value: 1 }],
+        actions: [
+          {
+            type: GameTriggerActionType.OrderUnit,
+            value: {
+              type: OrderType.Walk,
+              unitName: "Guard",
+              path: [[400, 200]],
+            },
+          },
+        ],
+      },
+    ]);
+    const guard = game.getUnitByName("Guard")!;
+
+    game.executeTurn();
+    expect(guard.position.x).toBe(200);
+
+    game.executeTurn();
+    expect(guard.position.x).toBeGreaterThan(200);
+  });
+
+  it("should keep the orders given at the end of a turn when the game is saved and loaded", () => {
+    const game = createGame([
+      {
+        event: GameTriggerEventType.OnTurnEnd,
+        once: true,
+        conditions: [],
+        actions: [
+          {
+            type: GameTriggerActionType.OrderUnit,
+            value: {
+              type: OrderType.Walk,
+              unitName: "Guard",
+              path: [[400, 200]],
+            },
+          },
+        ],
+      },
+    ]);
+
+    game.executeTurn();
+
+    const gameData = game.getGameData(1, []);
+    const loadedGame = createTestGame({
+      turnNumber: gameData.turnNumber,
+      state: JSON.parse(JSON.stringify(gameData.gameState)),
+      players: JSON.parse(JSON.stringify(game.getPlayers())),
+      started: gameData.started,
+      randomState: gameData.randomState,
+      pendingOrders: JSON.parse(JSON.stringify(gameData.pendingOrders)),
+    });
+
+    game.executeTurn();
+    loadedGame.executeTurn();
+
+    const guard = loadedGame.getUnitByName("Guard")!;
+    expect(guard.position.x).toBeGreaterThan(200);
+    expect(loadedGame.getState()).toEqual(game.getState());
+  });
+
+  it("should spawn neutral objectives between the team objectives", () => {
+    const size = tiles * TILE_SIZE;
+    const game = createGame(
+      [
+        {
+          event: GameTriggerEventType.OnTurnStart,
+          conditions: [{ type: GameTriggerConditionType.IsTurn, value: 1 }],
+          actions: [
+            {
+              type: GameTriggerActionType.SpawnNeutralObjectives,
+              value: { amount: { combat: 3 }, spacing: 0.5 },
+            },
+          ],
+        },
+      ],
+      [
+        { team: 1, pos: { x: size / 2, y: 100 } },
+        { team: 2, pos: { x: size / 2, y: size - 100 } },
+      ]
+    );
+
+    game.triggerSystem.handleEvent(GameTriggerEventType.OnTurnStart);
+
+    const neutral = game
+      .getObjectives()
+      .filter((objective) => objective.team === 0)
+      .map((objective) => objective.position.toPoint())
+      .sort((a, b) => a.x - b.x);
+
+    expect(neutral).toEqual([
+      { x: size / 4, y: size / 2 },
+      { x: size / 2, y: size / 2 },
+      { x: (size * 3) / 4, y: size / 2 },
+    ]);
+  });
+});
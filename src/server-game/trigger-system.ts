@@ -0,0 +1,695 @@
+import {
+  ActionAddObjectiveResources,
+  ActionAddUnit,
+  ActionChangeTerrain,
+  ActionSpawnNeutralObjectives,
+  ActionType,
+  AnyAction,
+  AnyOrder,
+  ConditionUnitsInZone,
+  DynamicBattleType,
+  EntityId,
+  FiredTrigger,
+  GameClientEventType,
+  GameTrigger,
+  GameTriggerAction,
+  GameTriggerActionType,
+  GameTriggerCondition,
+  GameTriggerConditionType,
+  GameTriggerEventEmitter,
+  GameTriggerEventType,
+  ITriggerSystem,
+  ObjectiveType,
+  OrderType,
+  TerrainChangeTile,
+  TriggerOrderSpec,
+  UnitType,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { EventEmitter } from "@lob-sdk/event-emitter";
+import { Vector2 } from "@lob-sdk/vector";
+import { checkCommonTriggerCondition } from "@lob-sdk/triggers";
+import { applyTerrainChange, isPointInsideZone } from "@lob-sdk/utils";
+import { ServerGame } from "./server-game";
+import { getMapTile } from "./utils";
+
+/**
+ * Fires the triggers of a {@link ServerGame} and executes their actions.
+ *
+ * Triggers are checked when their event happens, in order. Their conditions are combined with
+ * their condition logic, "AND" by default. Triggers that fire once are removed from the game,
+ * so they are also gone from its saved state, and triggers added by other triggers are only
+ * checked from the next event on.
+ */
+export class TriggerSystem implements ITriggerSystem {
+  /** Triggers of the game that can still fire. */
+  triggers: GameTrigger[] = [];
+  /** Every trigger that has fired, in order. */
+  firedTriggers: FiredTrigger[] = [];
+  /** Emits each event after its triggers fire. */
+  events: GameTriggerEventEmitter = new EventEmitter();
+
+  /**
+   * Creates a new TriggerSystem instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game the triggers belong to.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  /**
+   * Replaces the triggers of the game.
+   * @param triggers - The new triggers.
+   */
+  setTriggers(triggers: GameTrigger[]) {
+    this.triggers = triggers;
+  }
+
+  /**
+   * Fires the triggers of an event whose conditions are met and executes their actions.
+   * @param event - The event that happened.
+   * @returns The actions clients need to stay in sync with the changes of the triggers.
+   */
+  handleEvent(event: GameTriggerEventType): AnyAction[] {
+    const actions: AnyAction[] = [];
+    const fired: FiredTrigger[] = [];
+
+    for (const trigger of this.triggers) {
+      if (this.game.finished) {
+        break;
+      }
+
+      if (trigger.event !== event || !this.checkConditions(trigger)) {
+        continue;
+      }
+
+      if (trigger.once) {
+        this.triggers = this.triggers.filter((other) => other !== trigger);
+      }
+
+      fired.push({ turn: this.game.turnNumber, event, trigger });
+
+      for (const action of trigger.actions) {
+        actions.push(...this.executeAction(action));
+      }
+    }
+
+    if (fired.length > 0) {
+      this.firedTriggers.push(...fired);
+      this.events.emit(event, fired);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Checks the conditions of a trigger with its condition logic.
+   */
+  private checkConditions(trigger: GameTrigger): boolean {
+    const check = (condition: GameTriggerCondition) =>
+      this.checkCondition(condition);
+
+    return trigger.conditionLogic === "OR"
+      ? trigger.conditions.some(check)
+      : trigger.conditions.every(check);
+  }
+
+  private checkCondition(condition: GameTriggerCondition): boolean {
+    switch (condition.type) {
+      case GameTriggerConditionType.IsTurn:
+      case GameTriggerConditionType.IsTurnMultipleOf:
+      case GameTriggerConditionType.IsTurnGreaterThan:
+      case GameTriggerConditionType.IsTurnLessThan:
+      case GameTriggerConditionType.Chance:
+      case GameTriggerConditionType.IsVar:
+        return checkCommonTriggerCondition(condition, {
+          turn: this.game.turnNumber,
+          vars: this.game.metadata.vars,
+          chance: (probability) => this.game.random.chance(probability),
+        });
+      case GameTriggerConditionType.ObjectiveBelongsTo: {
+        const { name, player, team } = condition.value;
+        const objective = this.game.getObjectiveByName(name);
+
+        return (
+          !!objective &&
+          (player === undefined || objective.player === player) &&
+          (team === undefined || objective.team === team)
+        );
+      }
+      case GameTriggerConditionType.IsUnitNotAlive:
+        return !this.game.getUnitByName(condition.value);
+      case GameTriggerConditionType.IsUnitRouting:
+        return !!this.game.getUnitByName(condition.value)?.isRouting();
+      case GameTriggerConditionType.UnitMovedThisTurn:
+        return this.hasUnitMovedThisTurn(condition.value);
+      case GameTriggerConditionType.UnitsInZone: {
+        const { minCount = 1, maxCount = Infinity } = condition.value;
+        const count = this.countUnitsInZone(condition.value);
+        return count >= minCount && count <= maxCount;
+      }
+      case GameTriggerConditionType.UnitReachedPoint: {
+        const { name, x, y, radius } = condition.value;
+        const unit = this.game.getUnitByName(name);
+
+        return (
+          !!unit && unit.position.squaredDistanceTo({ x, y }) <= radius * radius
+        );
+      }
+      case GameTriggerConditionType.TeamArmyPowerBelowPercent: {
+        const { team, percent } = condition.value;
+        const { vpService } = this.game;
+        const { initialArmyPower, currentArmyPower } =
+          vpService.getTeamVictoryStats(
+            team,
+            vpService.getObjectivesProportion(team)
+          );
+
+        return (
+          initialArmyPower > 0 &&
+          currentArmyPower < (initialArmyPower * percent) / 100
+        );
+      }
+      case GameTriggerConditionType.VictoryPointDifferenceAbove: {
+        const { team, value } = condition.value;
+        return this.game.vpService.getVictoryPointDifference(team) > value;
+      }
+      case GameTriggerConditionType.UnitsRoutingCountAbove: {
+        const { value, player, team } = condition.value;
+        const routing = this.game
+          .getUnits()
+          .filter(
+            (unit) =>
+              (player === undefined || unit.player === player) &&
+              (team === undefined || unit.team === team) &&
+              unit.isRouting()
+          );
+
+        return routing.length > value;
+      }
+      case GameTriggerConditionType.TicksUnderPressureAbove: {
+        const { player, value } = condition.value;
+        return this.game.vpService.getPlayerTicksUnderPressure(player) > value;
+      }
+    }
+  }
+
+  /**
+   * Counts the units inside a zone that pass the filters of a condition.
+   */
+  private countUnitsInZone({
+    zone,
+    player,
+    team,
+    category,
+  }: ConditionUnitsInZone["value"]): number {
+    return this.game
+      .getUnits()
+      .filter(
+        (unit) =>
+          (player === undefined || unit.player === player) &&
+          (team === undefined || unit.team === team) &&
+          (category === undefined || unit.category === category) &&
+          isPointInsideZone(zone, unit.position)
+      ).length;
+  }
+
+  /**
+   * Checks if a unit is away from where it was when the turn started.
+   */
+  private hasUnitMovedThisTurn(name: string): boolean {
+    const unit = this.game.getUnitByName(name);
+    const previous = this.game.previousState?.units.find(
+      (dto) => dto.id === unit?.id
+    );
+
+    return (
+      !!unit && !!previous && !Vector2.equal(previous.pos, unit.position)
+    );
+  }
+
+  private executeAction(action: GameTriggerAction): AnyAction[] {
+    switch (action.type) {
+      case GameTriggerActionType.AddUnit:
+        return this.addUnits(action.value);
+      case GameTriggerActionType.AddTrigger:
+        this.triggers = [...this.triggers, ...action.value];
+        return [];
+      case GameTriggerActionType.ShowMessage:
+        for (const userId of this.game.getUserIds()) {
+          this.game.clientEventsToSave.add({
+            gameId: this.game.id,
+            userId,
+            type: GameClientEventType.Message,
+            data: action.value,
+          });
+        }
+        return [];
+      case GameTriggerActionType.MoveCamera:
+        for (const userId of this.game.getUserIds()) {
+          this.game.clientEventsToSave.add({
+            gameId: this.game.id,
+            userId,
+            type: GameClientEventType.MoveCamera,
+            data: action.value,
+          });
+        }
+        return [];
+      case GameTriggerActionType.DefeatPlayer:
+        return this.game.defeatPlayerIfExists(action.value);
+      case GameTriggerActionType.SpawnNeutralObjectives:
+        return this.spawnNeutralObjectives(action.value);
+      case GameTriggerActionType.SetVar:
+        this.game.metadata.vars = {
+          ...this.game.metadata.vars,
+          [action.value.name]: action.value.value,
+        };
+        return [];
+      case GameTriggerActionType.EndGame:
+        this.game.finish(action.value.reason);
+        return [];
+      case GameTriggerActionType.OrderUnit:
+        this.orderUnit(action.value);
+        return [];
+      case GameTriggerActionType.RemoveUnit:
+        return this.removeUnit(action.value, false);
+      case GameTriggerActionType.WithdrawUnit:
+        return this.removeUnit(action.value, true);
+      case GameTriggerActionType.TransferUnit:
+        return this.transferUnit(action.value.name, action.value.player);
+      case GameTriggerActionType.TransferObjective:
+        return this.transferObjective(action.value.name, action.value.player);
+      case GameTriggerActionType.GrantAmmo: {
+        const { player, amount } = action.value;
+        const ammoReserve = this.game.getPlayer(player)?.ammoReserve;
+
+        if (ammoReserve === undefined) {
+          return [];
+        }
+
+        this.game.setPlayerAmmoReserve(player, ammoReserve + amount);
+        return [
+          {
+            type: ActionType.UpdatePlayerState,
+            player,
+            ammoReserve: this.game.getPlayer(player)!.ammoReserve,
+          },
+        ];
+      }
+      case GameTriggerActionType.AddObjectiveResources:
+        return this.addObjectiveResources(action.value);
+      case GameTriggerActionType.SetUnitFormation:
+        return this.setUnitFormation(
+          action.value.name,
+          action.value.formationId
+        );
+      case GameTriggerActionType.ChangeTerrain:
+        return this.changeTerrain(action.value);
+    }
+  }
+
+  /**
+   * Adds units to the game, counting them as units gained by their players.
+   */
+  private addUnits(dtos: ActionAddUnit["value"]): AnyAction[] {
+    const units = this.game.createUnits(dtos);
+
+    for (const unit of units) {
+      this.addToArmy(unit.player, unit.type);
+    }
+
+    if (units.length === 0) {
+      return [];
+    }
+
+    return [
+      { type: ActionType.AddUnits, units: units.map((unit) => unit.toDto()) },
+    ];
+  }
+
+  /**
+   * Removes a unit from the game by its name.
+   * @param withdraw - Whether the unit is withdrawn from the army of its player
+   * instead of being lost.
+   */
+  private removeUnit(name: string, withdraw: boolean): AnyAction[] {
+    const unit = this.game.getUnitByName(name);
+
+    if (!unit) {
+      return [];
+    }
+
+    this.game.removeUnit(unit);
+
+    if (withdraw) {
+      this.removeFromArmy(unit.player, unit.type);
+    }
+
+    this.game.vpService.updateArmiesPower();
+
+    return [{ type: ActionType.UnitDestroyed, unitId: unit.id }];
+  }
+
+  /**
+   * Gives a unit to another player. The unit moves from the army of its
+   * player to the units gained by the new one, and loses its order.
+   */
+  private transferUnit(name: string, playerNumber: number): AnyAction[] {
+    const unit = this.game.getUnitByName(name);
+
+    if (!unit || !this.game.getPlayer(playerNumber)) {
+      return [];
+    }
+
+    this.removeFromArmy(unit.player, unit.type);
+    this.addToArmy(playerNumber, unit.type);
+    this.game.orderManager.removeOrder(unit.id);
+
+    unit.player = playerNumber;
+    unit.team = this.game.getPlayerTeam(playerNumber);
+    this.game.vpService.updateArmiesPower();
+
+    return [
+      {
+        type: ActionType.UpdateUnitState,
+        unitId: unit.id,
+        player: playerNumber,
+      },
+    ];
+  }
+
+  private transferObjective(name: string, playerNumber: number): AnyAction[] {
+    const objective = this.game.getObjectiveByName(name);
+
+    if (!objective || !this.game.getPlayer(playerNumber)) {
+      return [];
+    }
+
+    objective.player = playerNumber;
+    objective.team = this.game.getPlayerTeam(playerNumber);
+    objective.captureProgress = 0;
+
+    return [
+      {
+        type: ActionType.UpdateObjectiveState,
+        objectiveId: objective.id,
+        player: playerNumber,
+        captureProgress: 0,
+      },
+    ];
+  }
+
+  private addObjectiveResources({
+    name,
+    manpower = 0,
+    gold = 0,
+  }: ActionAddObjectiveResources["value"]): AnyAction[] {
+    const objective = this.game.getObjectiveByName(name);
+
+    if (!objective) {
+      return [];
+    }
+
+    objective.manpower = (objective.manpower ?? 0) + manpower;
+    objective.gold = (objective.gold ?? 0) + gold;
+
+    return [
+      {
+        type: ActionType.UpdateObjectiveState,
+        objectiveId: objective.id,
+        m: objective.manpower,
+        g: objective.gold,
+      },
+    ];
+  }
+
+  /**
+   * Changes the formation of a unit instantly, cancelling any formation change in progress.
+   * The change is ignored if the formation isn't one of the formations of the unit type.
+   */
+  private setUnitFormation(name: string, formationId: string): AnyAction[] {
+    const unit = this.game.getUnitByName(name);
+
+    if (
+      !unit ||
+      !unit.template.formations.some(
+        (formation) => formation.id === formationId
+      )
+    ) {
+      return [];
+    }
+
+    unit.currentFormation = formationId;
+    unit.pendingFormationId = null;
+    unit.formationChangeTicksRemaining = 0;
+
+    return [{ type: ActionType.FormationChange, unitId: unit.id, formationId }];
+  }
+
+  /**
+   * Changes the terrain and height of the tiles whose center is inside a rectangle or circle.
+   * The map is replaced rather than mutated, so the previous state keeps the old terrain.
+   * Units already on the tiles stay where they are, even if the new terrain is impassable.
+   */
+  private changeTerrain({
+    zone,
+    circle,
+    terrain,
+    height,
+  }: ActionChangeTerrain["value"]): AnyAction[] {
+    const { TILE_SIZE } = this.gameDataManager.getGameConstants();
+    const { map } = this.game;
+    const area =
+      zone ??
+      (circle && {
+        x: circle.x - circle.radius,
+        y: circle.y - circle.radius,
+        width: circle.radius * 2,
+        height: circle.radius * 2,
+      });
+
+    if (!area) {
+      return [];
+    }
+
+    const min = getMapTile(map, area, TILE_SIZE);
+    const max = getMapTile(
+      map,
+      { x: area.x + area.width, y: area.y + area.height },
+      TILE_SIZE
+    );
+    const tiles: TerrainChangeTile[] = [];
+
+    for (let x = min.x; x <= max.x; x++) {
+      for (let y = min.y; y <= max.y; y++) {
+        const center = new Vector2((x + 0.5) * TILE_SIZE, (y + 0.5) * TILE_SIZE);
+        const inside = zone
+          ? isPointInsideZone(zone, center)
+          : center.distanceTo(circle!) <= circle!.radius;
+        const newTerrain = terrain ?? map.terrains[x][y];
+        const newHeight = height ?? map.heightMap[x][y];
+
+        if (
+          inside &&
+          (newTerrain !== map.terrains[x][y] ||
+            newHeight !== map.heightMap[x][y])
+        ) {
+          tiles.push([x, y, newTerrain, newHeight]);
+        }
+      }
+    }
+
+    if (tiles.length === 0) {
+      return [];
+    }
+
+    this.game.map = applyTerrainChange(map, tiles);
+
+    return [{ type: ActionType.TerrainChange, tiles }];
+  }
+
+  /**
+   * Counts a unit type as gained by a player, so it is part of its initial army power.
+   */
+  private addToArmy(playerNumber: number, unitType: UnitType) {
+    const player = this.game.getPlayer(playerNumber);
+
+    if (player) {
+      player.unitsGained = {
+        ...player.unitsGained,
+        [unitType]: (player.unitsGained?.[unitType] ?? 0) + 1,
+      };
+    }
+  }
+
+  /**
+   * Takes a unit type out of the initial army power of a player,
+   * from its units gained first and then from its army composition.
+   */
+  private removeFromArmy(playerNumber: number, unitType: UnitType) {
+    const player = this.game.getPlayer(playerNumber);
+
+    if (!player) {
+      return;
+    }
+
+    if (player.unitsGained?.[unitType]) {
+      player.unitsGained = {
+        ...player.unitsGained,
+        [unitType]: player.unitsGained[unitType] - 1,
+      };
+    } else if (player.armyComposition?.[unitType]) {
+      player.armyComposition = {
+        ...player.armyComposition,
+        [unitType]: player.armyComposition[unitType] - 1,
+      };
+    }
+  }
+
+  /**
+   * Gives an order to a unit by its name. Orders only last the turn they are given in, or the
+   * next one when given at the end of a turn, so the order is ignored if the unit doesn't exist,
+   * its target doesn't exist, its category can't use the order or the order lacks the target,
+   * path or position its type needs.
+   */
+  private orderUnit(spec: TriggerOrderSpec) {
+    const unit = this.game.getUnitByName(spec.unitName);
+    const target =
+      spec.targetName !== undefined
+        ? this.game.getUnitByName(spec.targetName)
+        : undefined;
+
+    if (
+      !unit ||
+      (spec.targetName !== undefined && !target) ||
+      !this.gameDataManager.canUseOrder(unit.category, spec.type)
+    ) {
+      return;
+    }
+
+    const order = createOrder(unit.id, spec, target?.id);
+
+    if (order) {
+      this.game.orderManager.setOrder(order);
+    }
+  }
+
+  /**
+   * Spawns small neutral objectives evenly along a line through the center of a box of the map.
+   * The line is perpendicular or parallel to the line between the objectives of the two teams,
+   * or horizontal if there are no team objectives.
+   */
+  private spawnNeutralObjectives(
+    value: ActionSpawnNeutralObjectives["value"]
+  ): AnyAction[] {
+    const {
+      spacing = 1,
+      amount,
+      minX = 0,
+      maxX = 1,
+      minY = 0,
+      maxY = 1,
+      orientation = "perpendicular",
+    } = value;
+    const count = amount
+      ? amount[this.game.dynamicBattleType ?? DynamicBattleType.Combat] ?? 0
+      : 1;
+
+    if (count <= 0) {
+      return [];
+    }
+
+    const { width, height } = this.game.map;
+    const boxSize = new Vector2((maxX - minX) * width, (maxY - minY) * height);
+    const center = new Vector2(
+      ((minX + maxX) / 2) * width,
+      ((minY + maxY) / 2) * height
+    );
+    const teamsAxis = this.getTeamsAxis();
+    const direction =
+      orientation === "parallel" ? teamsAxis : teamsAxis.perp();
+    const extent =
+      Math.abs(direction.x) * boxSize.x + Math.abs(direction.y) * boxSize.y;
+
+    const dtos = Array.from({ length: count }, (_, i) => {
+      const t = count > 1 ? i / (count - 1) - 0.5 : 0;
+      const pos = center.add(direction.scale(t * spacing * extent));
+
+      return { pos: pos.round().toPoint(), type: ObjectiveType.Small };
+    });
+    const objectives = this.game.createObjectives(dtos);
+
+    return [
+      {
+        type: ActionType.AddObjectives,
+        objectives: objectives.map((objective) => objective.toDto()),
+      },
+    ];
+  }
+
+  /**
+   * Gets the direction from the objectives of one team to the objectives of the other.
+   */
+  private getTeamsAxis(): Vector2 {
+    const positionsByTeam = new Map<number, Vector2[]>();
+
+    for (const objective of this.game.getObjectives()) {
+      if (objective.team === 0) {
+        continue;
+      }
+
+      const positions = positionsByTeam.get(objective.team) ?? [];
+      positions.push(objective.position);
+      positionsByTeam.set(objective.team, positions);
+    }
+
+    const [first, second] = [...positionsByTeam.keys()].sort((a, b) => a - b);
+
+    if (first === undefined || second === undefined) {
+      return new Vector2(0, 1);
+    }
+
+    const axis = Vector2.center(positionsByTeam.get(second)!).subtract(
+      Vector2.center(positionsByTeam.get(first)!)
+    );
+
+    return axis.isZero() ? new Vector2(0, 1) : axis.normalize();
+  }
+}
+
+/**
+ * Creates the order of a trigger for a unit, with a target, a path or a position depending on
+ * its type.
+ * @returns The order, or null if the spec lacks what its type needs.
+ */
+function createOrder(
+  id: EntityId,
+  spec: TriggerOrderSpec,
+  targetId: EntityId | undefined
+): AnyOrder | null {
+  const { type, path, pos, rotation } = spec;
+
+  switch (type) {
+    case OrderType.Walk:
+    case OrderType.Run:
+    case OrderType.FireAndAdvance:
+      if (targetId !== undefined) {
+        return { id, type, targetId };
+      }
+
+      return path ? { id, type, path, rotation } : null;
+    case OrderType.Fallback:
+      return path ? { id, type, path, rotation } : null;
+    case OrderType.Shoot:
+    case OrderType.Rotate:
+      if (targetId !== undefined) {
+        return { id, type, targetId };
+      }
+
+      return pos ? { id, type, pos } : null;
+    case OrderType.PlaceEntity:
+      return pos ? { id, type, pos, rotation } : null;
+  }
+}
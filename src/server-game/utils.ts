@@ -0,0 +1,113 @@
+import { Direction, FormationTemplate, GameMap } from "@lob-sdk/types";
+import { Point2, Vector2 } from "@lob-sdk/vector";
+import { degreesToRadians, getAngleDifference } from "@lob-sdk/utils";
+
+/**
+ * A collision circle of a unit in world coordinates.
+ */
+export interface CollisionCircle {
+  center: Vector2;
+  radius: number;
+}
+
+/**
+ * Gets the side of a unit that faces a point.
+ * @param position - Position of the unit.
+ * @param rotation - Rotation of the unit in radians.
+ * @param formation - Formation of the unit, which defines its front and back arcs.
+ * @param point - The point to check.
+ * @returns The side of the unit facing the point.
+ */
+export function getDirectionTo(
+  position: Vector2,
+  rotation: number,
+  formation: FormationTemplate,
+  point: Point2
+): Direction {
+  const angleToPoint = Math.atan2(point.y - position.y, point.x - position.x);
+  const difference = getAngleDifference(rotation, angleToPoint);
+  const halfArc = degreesToRadians(formation.frontBackArc) / 2;
+
+  if (Math.abs(difference) <= halfArc) {
+    return Direction.Front;
+  }
+
+  if (Math.abs(difference) >= Math.PI - halfArc) {
+    return Direction.Back;
+  }
+
+  return difference > 0 ? Direction.Right : Direction.Left;
+}
+
+/**
+ * Gets the collision circles of a unit in world coordinates.
+ * Circles are spread along the front of the unit, or along its depth for vertical formations.
+ * @param position - Position of the unit.
+ * @param rotation - Rotation of the unit in radians.
+ * @param formation - Formation of the unit.
+ * @returns The collision circles.
+ */
+export function getCollisionCircles(
+  position: Vector2,
+  rotation: number,
+  formation: FormationTemplate
+): CollisionCircle[] {
+  const {
+    collisionCircles,
+    collisionCircleSize,
+    collisionCircleDistance = collisionCircleSize,
+    collisionCirclesVertical = false,
+  } = formation;
+
+  const axis = Vector2.fromAngle(
+    collisionCirclesVertical ? rotation : rotation + Math.PI / 2
+  );
+  const radius = collisionCircleSize / 2;
+  const circles: CollisionCircle[] = [];
+
+  for (let i = 0; i < collisionCircles; i++) {
+    const offset = (i - (collisionCircles - 1) / 2) * collisionCircleDistance;
+    circles.push({ center: position.add(axis.scale(offset)), radius });
+  }
+
+  return circles;
+}
+
+/**
+ * Gets the tile of the map containing a point, clamped to the map bounds.
+ * @param map - The game map.
+ * @param point - The point in pixels.
+ * @param tileSize - Size of each tile in pixels.
+ * @returns The tile coordinates.
+ */
+export function getMapTile(
+  map: GameMap,
+  point: Point2,
+  tileSize: number
+): Point2 {
+  const tilesX = map.terrains.length;
+  const tilesY = map.terrains[0]?.length ?? 0;
+
+  return {
+    x: Math.min(tilesX - 1, Math.max(0, Math.floor(point.x / tileSize))),
+    y: Math.min(tilesY - 1, Math.max(0, Math.floor(point.y / tileSize))),
+  };
+}
+
+/**
+ * Gets the distance from the center of a formation to the edge of its farthest collision circle.
+ * @param formation - The formation.
+ * @returns The extent of the formation in pixels.
+ */
+export function getFormationExtent(formation: FormationTemplate): number {
+  const {
+    collisionCircles,
+    collisionCircleSize,
+    collisionCircleDistance = collisionCircleSize,
+  } = formation;
+
+  return (
+    ((collisionCircles - 1) / 2) * collisionCircleDistance +
+    collisionCircleSize / 2
+  );
+}
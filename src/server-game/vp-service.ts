@@ -0,0 +1,211 @@
+import {
+  GetVictoryPointsTeam,
+  IVpService,
+  ObjectiveType,
+  UnitCounts,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { ServerGame } from "./server-game";
+
+/**
+ * Weight of each objective type when calculating the objectives proportion of a team.
+ */
+const OBJECTIVE_WEIGHTS: Record<ObjectiveType, number> = {
+  [ObjectiveType.Small]: 1,
+  [ObjectiveType.Big]: 2,
+};
+
+/**
+ * Calculates army power and victory points of the teams of a {@link ServerGame}.
+ *
+ * The army power of a unit is its manpower and gold cost scaled by its HP proportion.
+ * The victory points of a team are `VP_BASE_POINTS` scaled by the army power it has left
+ * plus `VP_TOTAL_OBJECTIVE_POINTS` scaled by the objectives it owns.
+ */
+export class VpService implements IVpService {
+  private playerArmyPower = new Map<number, number>();
+  private victoryPointsCache = new Map<number, number>();
+
+  /**
+   * Creates a new VpService instance.
+   * @param gameDataManager - The game data manager of the game era.
+   * @param game - The game to calculate victory points for.
+   */
+  constructor(
+    private gameDataManager: GameDataManager,
+    private game: ServerGame
+  ) {}
+
+  getTeamVictoryPoints(team: number): number {
+    const cached = this.victoryPointsCache.get(team);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { VP_BASE_POINTS, VP_TOTAL_OBJECTIVE_POINTS, MIN_EFFECTIVE_VPS } =
+      this.gameDataManager.getGameConstants();
+
+    const { initialArmyPower, currentArmyPower, objectiveProportion } =
+      this.getTeamVictoryStats(team, this.getObjectivesProportion(team));
+
+    const armyProportion =
+      initialArmyPower > 0 ? currentArmyPower / initialArmyPower : 0;
+
+    const victoryPoints = Math.max(
+      MIN_EFFECTIVE_VPS,
+      VP_BASE_POINTS * armyProportion +
+        VP_TOTAL_OBJECTIVE_POINTS * objectiveProportion
+    );
+
+    this.victoryPointsCache.set(team, victoryPoints);
+
+    return victoryPoints;
+  }
+
+  getTeamVictoryStats(
+    team: number,
+    objectiveProportion: number
+  ): GetVictoryPointsTeam {
+    let initialArmyPower = 0;
+    let ticksUnderPressure: number | null = null;
+
+    const players = this.game
+      .getPlayers()
+      .filter((player) => player.team === team);
+
+    for (const player of players) {
+      initialArmyPower += this.getPlayerBaseArmyPower(player.playerNumber);
+
+      if (player.ticksUnderPressure !== null) {
+        ticksUnderPressure =
+          (ticksUnderPressure ?? 0) + player.ticksUnderPressure;
+      }
+    }
+
+    return {
+      initialArmyPower,
+      currentArmyPower: this.getTeamArmyPower(team),
+      objectiveProportion,
+      ticksUnderPressure,
+    };
+  }
+
+  getAllTeamsVictoryStats(): GetVictoryPointsTeam[] {
+    return this.getTeams().map((team) =>
+      this.getTeamVictoryStats(team, this.getObjectivesProportion(team))
+    );
+  }
+
+  getVictoryPointDifference(team: number): number {
+    const otherTeams = this.getTeams().filter((other) => other !== team);
+
+    if (otherTeams.length === 0) {
+      return this.getTeamVictoryPoints(team);
+    }
+
+    const bestOtherVictoryPoints = Math.max(
+      ...otherTeams.map((other) => this.getTeamVictoryPoints(other))
+    );
+
+    return this.getTeamVictoryPoints(team) - bestOtherVictoryPoints;
+  }
+
+  getPlayerTicksUnderPressure(playerNumber: number): number {
+    return this.game.getPlayer(playerNumber)?.ticksUnderPressure ?? 0;
+  }
+
+  clearTurnCache(): void {
+    this.victoryPointsCache.clear();
+  }
+
+  updateArmiesPower(): void {
+    this.playerArmyPower.clear();
+    this.victoryPointsCache.clear();
+
+    for (const player of this.game.getPlayers()) {
+      this.playerArmyPower.set(player.playerNumber, 0);
+    }
+
+    for (const unit of this.game.getUnits()) {
+      const power =
+        this.getUnitTypePower(unit.type) * unit.getHpProportion();
+
+      this.playerArmyPower.set(
+        unit.player,
+        (this.playerArmyPower.get(unit.player) ?? 0) + power
+      );
+    }
+  }
+
+  getPlayerBaseArmyPower(playerNumber: number): number {
+    const player = this.game.getPlayer(playerNumber);
+
+    if (!player) {
+      return 0;
+    }
+
+    return (
+      this.getUnitCountsPower(player.armyComposition) +
+      this.getUnitCountsPower(player.unitsGained)
+    );
+  }
+
+  getPlayerArmyPower(playerNumber: number): number {
+    return this.playerArmyPower.get(playerNumber) ?? 0;
+  }
+
+  getTeamArmyPower(team: number): number {
+    return this.game
+      .getPlayers()
+      .filter((player) => player.team === team)
+      .reduce(
+        (total, player) => total + this.getPlayerArmyPower(player.playerNumber),
+        0
+      );
+  }
+
+  getObjectivesProportion(team: number): number {
+    let totalWeight = 0;
+    let teamWeight = 0;
+
+    for (const objective of this.game.getObjectives()) {
+      const weight = OBJECTIVE_WEIGHTS[objective.type] ?? 1;
+      totalWeight += weight;
+
+      if (objective.team === team) {
+        teamWeight += weight;
+      }
+    }
+
+    return totalWeight > 0 ? teamWeight / totalWeight : 0;
+  }
+
+  private getTeams(): number[] {
+    const teams = new Set(
+      this.game.getPlayers().map((player) => player.team)
+    );
+    return [...teams].sort((a, b) => a - b);
+  }
+
+  private getUnitTypePower(unitType: number): number {
+    const { manpower, gold } = this.gameDataManager
+      .getUnitTemplateManager()
+      .getTemplate(unitType);
+
+    return manpower + gold;
+  }
+
+  private getUnitCountsPower(unitCounts: UnitCounts | null): number {
+    if (!unitCounts) {
+      return 0;
+    }
+
+    let power = 0;
+
+    for (const [unitType, count] of Object.entries(unitCounts)) {
+      power += this.getUnitTypePower(Number(unitType)) * count;
+    }
+
+    return power;
+  }
+}
@@ -0,0 +1,33 @@
+import { GameTriggerConditionType } from "@lob-sdk/types";
+import { CommonTriggerCondition, CommonTriggerConditionContext } from "./types";
+
+/**
+ * Checks a trigger condition that only depends on the turn, the game variables and chance.
+ * @param condition - The condition.
+ * @param context - The turn, variables and chance roll to check the condition against.
+ * @returns Whether the condition holds.
+ */
+export function checkCommonTriggerCondition(
+  condition: CommonTriggerCondition,
+  { turn, vars, chance }: CommonTriggerConditionContext
+): boolean {
+  switch (condition.type) {
+    case GameTriggerConditionType.IsTurn:
+      return turn === condition.value;
+    case GameTriggerConditionType.IsTurnMultipleOf: {
+      const { multiple, offset = 0 } = condition.value;
+      return turn >= offset && (turn - offset) % multiple === 0;
+    }
+    case GameTriggerConditionType.IsTurnGreaterThan:
+      return turn > condition.value;
+    case GameTriggerConditionType.IsTurnLessThan:
+      return turn < condition.value;
+    case GameTriggerConditionType.Chance:
+      return chance(condition.value);
+    case GameTriggerConditionType.IsVar: {
+      const { name, value, not } = condition.value;
+      const isValue = (vars?.[name] ?? 0) === value;
+      return not ? !isValue : isValue;
+    }
+  }
+}
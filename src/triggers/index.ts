@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./check-common-trigger-condition";
+export * from "./validate-triggers";
+export * from "./simulate-trigger-timeline";
@@ -0,0 +1,149 @@
+import {
+  GameClientEventType,
+  GameEndReason,
+  GameTriggerActionType,
+  GameTriggerConditionType,
+  GameTriggerEventType,
+  PresetScenario,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { simulateTriggerTimeline } from "./simulate-trigger-timeline";
+
+describe("simulateTriggerTimeline()", () => {
+  it("should preview the reinforcements of a scenario", () => {
+    const scenario = GameDataManager.get(
+      "napoleonic"
+    ).getScenario<PresetScenario>("waterloo");
+
+    const timeline = simulateTriggerTimeline(scenario.triggers!, {
+      maxTurn: 30,
+      gameId: 7,
+      userIds: [1, 2],
+    });
+
+    expect(timeline.map(({ turn }) => turn)).toEqual([9, 20, 22, 24]);
+    expect(timeline[0].clientEvents).toEqual([
+      expect.objectContaining({
+        id: 1,
+        gameId: 7,
+        userId: 1,
+        type: GameClientEventType.Message,
+      }),
+      expect.objectContaining({ id: 2, userId: 2 }),
+    ]);
+    expect(timeline[1].spawnedUnits).toHaveLength(25);
+    expect(
+      timeline.every(({ event }) => event === GameTriggerEventType.OnTurnStart)
+    ).toBe(true);
+  });
+
+  it("should follow the assumptions and the changes of earlier triggers", () => {
+    const timeline = simulateTriggerTimeline(
+      [
+        {
+          event: GameTriggerEventType.OnTurnEnd,
+          conditions: [
+            {
+              type: GameTriggerConditionType.ObjectiveBelongsTo,
+              value: { name: "Village", team: 2 },
+            },
+          ],
+          actions: [
+            {
+              type: GameTriggerActionType.SetVar,
+              value: { name: "lost", value: 1 },
+            },
+          ],
+          once: true,
+        },
+        {
+          event: GameTriggerEventType.OnTurnStart,
+          conditions: [
+            { type: GameTriggerConditionType.IsUnitNotAlive, value: "Guard" },
+          ],
+          conditionLogic: "OR",
+          actions: [
+            {
+              type: GameTriggerActionType.TransferObjective,
+              value: { name: "Village", player: 3 },
+            },
+          ],
+          once: true,
+        },
+        {
+          event: GameTriggerEventType.OnTurnStart,
+          conditions: [
+            {
+              type: GameTriggerConditionType.IsVar,
+              value: { name: "lost", value: 1 },
+            },
+            { type: GameTriggerConditionType.Chance, value: 0.1 },
+          ],
+          actions: [
+            {
+              type: GameTriggerActionType.EndGame,
+              value: { reason: GameEndReason.Victory },
+            },
+          ],
+        },
+        {
+          event: GameTriggerEventType.OnTurnStart,
+          conditions: [
+            { type: GameTriggerConditionType.IsTurnGreaterThan, value: 1 },
+          ],
+          actions: [
+            { type: GameTriggerActionType.RemoveUnit, value: "Guard" },
+          ],
+          once: true,
+        },
+      ],
+      {
+        maxTurn: 10,
+        assumptions: { objectiveOwners: { Village: 1 }, playerTeams: { 3: 2 } },
+      }
+    );
+
+    expect(
+      timeline.map(({ turn, event, trigger }) => [
+        turn,
+        event,
+        trigger.actions[0].type,
+      ])
+    ).toEqual([
+      [2, GameTriggerEventType.OnTurnStart, GameTriggerActionType.RemoveUnit],
+      [
+        3,
+        GameTriggerEventType.OnTurnStart,
+        GameTriggerActionType.TransferObjective,
+      ],
+      [3, GameTriggerEventType.OnTurnEnd, GameTriggerActionType.SetVar],
+      [4, GameTriggerEventType.OnTurnStart, GameTriggerActionType.EndGame],
+    ]);
+  });
+
+  it("should only find the objectives of the assumptions, like a game", () => {
+    const timeline = simulateTriggerTimeline(
+      ["Village", "Bridge"].map((name) => ({
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [
+          {
+            type: GameTriggerConditionType.ObjectiveBelongsTo,
+            value: { name },
+          },
+        ],
+        actions: [
+          {
+            type: GameTriggerActionType.TransferObjective,
+            value: { name, player: 2 },
+          },
+        ],
+        once: true,
+      })),
+      { maxTurn: 2, assumptions: { objectiveOwners: { Village: 0 } } }
+    );
+
+    expect(timeline.map(({ trigger }) => trigger.actions[0].value)).toEqual([
+      { name: "Village", player: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+import {
+  GameClientEventType,
+  GameTrigger,
+  GameTriggerActionType,
+  GameTriggerCondition,
+  GameTriggerConditionType,
+  GameTriggerEventType,
+  UnitDtoPartialId,
+} from "@lob-sdk/types";
+import { checkCommonTriggerCondition } from "./check-common-trigger-condition";
+import {
+  TriggerTimelineAssumptions,
+  TriggerTimelineEntry,
+  TriggerTimelineOptions,
+} from "./types";
+
+/**
+ * State of the battle as far as the triggers of a dry run can change it.
+ */
+interface TimelineState {
+  triggers: GameTrigger[];
+  objectiveOwners: Record<string, number>;
+  destroyedUnits: Set<string>;
+  vars: Record<string, number>;
+  finished: boolean;
+  nextEventId: number;
+}
+
+/**
+ * Previews which triggers fire on which turns without playing the battle.
+ *
+ * Turns 1 to `maxTurn` are walked firing the `onTurnStart` and `onTurnEnd` triggers the same
+ * way a game does, with the conditions that depend on the battle answered by the assumptions.
+ * The actions that change what other conditions check are applied along the way: variables are
+ * set, units are removed or added, objectives change owner, triggers are added and the dry run
+ * stops when a trigger ends the game. Everything else is only reported.
+ *
+ * @param triggers - The triggers of the scenario.
+ * @param options - The turns, assumptions and client event recipients of the dry run.
+ * @returns The triggers that fired, in order, with the units they spawned and the client
+ * events they sent.
+ */
+export function simulateTriggerTimeline(
+  triggers: GameTrigger[],
+  {
+    maxTurn,
+    assumptions = {},
+    gameId = 0,
+    userIds = [0],
+  }: TriggerTimelineOptions
+): TriggerTimelineEntry[] {
+  const state: TimelineState = {
+    triggers,
+    objectiveOwners: { ...assumptions.objectiveOwners },
+    destroyedUnits: new Set(assumptions.destroyedUnits),
+    vars: { ...assumptions.vars },
+    finished: false,
+    nextEventId: 1,
+  };
+  const timeline: TriggerTimelineEntry[] = [];
+  const events = [
+    GameTriggerEventType.OnTurnStart,
+    GameTriggerEventType.OnTurnEnd,
+  ];
+
+  for (let turn = 1; turn <= maxTurn && !state.finished; turn++) {
+    for (const event of events) {
+      for (const trigger of state.triggers) {
+        if (state.finished) {
+          break;
+        }
+
+        if (
+          trigger.event !== event ||
+          !checkConditions(trigger, turn, state, assumptions)
+        ) {
+          continue;
+        }
+
+        if (trigger.once) {
+          state.triggers = state.triggers.filter((other) => other !== trigger);
+        }
+
+        const entry: TriggerTimelineEntry = {
+          turn,
+          event,
+          trigger,
+          spawnedUnits: [],
+          clientEvents: [],
+        };
+
+        for (const action of trigger.actions) {
+          switch (action.type) {
+            case GameTriggerActionType.AddUnit:
+              entry.spawnedUnits.push(...action.value);
+              reviveUnits(state, action.value);
+              break;
+            case GameTriggerActionType.AddTrigger:
+              state.triggers = [...state.triggers, ...action.value];
+              break;
+            case GameTriggerActionType.ShowMessage:
+              for (const userId of userIds) {
+                entry.clientEvents.push({
+                  id: state.nextEventId++,
+                  gameId,
+                  userId,
+                  type: GameClientEventType.Message,
+                  data: action.value,
+                });
+              }
+              break;
+            case GameTriggerActionType.MoveCamera:
+              for (const userId of userIds) {
+                entry.clientEvents.push({
+                  id: state.nextEventId++,
+                  gameId,
+                  userId,
+                  type: GameClientEventType.MoveCamera,
+                  data: action.value,
+                });
+              }
+              break;
+            case GameTriggerActionType.SetVar:
+              state.vars[action.value.name] = action.value.value;
+              break;
+            case GameTriggerActionType.EndGame:
+              state.finished = true;
+              break;
+            case GameTriggerActionType.RemoveUnit:
+            case GameTriggerActionType.WithdrawUnit:
+              state.destroyedUnits.add(action.value);
+              break;
+            case GameTriggerActionType.TransferObjective:
+              if (action.value.name in state.objectiveOwners) {
+                state.objectiveOwners[action.value.name] = action.value.player;
+              }
+              break;
+          }
+        }
+
+        timeline.push(entry);
+      }
+    }
+  }
+
+  return timeline;
+}
+
+/**
+ * Checks the conditions of a trigger with its condition logic, like a game does.
+ */
+function checkConditions(
+  trigger: GameTrigger,
+  turn: number,
+  state: TimelineState,
+  assumptions: TriggerTimelineAssumptions
+): boolean {
+  const check = (condition: GameTriggerCondition) =>
+    assumptions.evaluateCondition?.(condition, turn) ??
+    checkCondition(condition, turn, state, assumptions);
+
+  return trigger.conditionLogic === "OR"
+    ? trigger.conditions.some(check)
+    : trigger.conditions.every(check);
+}
+
+function checkCondition(
+  condition: GameTriggerCondition,
+  turn: number,
+  state: TimelineState,
+  {
+    playerTeams,
+    routingUnits,
+    movingUnits,
+    chance = true,
+  }: TriggerTimelineAssumptions
+): boolean {
+  switch (condition.type) {
+    case GameTriggerConditionType.IsTurn:
+    case GameTriggerConditionType.IsTurnMultipleOf:
+    case GameTriggerConditionType.IsTurnGreaterThan:
+    case GameTriggerConditionType.IsTurnLessThan:
+    case GameTriggerConditionType.Chance:
+    case GameTriggerConditionType.IsVar:
+      return checkCommonTriggerCondition(condition, {
+        turn,
+        vars: state.vars,
+        chance: (probability) =>
+          typeof chance === "boolean" ? chance : chance.chance(probability),
+      });
+    case GameTriggerConditionType.ObjectiveBelongsTo: {
+      const { name, player, team } = condition.value;
+      const owner = state.objectiveOwners[name];
+
+      return (
+        owner !== undefined &&
+        (player === undefined || owner === player) &&
+        (team === undefined || (playerTeams?.[owner] ?? owner) === team)
+      );
+    }
+    case GameTriggerConditionType.IsUnitNotAlive:
+      return state.destroyedUnits.has(condition.value);
+    case GameTriggerConditionType.IsUnitRouting:
+      return (
+        !state.destroyedUnits.has(condition.value) &&
+        !!routingUnits?.includes(condition.value)
+      );
+    case GameTriggerConditionType.UnitMovedThisTurn:
+      return (
+        !state.destroyedUnits.has(condition.value) &&
+        !!movingUnits?.includes(condition.value)
+      );
+    case GameTriggerConditionType.UnitsInZone:
+    case GameTriggerConditionType.UnitReachedPoint:
+    case GameTriggerConditionType.TeamArmyPowerBelowPercent:
+    case GameTriggerConditionType.VictoryPointDifferenceAbove:
+    case GameTriggerConditionType.UnitsRoutingCountAbove:
+    case GameTriggerConditionType.TicksUnderPressureAbove:
+      return false;
+  }
+}
+
+/**
+ * Units added by a trigger are alive again, even if a unit with the same name was removed.
+ */
+function reviveUnits(state: TimelineState, units: UnitDtoPartialId[]) {
+  for (const { name } of units) {
+    if (name !== undefined) {
+      state.destroyedUnits.delete(name);
+    }
+  }
+}
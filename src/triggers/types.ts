@@ -0,0 +1,121 @@
+import {
+  FiredTrigger,
+  GameClientEventDto,
+  GameId,
+  GameTriggerCondition,
+  GameTriggerConditionType,
+  UnitDtoPartialId,
+} from "@lob-sdk/types";
+import { Random } from "@lob-sdk/random";
+
+/**
+ * Severity of a trigger diagnostic.
+ */
+export enum TriggerDiagnosticSeverity {
+  /** The trigger can't work as written. */
+  Error = "error",
+  /** The trigger works but probably not as intended. */
+  Warning = "warning",
+}
+
+/**
+ * Problem found in the trigger definitions of a scenario.
+ */
+export interface TriggerDiagnostic {
+  /** Severity of the problem. */
+  severity: TriggerDiagnosticSeverity;
+  /** JSON path of the problem in the scenario, e.g. `$.triggers[0].actions[1].value.name`. */
+  path: string;
+  /** Description of the problem. */
+  message: string;
+}
+
+/**
+ * Trigger conditions that only depend on the turn, the game variables and chance, which games
+ * and trigger timeline dry runs check the same way.
+ */
+export type CommonTriggerCondition = Extract<
+  GameTriggerCondition,
+  {
+    type:
+      | GameTriggerConditionType.IsTurn
+      | GameTriggerConditionType.IsTurnMultipleOf
+      | GameTriggerConditionType.IsTurnGreaterThan
+      | GameTriggerConditionType.IsTurnLessThan
+      | GameTriggerConditionType.Chance
+      | GameTriggerConditionType.IsVar;
+  }
+>;
+
+/**
+ * What the {@link CommonTriggerCondition} are checked against.
+ */
+export interface CommonTriggerConditionContext {
+  /** Current turn. */
+  turn: number;
+  /** Values of the game variables. Variables not listed are 0. */
+  vars?: Record<string, number>;
+  /**
+   * Rolls a chance condition.
+   * @param probability - Probability between 0 and 1.
+   * @returns Whether the condition holds.
+   */
+  chance: (probability: number) => boolean;
+}
+
+/**
+ * Assumptions about the state of the battle for a trigger timeline dry run,
+ * since the battle itself isn't played.
+ */
+export interface TriggerTimelineAssumptions {
+  /** Player owning each objective at the start by objective name, 0 if neutral. Objectives not listed are missing. */
+  objectiveOwners?: Record<string, number>;
+  /** Team of each player. Players not listed are their own team. */
+  playerTeams?: Record<number, number>;
+  /** Names of the units destroyed from the start. Units removed by triggers are added on the fly. */
+  destroyedUnits?: string[];
+  /** Names of the units routing on every turn. */
+  routingUnits?: string[];
+  /** Names of the units moving on every turn. */
+  movingUnits?: string[];
+  /** Initial values of the game variables. Variables not listed are 0. */
+  vars?: Record<string, number>;
+  /**
+   * Outcome of the chance conditions: true or false to force all of them,
+   * or a random number generator to roll them. Default: true.
+   */
+  chance?: boolean | Random;
+  /**
+   * Outcome of any condition, overriding the assumptions above when it returns a boolean.
+   * Conditions that depend on the battle (zones, army power, victory points, routing counts
+   * and pressure) are false unless this returns true for them.
+   */
+  evaluateCondition?: (
+    condition: GameTriggerCondition,
+    turn: number
+  ) => boolean | undefined;
+}
+
+/**
+ * Options of a trigger timeline dry run.
+ */
+export interface TriggerTimelineOptions {
+  /** Last turn to simulate. */
+  maxTurn: number;
+  /** Assumptions about the state of the battle. */
+  assumptions?: TriggerTimelineAssumptions;
+  /** ID of the game of the client events. Default: 0. */
+  gameId?: GameId;
+  /** Users the client events are sent to. Default: a single user 0. */
+  userIds?: number[];
+}
+
+/**
+ * Trigger that fired in a trigger timeline dry run, with what it produced.
+ */
+export interface TriggerTimelineEntry extends FiredTrigger {
+  /** Units added by the trigger. */
+  spawnedUnits: UnitDtoPartialId[];
+  /** Client events sent by the trigger. */
+  clientEvents: GameClientEventDto[];
+}
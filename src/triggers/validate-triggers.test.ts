@@ -0,0 +1,246 @@
+import {
+  GameScenarioType,
+  GameTrigger,
+  GameTriggerActionType,
+  GameTriggerConditionType,
+  GameTriggerEventType,
+  OrderType,
+  PresetScenario,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { TriggerDiagnosticSeverity } from "./types";
+import { validateTriggers } from "./validate-triggers";
+
+describe("validateTriggers()", () => {
+  const gameDataManager = GameDataManager.get("napoleonic");
+  const templates = gameDataManager.getUnitTemplateManager().getTemplates();
+  const infantry = templates.find((template) =>
+    gameDataManager.canUseOrder(template.category, OrderType.Fallback)
+  )!;
+  const artillery = templates.find(
+    (template) =>
+      !gameDataManager.canUseOrder(template.category, OrderType.Fallback)
+  )!;
+
+  const createScenario = (triggers: GameTrigger[]): PresetScenario => ({
+    name: "test",
+    description: "",
+    type: GameScenarioType.Preset,
+    map: { width: 1000, height: 1000, terrains: [], heightMap: [] },
+    players: [
+      { player: 1, team: 1 },
+      { player: 2, team: 2 },
+    ],
+    units: [
+      {
+        name: "Guard",
+        player: 1,
+        type: infantry.type,
+        pos: { x: 100, y: 100 },
+        rotation: 0,
+      },
+      {
+        name: "Battery",
+        player: 1,
+        type: artillery.type,
+        pos: { x: 200, y: 100 },
+        rotation: 0,
+      },
+    ],
+    objectives: [{ name: "Bridge", pos: { x: 500, y: 500 } }],
+    triggers,
+  });
+
+  it("should accept valid triggers", () => {
+    const scenario = createScenario([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [
+          {
+            type: GameTriggerConditionType.ObjectiveBelongsTo,
+            value: { name: "Bridge", team: 2 },
+          },
+          { type: GameTriggerConditionType.IsUnitRouting, value: "Reserve" },
+        ],
+        actions: [
+          {
+            type: GameTriggerActionType.OrderUnit,
+            value: {
+              type: OrderType.Shoot,
+              unitName: "Guard",
+              targetName: "Reserve",
+            },
+          },
+          {
+            type: GameTriggerActionType.SetUnitFormation,
+            value: { name: "Guard", formationId: infantry.defaultFormation },
+          },
+        ],
+        once: true,
+      },
+      {
+        event: GameTriggerEventType.OnTurnEnd,
+        conditions: [{ type: GameTriggerConditionType.IsTurn, value: 3 }],
+        actions: [
+          {
+            type: GameTriggerActionType.AddUnit,
+            value: [
+              {
+                name: "Reserve",
+                player: 2,
+                type: infantry.type,
+                pos: { x: 900, y: 900 },
+                rotation: 0,
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(validateTriggers(scenario, gameDataManager)).toEqual([]);
+  });
+
+  it("should report missing references and disallowed orders", () => {
+    const scenario = createScenario([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [
+          { type: GameTriggerConditionType.IsUnitNotAlive, value: "Ghost" },
+          {
+            type: GameTriggerConditionType.ObjectiveBelongsTo,
+            value: { name: "Castle", player: 3 },
+          },
+        ],
+        actions: [
+          {
+            type: GameTriggerActionType.OrderUnit,
+            value: { type: OrderType.Fallback, unitName: "Battery" },
+          },
+        ],
+        once: true,
+      },
+    ]);
+
+    expect(validateTriggers(scenario, gameDataManager)).toEqual([
+      {
+        severity: TriggerDiagnosticSeverity.Error,
+        path: "$.triggers[0].conditions[0].value",
+        message: 'Unit "Ghost" doesn\'t exist',
+      },
+      {
+        severity: TriggerDiagnosticSeverity.Error,
+        path: "$.triggers[0].conditions[1].value.name",
+        message: 'Objective "Castle" doesn\'t exist',
+      },
+      {
+        severity: TriggerDiagnosticSeverity.Error,
+        path: "$.triggers[0].conditions[1].value.player",
+        message: "Player 3 doesn't exist",
+      },
+      {
+        severity: TriggerDiagnosticSeverity.Error,
+        path: "$.triggers[0].actions[0].value.type",
+        message: `Unit category "${artillery.category}" can't use order "${OrderType.Fallback}"`,
+      },
+    ]);
+  });
+
+  it("should report repeating triggers and trigger chains", () => {
+    const scenario = createScenario([
+      {
+        event: GameTriggerEventType.OnTurnStart,
+        conditions: [],
+        actions: [
+          {
+            type: GameTriggerActionType.AddTrigger,
+            value: [
+              {
+                event: GameTriggerEventType.OnTurnEnd,
+                conditions: [
+                  {
+                    type: GameTriggerConditionType.IsVar,
+                    value: { name: "alarm", value: 1 },
+                  },
+                ],
+                actions: [],
+                once: true,
+              },
+            ],
+          },
+        ],
+        once: false,
+      },
+    ]);
+
+    expect(
+      validateTriggers(scenario, gameDataManager).map(
+        ({ severity, path }) => [severity, path]
+      )
+    ).toEqual([
+      [TriggerDiagnosticSeverity.Warning, "$.triggers[0].once"],
+      [TriggerDiagnosticSeverity.Error, "$.triggers[0].once"],
+      [
+        TriggerDiagnosticSeverity.Warning,
+        "$.triggers[0].actions[0].value[0].actions",
+      ],
+      [
+        TriggerDiagnosticSeverity.Warning,
+        "$.triggers[0].actions[0].value[0].conditions[0].value.name",
+      ],
+    ]);
+  });
+
+  it("should warn about repeating triggers whose turn conditions hold every turn", () => {
+    const createTrigger = (
+      conditions: GameTrigger["conditions"],
+      conditionLogic?: GameTrigger["conditionLogic"]
+    ): GameTrigger => ({
+      event: GameTriggerEventType.OnTurnStart,
+      conditions,
+      conditionLogic,
+      actions: [
+        {
+          type: GameTriggerActionType.SetVar,
+          value: { name: "alarm", value: 1 },
+        },
+      ],
+      once: false,
+    });
+    const scenario = createScenario([
+      createTrigger([
+        { type: GameTriggerConditionType.IsTurnGreaterThan, value: 0 },
+      ]),
+      createTrigger([
+        { type: GameTriggerConditionType.IsTurnLessThan, value: 5 },
+      ]),
+      createTrigger(
+        [
+          { type: GameTriggerConditionType.IsTurnLessThan, value: 5 },
+          {
+            type: GameTriggerConditionType.IsTurnMultipleOf,
+            value: { multiple: 1 },
+          },
+        ],
+        "OR"
+      ),
+      createTrigger([
+        { type: GameTriggerConditionType.IsTurnGreaterThan, value: 2 },
+        { type: GameTriggerConditionType.IsTurn, value: 4 },
+      ]),
+      createTrigger([
+        { type: GameTriggerConditionType.IsTurnGreaterThan, value: 2 },
+        { type: GameTriggerConditionType.IsUnitRouting, value: "Guard" },
+      ]),
+    ]);
+
+    expect(
+      validateTriggers(scenario, gameDataManager).map(
+        ({ severity, path }) => [severity, path]
+      )
+    ).toEqual([
+      [TriggerDiagnosticSeverity.Warning, "$.triggers[0].once"],
+      [TriggerDiagnosticSeverity.Warning, "$.triggers[2].once"],
+    ]);
+  });
+});
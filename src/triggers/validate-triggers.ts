@@ -0,0 +1,576 @@
+import {
+  GameEndReason,
+  GameMap,
+  GameScenario,
+  GameTrigger,
+  GameTriggerAction,
+  GameTriggerActionType,
+  GameTriggerCondition,
+  GameTriggerConditionType,
+  UnitType,
+} from "@lob-sdk/types";
+import { GameDataManager } from "@lob-sdk/game-data-manager";
+import { Point2 } from "@lob-sdk/vector";
+import { TriggerDiagnostic, TriggerDiagnosticSeverity } from "./types";
+
+/**
+ * What is known about a scenario to validate its triggers.
+ * Sets are null when the scenario generates them, so references to them can't be checked.
+ */
+interface ValidationContext {
+  gameDataManager: GameDataManager;
+  map: GameMap | null;
+  /** Types of the named units, including the units added by triggers. */
+  units: Map<string, UnitType> | null;
+  objectives: Set<string> | null;
+  players: Set<number> | null;
+  teams: Set<number> | null;
+  /** Variables set by any trigger. */
+  vars: Set<string>;
+  diagnostics: TriggerDiagnostic[];
+}
+
+/**
+ * Validates the triggers of a scenario without running it, including the triggers added by
+ * other triggers.
+ *
+ * Errors are reported for triggers that can't work as written: references to units, objectives,
+ * players or teams that don't exist, orders the unit category isn't allowed to use, values out of
+ * range and repeating triggers that add triggers every time they fire.
+ * Warnings are reported for triggers that work but probably not as intended, like repeating
+ * triggers that fire every turn, without conditions or with turn conditions that always hold
+ * after some turn, or variables that are never set.
+ *
+ * Units, objectives and players are only checked for the scenarios that define them.
+ *
+ * @param scenario - The scenario to validate.
+ * @param gameDataManager - The game data manager of the era.
+ * @returns The diagnostics found, empty if the triggers are valid.
+ */
+export function validateTriggers(
+  scenario: GameScenario,
+  gameDataManager: GameDataManager
+): TriggerDiagnostic[] {
+  const triggers = scenario.triggers ?? [];
+  const ctx: ValidationContext = {
+    gameDataManager,
+    map: "map" in scenario ? scenario.map : null,
+    units: null,
+    objectives: null,
+    players: null,
+    teams: null,
+    vars: new Set(),
+    diagnostics: [],
+  };
+
+  if ("units" in scenario && scenario.units) {
+    ctx.units = new Map();
+
+    for (const unit of scenario.units) {
+      if (unit.name !== undefined) {
+        ctx.units.set(unit.name, unit.type);
+      }
+    }
+  }
+
+  if ("objectives" in scenario && scenario.objectives) {
+    ctx.objectives = new Set();
+
+    for (const objective of scenario.objectives) {
+      if (objective.name !== undefined) {
+        ctx.objectives.add(objective.name);
+      }
+    }
+  }
+
+  if ("players" in scenario) {
+    ctx.players = new Set(scenario.players.map(({ player }) => player));
+    ctx.teams = new Set(scenario.players.map(({ team }) => team));
+  }
+
+  forEachTrigger(triggers, "$.triggers", (trigger) => {
+    for (const action of trigger.actions) {
+      if (action.type === GameTriggerActionType.AddUnit) {
+        for (const unit of action.value) {
+          if (unit.name !== undefined) {
+            ctx.units?.set(unit.name, unit.type);
+          }
+        }
+      } else if (action.type === GameTriggerActionType.SetVar) {
+        ctx.vars.add(action.value.name);
+      }
+    }
+  });
+
+  forEachTrigger(triggers, "$.triggers", (trigger, path) =>
+    validateTrigger(ctx, trigger, path)
+  );
+
+  return ctx.diagnostics;
+}
+
+/**
+ * Calls a function for each trigger and each trigger added by its actions, recursively.
+ */
+function forEachTrigger(
+  triggers: GameTrigger[],
+  path: string,
+  callback: (trigger: GameTrigger, path: string) => void
+) {
+  triggers.forEach((trigger, i) => {
+    const triggerPath = `${path}[${i}]`;
+
+    callback(trigger, triggerPath);
+
+    trigger.actions.forEach((action, j) => {
+      if (action.type === GameTriggerActionType.AddTrigger) {
+        forEachTrigger(
+          action.value,
+          `${triggerPath}.actions[${j}].value`,
+          callback
+        );
+      }
+    });
+  });
+}
+
+function validateTrigger(
+  ctx: ValidationContext,
+  trigger: GameTrigger,
+  path: string
+) {
+  const addsTriggers = trigger.actions.some(
+    (action) => action.type === GameTriggerActionType.AddTrigger
+  );
+  const firesOnce =
+    trigger.once ||
+    (trigger.conditionLogic !== "OR" &&
+      trigger.conditions.some(
+        (condition) => condition.type === GameTriggerConditionType.IsTurn
+      ));
+  const firesEveryTurn =
+    !firesOnce &&
+    (trigger.conditionLogic === "OR"
+      ? trigger.conditions.some(holdsEveryTurn)
+      : trigger.conditions.every(holdsEveryTurn));
+
+  if (trigger.actions.length === 0) {
+    warn(ctx, `${path}.actions`, "Trigger has no actions");
+  }
+
+  if (firesEveryTurn) {
+    warn(ctx, `${path}.once`, "Repeating trigger fires every turn");
+  }
+
+  if (!firesOnce && addsTriggers) {
+    error(
+      ctx,
+      `${path}.once`,
+      "Repeating trigger adds triggers every time it fires"
+    );
+  }
+
+  trigger.conditions.forEach((condition, i) =>
+    validateCondition(ctx, condition, `${path}.conditions[${i}]`)
+  );
+  trigger.actions.forEach((action, i) =>
+    validateAction(ctx, action, `${path}.actions[${i}]`)
+  );
+}
+
+/**
+ * Whether a condition holds on every turn from some turn on, whatever happens in the game.
+ */
+function holdsEveryTurn(condition: GameTriggerCondition) {
+  switch (condition.type) {
+    case GameTriggerConditionType.IsTurnGreaterThan:
+      return true;
+    case GameTriggerConditionType.IsTurnMultipleOf:
+      return condition.value.multiple === 1;
+    default:
+      return false;
+  }
+}
+
+function validateCondition(
+  ctx: ValidationContext,
+  condition: GameTriggerCondition,
+  path: string
+) {
+  const valuePath = `${path}.value`;
+
+  switch (condition.type) {
+    case GameTriggerConditionType.IsTurn:
+    case GameTriggerConditionType.IsTurnGreaterThan:
+    case GameTriggerConditionType.IsTurnLessThan:
+      checkInteger(ctx, valuePath, condition.value, 0);
+      break;
+    case GameTriggerConditionType.IsTurnMultipleOf:
+      checkInteger(ctx, `${valuePath}.multiple`, condition.value.multiple, 1);
+      if (condition.value.offset !== undefined) {
+        checkInteger(ctx, `${valuePath}.offset`, condition.value.offset, 0);
+      }
+      break;
+    case GameTriggerConditionType.ObjectiveBelongsTo:
+      checkObjective(ctx, `${valuePath}.name`, condition.value.name);
+      checkPlayer(ctx, `${valuePath}.player`, condition.value.player);
+      checkTeam(ctx, `${valuePath}.team`, condition.value.team);
+      break;
+    case GameTriggerConditionType.IsUnitNotAlive:
+    case GameTriggerConditionType.IsUnitRouting:
+    case GameTriggerConditionType.UnitMovedThisTurn:
+      checkUnit(ctx, valuePath, condition.value);
+      break;
+    case GameTriggerConditionType.Chance:
+      checkNumber(ctx, valuePath, condition.value, 0, 1);
+      break;
+    case GameTriggerConditionType.IsVar:
+      if (!ctx.vars.has(condition.value.name)) {
+        warn(
+          ctx,
+          `${valuePath}.name`,
+          `Variable "${condition.value.name}" is never set`
+        );
+      }
+      break;
+    case GameTriggerConditionType.UnitsInZone: {
+      const { zone, player, team, category, minCount, maxCount } =
+        condition.value;
+
+      checkNumber(ctx, `${valuePath}.zone.width`, zone.width, 0);
+      checkNumber(ctx, `${valuePath}.zone.height`, zone.height, 0);
+      checkPlayer(ctx, `${valuePath}.player`, player);
+      checkTeam(ctx, `${valuePath}.team`, team);
+
+      if (
+        category !== undefined &&
+        !ctx.gameDataManager
+          .getUnitCategories()
+          .some(({ id }) => id === category)
+      ) {
+        error(
+          ctx,
+          `${valuePath}.category`,
+          `Unit category "${category}" doesn't exist`
+        );
+      }
+
+      if (minCount !== undefined) {
+        checkInteger(ctx, `${valuePath}.minCount`, minCount, 0);
+      }
+
+      if (maxCount !== undefined) {
+        checkInteger(ctx, `${valuePath}.maxCount`, maxCount, minCount ?? 1);
+      }
+      break;
+    }
+    case GameTriggerConditionType.UnitReachedPoint:
+      checkUnit(ctx, `${valuePath}.name`, condition.value.name);
+      checkPoint(ctx, valuePath, condition.value);
+      checkNumber(ctx, `${valuePath}.radius`, condition.value.radius, 0);
+      break;
+    case GameTriggerConditionType.TeamArmyPowerBelowPercent:
+      checkTeam(ctx, `${valuePath}.team`, condition.value.team);
+      checkNumber(ctx, `${valuePath}.percent`, condition.value.percent, 0, 100);
+      break;
+    case GameTriggerConditionType.VictoryPointDifferenceAbove:
+      checkTeam(ctx, `${valuePath}.team`, condition.value.team);
+      break;
+    case GameTriggerConditionType.UnitsRoutingCountAbove:
+      checkPlayer(ctx, `${valuePath}.player`, condition.value.player);
+      checkTeam(ctx, `${valuePath}.team`, condition.value.team);
+      checkInteger(ctx, `${valuePath}.value`, condition.value.value, 0);
+      break;
+    case GameTriggerConditionType.TicksUnderPressureAbove:
+      checkPlayer(ctx, `${valuePath}.player`, condition.value.player);
+      checkInteger(ctx, `${valuePath}.value`, condition.value.value, 0);
+      break;
+    default:
+      error(
+        ctx,
+        `${path}.type`,
+        `Unknown condition type "${(condition as { type: unknown }).type}"`
+      );
+  }
+}
+
+function validateAction(
+  ctx: ValidationContext,
+  action: GameTriggerAction,
+  path: string
+) {
+  const valuePath = `${path}.value`;
+
+  switch (action.type) {
+    case GameTriggerActionType.AddUnit: {
+      const templateManager = ctx.gameDataManager.getUnitTemplateManager();
+
+      action.value.forEach((unit, i) => {
+        const unitPath = `${valuePath}[${i}]`;
+
+        if (
+          !templateManager.getTemplates().some(({ type }) => type === unit.type)
+        ) {
+          error(
+            ctx,
+            `${unitPath}.type`,
+            `Unit type ${unit.type} doesn't exist`
+          );
+        }
+
+        checkPlayer(ctx, `${unitPath}.player`, unit.player);
+        checkPoint(ctx, `${unitPath}.pos`, unit.pos);
+      });
+      break;
+    }
+    case GameTriggerActionType.AddTrigger:
+      // The added triggers are validated on their own.
+      break;
+    case GameTriggerActionType.ShowMessage:
+      if (!action.value.title && !action.value.message) {
+        warn(ctx, valuePath, "Message is empty");
+      }
+      break;
+    case GameTriggerActionType.MoveCamera:
+      checkPoint(ctx, valuePath, action.value);
+      checkNumber(ctx, `${valuePath}.duration`, action.value.duration, 0);
+      break;
+    case GameTriggerActionType.DefeatPlayer:
+      checkPlayer(ctx, valuePath, action.value);
+      break;
+    case GameTriggerActionType.SpawnNeutralObjectives: {
+      const { minX = 0, maxX = 1, minY = 0, maxY = 1 } = action.value;
+
+      checkNumber(ctx, `${valuePath}.minX`, minX, 0, maxX);
+      checkNumber(ctx, `${valuePath}.maxX`, maxX, minX, 1);
+      checkNumber(ctx, `${valuePath}.minY`, minY, 0, maxY);
+      checkNumber(ctx, `${valuePath}.maxY`, maxY, minY, 1);
+
+      for (const [battleType, amount] of Object.entries(
+        action.value.amount ?? {}
+      )) {
+        checkInteger(ctx, `${valuePath}.amount.${battleType}`, amount, 0);
+      }
+      break;
+    }
+    case GameTriggerActionType.SetVar:
+      if (!action.value.name) {
+        error(ctx, `${valuePath}.name`, "Variable name is empty");
+      }
+      break;
+    case GameTriggerActionType.EndGame:
+      if (!Object.values(GameEndReason).includes(action.value.reason)) {
+        error(
+          ctx,
+          `${valuePath}.reason`,
+          `Game end reason "${action.value.reason}" doesn't exist`
+        );
+      }
+      break;
+    case GameTriggerActionType.OrderUnit: {
+      const { unitName, targetName, type } = action.value;
+      const unitType = checkUnit(ctx, `${valuePath}.unitName`, unitName);
+
+      if (unitType !== undefined) {
+        const template = ctx.gameDataManager
+          .getUnitTemplateManager()
+          .getTemplates()
+          .find((template) => template.type === unitType);
+
+        if (
+          template &&
+          !ctx.gameDataManager.canUseOrder(template.category, type)
+        ) {
+          error(
+            ctx,
+            `${valuePath}.type`,
+            `Unit category "${template.category}" can't use order "${type}"`
+          );
+        }
+      }
+
+      if (targetName !== undefined) {
+        checkUnit(ctx, `${valuePath}.targetName`, targetName);
+      }
+      break;
+    }
+    case GameTriggerActionType.RemoveUnit:
+    case GameTriggerActionType.WithdrawUnit:
+      checkUnit(ctx, valuePath, action.value);
+      break;
+    case GameTriggerActionType.TransferUnit:
+      checkUnit(ctx, `${valuePath}.name`, action.value.name);
+      checkPlayer(ctx, `${valuePath}.player`, action.value.player);
+      break;
+    case GameTriggerActionType.TransferObjective:
+      checkObjective(ctx, `${valuePath}.name`, action.value.name);
+      checkPlayer(ctx, `${valuePath}.player`, action.value.player);
+      break;
+    case GameTriggerActionType.GrantAmmo:
+      checkPlayer(ctx, `${valuePath}.player`, action.value.player);
+      checkNumber(ctx, `${valuePath}.amount`, action.value.amount, 0);
+      break;
+    case GameTriggerActionType.AddObjectiveResources:
+      checkObjective(ctx, `${valuePath}.name`, action.value.name);
+
+      if (
+        action.value.manpower === undefined &&
+        action.value.gold === undefined
+      ) {
+        warn(ctx, valuePath, "No manpower or gold to add");
+      }
+      break;
+    case GameTriggerActionType.SetUnitFormation: {
+      const { name, formationId } = action.value;
+      const unitType = checkUnit(ctx, `${valuePath}.name`, name);
+
+      if (
+        unitType !== undefined &&
+        !ctx.gameDataManager
+          .getUnitTemplateManager()
+          .getFormation(unitType, formationId)
+      ) {
+        error(
+          ctx,
+          `${valuePath}.formationId`,
+          `Unit type ${unitType} has no formation "${formationId}"`
+        );
+      }
+      break;
+    }
+    case GameTriggerActionType.ChangeTerrain: {
+      const { zone, circle, terrain, height } = action.value;
+
+      if (zone) {
+        checkPoint(ctx, `${valuePath}.zone`, zone);
+      } else if (circle) {
+        checkPoint(ctx, `${valuePath}.circle`, circle);
+        checkNumber(ctx, `${valuePath}.circle.radius`, circle.radius, 0);
+      } else {
+        error(ctx, valuePath, "Terrain change has no zone or circle");
+      }
+
+      if (
+        terrain !== undefined &&
+        !ctx.gameDataManager.getTerrains().some(({ id }) => id === terrain)
+      ) {
+        error(ctx, `${valuePath}.terrain`, `Terrain ${terrain} doesn't exist`);
+      }
+
+      if (terrain === undefined && height === undefined) {
+        warn(ctx, valuePath, "No terrain or height to change");
+      }
+      break;
+    }
+    default:
+      error(
+        ctx,
+        `${path}.type`,
+        `Unknown action type "${(action as { type: unknown }).type}"`
+      );
+  }
+}
+
+/**
+ * Checks that a unit name exists.
+ * @returns The type of the unit, if it exists.
+ */
+function checkUnit(
+  ctx: ValidationContext,
+  path: string,
+  name: string
+): UnitType | undefined {
+  const type = ctx.units?.get(name);
+
+  if (ctx.units && type === undefined) {
+    error(ctx, path, `Unit "${name}" doesn't exist`);
+  }
+
+  return type;
+}
+
+function checkObjective(ctx: ValidationContext, path: string, name: string) {
+  if (ctx.objectives && !ctx.objectives.has(name)) {
+    error(ctx, path, `Objective "${name}" doesn't exist`);
+  }
+}
+
+function checkPlayer(
+  ctx: ValidationContext,
+  path: string,
+  player: number | undefined
+) {
+  if (player !== undefined && ctx.players && !ctx.players.has(player)) {
+    error(ctx, path, `Player ${player} doesn't exist`);
+  }
+}
+
+function checkTeam(
+  ctx: ValidationContext,
+  path: string,
+  team: number | undefined
+) {
+  if (team !== undefined && ctx.teams && !ctx.teams.has(team)) {
+    error(ctx, path, `Team ${team} doesn't exist`);
+  }
+}
+
+/**
+ * Checks that a point in pixels is inside the map.
+ */
+function checkPoint(ctx: ValidationContext, path: string, point: Point2) {
+  if (
+    ctx.map &&
+    (point.x < 0 ||
+      point.y < 0 ||
+      point.x > ctx.map.width ||
+      point.y > ctx.map.height)
+  ) {
+    error(ctx, path, `Point (${point.x}, ${point.y}) is outside the map`);
+  }
+}
+
+function checkNumber(
+  ctx: ValidationContext,
+  path: string,
+  value: number,
+  min: number,
+  max = Infinity
+) {
+  if (!Number.isFinite(value) || value < min || value > max) {
+    error(
+      ctx,
+      path,
+      max === Infinity
+        ? `Value ${value} must be at least ${min}`
+        : `Value ${value} must be between ${min} and ${max}`
+    );
+  }
+}
+
+function checkInteger(
+  ctx: ValidationContext,
+  path: string,
+  value: number,
+  min: number
+) {
+  if (!Number.isInteger(value) || value < min) {
+    error(ctx, path, `Value ${value} must be an integer of at least ${min}`);
+  }
+}
+
+function error(ctx: ValidationContext, path: string, message: string) {
+  ctx.diagnostics.push({
+    severity: TriggerDiagnosticSeverity.Error,
+    path,
+    message,
+  });
+}
+
+function warn(ctx: ValidationContext, path: string, message: string) {
+  ctx.diagnostics.push({
+    severity: TriggerDiagnosticSeverity.Warning,
+    path,
+    message,
+  });
+}
@@ -1,4 +1,11 @@
-import { EntityId, UnitDto, UnitStatus, ObjectiveDto } from "@lob-sdk/types";
+import {
+  EntityId,
+  UnitDto,
+  UnitEffectDto,
+  UnitStatus,
+  ObjectiveDto,
+  TerrainType,
+} from "@lob-sdk/types";
 
 /**
  * Type of action that occurred during game execution.
@@ -30,6 +37,12 @@ export enum ActionType {
   AddObjectives = 12,
   /** Action changing a unit's formation. */
   FormationChange = 13,
+  /** Action changing the terrain and height of map tiles. */
+  TerrainChange = 14,
+  /** Action when an objective is removed. */
+  ObjectiveDestroyed = 15,
+  /** Action updating a player's state. */
+  UpdatePlayerState = 16,
 }
 
 /**
@@ -123,9 +136,10 @@ export interface RangedAttackAction extends BaseAction {
   unitId: EntityId;
 
   /**
-   * Damage Type ID so the network payload is lighter.
+   * Damage Type ID so the network payload is lighter. Left out when the client can't tell
+   * the type of the unit.
    */
-  dt: number;
+  dt?: number;
 
   /**
    * Final Shot Segment - the final segment of the shot trajectory as [[x1, y1], [x2, y2]].
@@ -157,6 +171,8 @@ export interface UpdateUnitStateAction extends BaseAction {
   org?: number;
   /** New status, if changed. */
   status?: UnitStatus;
+  /** New player owning the unit, if changed. */
+  player?: number;
   /** Accumulated movement ticks, if changed. */
   ac?: number;
   /**
@@ -175,6 +191,26 @@ export interface UpdateUnitStateAction extends BaseAction {
    * Entrenchment change.
    */
   en?: number;
+  /**
+   * Last velocity change, null once the unit stopped. Sent at the end of the turn.
+   */
+  lv?: [number, number] | null;
+  /**
+   * Effects change. Sent at the end of the turn.
+   */
+  eff?: UnitEffectDto[];
+  /**
+   * Attack cooldown change. Sent at the end of the turn.
+   */
+  acd?: number;
+  /**
+   * Stopped ticks change. Sent at the end of the turn.
+   */
+  stt?: number;
+  /**
+   * Hold fire damage types change, empty when the unit fires with all of them.
+   */
+  hfdt?: number[];
 }
 
 /**
@@ -203,6 +239,22 @@ export interface UpdateObjectiveStateAction extends BaseAction {
   player?: number;
   /** Capture progress (0-1), if changed. */
   captureProgress?: number;
+  /** Accumulated manpower, if changed. */
+  m?: number;
+  /** Accumulated gold, if changed. */
+  g?: number;
+}
+
+/**
+ * Action updating a player's state.
+ */
+export interface UpdatePlayerStateAction extends BaseAction {
+  /** Action type is UpdatePlayerState. */
+  type: ActionType.UpdatePlayerState;
+  /** Number of the player being updated. */
+  player: number;
+  /** New ammo reserve, if changed. */
+  ammoReserve?: number;
 }
 
 /**
@@ -225,6 +277,16 @@ export interface AddObjectivesAction extends BaseAction {
   objectives: ObjectiveDto[];
 }
 
+/**
+ * Action representing when an objective is removed.
+ */
+export interface ObjectiveDestroyedAction extends BaseAction {
+  /** Action type is ObjectiveDestroyed. */
+  type: ActionType.ObjectiveDestroyed;
+  /** Entity ID of the removed objective. */
+  objectiveId: EntityId;
+}
+
 /**
  * Action changing a unit's formation.
  */
@@ -237,6 +299,21 @@ export interface FormationChangeAction extends BaseAction {
   formationId: string;
 }
 
+/**
+ * New terrain and height of a map tile, as [tileX, tileY, terrain, height].
+ */
+export type TerrainChangeTile = [number, number, TerrainType, number];
+
+/**
+ * Action changing the terrain and height of map tiles.
+ */
+export interface TerrainChangeAction extends BaseAction {
+  /** Action type is TerrainChange. */
+  type: ActionType.TerrainChange;
+  /** Tiles that changed. */
+  tiles: TerrainChangeTile[];
+}
+
 /**
  * Union type representing any valid action.
  */
@@ -250,7 +327,10 @@ export type AnyAction =
   | TickAction
   | PlaceEntityAction
   | UpdateObjectiveStateAction
+  | UpdatePlayerStateAction
   | AddUnitsAction
   | AddObjectivesAction
+  | ObjectiveDestroyedAction
   | FormationChangeAction
+  | TerrainChangeAction
   | TurnAction;
@@ -0,0 +1,28 @@
+import { AnyAction, CollisionData, IUnit } from "@lob-sdk/types";
+
+/**
+ * Detects the units of a game whose hitboxes overlap and pushes them apart.
+ */
+export interface ICollisionSystem {
+  /**
+   * Gets the collision level of a unit. Two units only collide if both levels are positive,
+   * and units with a higher level push the ones with a lower level out of their way.
+   * @param unit - The unit.
+   * @param againstEnemy - Whether the level is for collisions with enemies or with allies.
+   * @returns The collision level of the unit.
+   */
+  getCollisionLevel(unit: IUnit, againstEnemy: boolean): number;
+
+  /**
+   * Gets the colliding pairs of units.
+   * @param enemies - Whether to get the collisions between enemies or between allies.
+   * @returns The collision data of every colliding pair.
+   */
+  getCollisions(enemies: boolean): CollisionData[];
+
+  /**
+   * Pushes the colliding units apart by one tick.
+   * @returns The move actions of the pushed units.
+   */
+  update(): AnyAction[];
+}
@@ -12,4 +12,14 @@ export interface FogOfWarResult {
   unitVisionLevels: Map<EntityId, VisionLevel>; // Map of unit IDs to their vision levels
 }
 
-export interface IServerFogOfWarService {}
+/**
+ * Service that calculates what the units of each team can see.
+ */
+export interface IServerFogOfWarService {
+  /**
+   * Calculates the vision level of every unit for a team.
+   * @param team - The team looking at the units.
+   * @returns The vision levels by unit id.
+   */
+  calculate(team: number): FogOfWarResult;
+}
@@ -1,5 +1,6 @@
 export * from "./action";
 export * from "./attack-system";
+export * from "./collision-system";
 export * from "./fog-of-war";
 export * from "./instruction";
 export * from "./movement-system";
@@ -1 +1,13 @@
-export interface IMovementSystem {}
+import { AnyAction, IUnit } from "@lob-sdk/types";
+
+/**
+ * Moves the units of a game every tick according to their orders.
+ */
+export interface IMovementSystem {
+  /**
+   * Advances the movement and rotation of the units by one tick.
+   * @param engagedUnits - Units fighting in melee. They don't move.
+   * @returns The move and rotate actions of the tick.
+   */
+  update(engagedUnits: Set<IUnit>): AnyAction[];
+}
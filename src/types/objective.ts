@@ -12,6 +12,8 @@ export interface IObjective {
   player: number;
   team: number;
   type: ObjectiveType;
+  /** Progress (0-1) of the capture by another team. 0 or not set if nobody is capturing it. */
+  captureProgress?: number;
   logistics?: number;
   manpowerPerTurn?: number;
   goldPerTurn?: number;
@@ -1,7 +1,8 @@
-import { AnyAction, RangedAttackAction, TurnSubmission, PlayerInfo, UserTier, GameScenarioType, GameLocales, GameClientEventDto, GameTrigger, ITriggerSystem, UnitDtoPartialId, UnitType, UnitDto, IUnit, UnitCounts, ObjectiveDto, IObjective, GameMap, TerrainType, FogOfWarResult, IServerFogOfWarService, IVpService, IOrderManager, IOrganizationSystem, IAttackSystem, IMovementSystem, Player,  } from "@lob-sdk/types"
+import { AnyAction, AnyOrder, RangedAttackAction, TurnSubmission, PlayerInfo, UserTier, GameScenarioType, GameLocales, GameClientEventDto, GameTrigger, ITriggerSystem, UnitDtoPartialId, UnitType, UnitDto, IUnit, UnitCounts, ObjectiveDto, IObjective, GameMap, TerrainType, FogOfWarResult, IServerFogOfWarService, IVpService, IOrderManager, IOrganizationSystem, IAttackSystem, IMovementSystem, ICollisionSystem, Player,  } from "@lob-sdk/types"
 import { GameDataManager } from "@lob-sdk/game-data-manager"
 import { GameEra } from "@lob-sdk/game-data-manager";
 import { Point2, Vector2 } from "@lob-sdk/vector";
+import { Random, RandomState } from "@lob-sdk/random";
 
 /**
  * A unique identifier for game entities (units, objectives, etc.).
@@ -177,6 +178,10 @@ export interface GameData {
   createdAt: number;
   /** Additional metadata for the game. */
   metadata?: GameMetadata;
+  /** State of the game's random number generator, restored when the game is loaded. */
+  randomState?: RandomState;
+  /** Orders given by the turn end triggers, carried out in the next turn. */
+  pendingOrders?: AnyOrder[];
 }
 
 /**
@@ -397,6 +402,8 @@ export interface IServerGame {
   attackSystem: IAttackSystem;
   /** System for managing unit movement */
   movementSystem: IMovementSystem;
+  /** System for detecting and resolving collisions between units */
+  collisionSystem: ICollisionSystem;
   /** Turn number when draw offers become available */
   drawUnlockTurn: number;
   /** System for handling game triggers and events */
@@ -407,6 +414,10 @@ export interface IServerGame {
   clientEventsToSave: Set<Omit<GameClientEventDto, "id">>;
   /** Service for calculating fog of war visibility */
   fogOfWarService: IServerFogOfWarService;
+  /** Random number generator every random decision of the game goes through */
+  random: Random;
+  /** Additional game information, like the variables set by triggers */
+  metadata: GameMetadata;
 
   /**
    * Gets the team number for a player
@@ -681,13 +692,15 @@ export interface IServerGame {
   /**
    * Defeats a player, removing them from the game
    * @param playerNumber - The player number to defeat
+   * @returns The actions of the units removed
    */
-  defeatPlayer(playerNumber: number): void;
+  defeatPlayer(playerNumber: number): AnyAction[];
   /**
    * Defeats a player if they exist in the game
    * @param playerNumber - The player number to defeat
+   * @returns The actions of the units removed
    */
-  defeatPlayerIfExists(playerNumber: number): void;
+  defeatPlayerIfExists(playerNumber: number): AnyAction[];
   /**
    * Gets the winning team number
    * @returns The winning team number, or null if no winner
@@ -1037,6 +1050,10 @@ export interface ServerGameProps {
   createdAt?: number;
   /** Additional metadata for the game. */
   metadata?: GameMetadata;
+  /** Saved state of the game's random number generator. If not provided, a new seed is used. */
+  randomState?: RandomState;
+  /** Orders given by the turn end triggers of the previous turn, carried out in the current turn. */
+  pendingOrders?: AnyOrder[];
 }
 
 /**
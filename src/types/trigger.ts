@@ -6,6 +6,10 @@ import {
   GameEndReason,
   DynamicBattleType,
   GameId,
+  AnyAction,
+  Zone,
+  UnitCategoryId,
+  TerrainType,
 } from "@lob-sdk/types";
 
 /**
@@ -42,6 +46,18 @@ export enum GameTriggerConditionType {
   Chance = "chance",
   /** Check if a game variable has a specific value. */
   IsVar = "isVar",
+  /** Check if a number of units are inside a zone. */
+  UnitsInZone = "unitsInZone",
+  /** Check if a unit is within a radius of a point. */
+  UnitReachedPoint = "unitReachedPoint",
+  /** Check if the army power of a team is below a percentage of its initial army power. */
+  TeamArmyPowerBelowPercent = "teamArmyPowerBelowPercent",
+  /** Check if the victory points of a team are ahead of the best other team by more than a value. */
+  VictoryPointDifferenceAbove = "victoryPointDifferenceAbove",
+  /** Check if the number of routing units is greater than a value. */
+  UnitsRoutingCountAbove = "unitsRoutingCountAbove",
+  /** Check if a player has been under pressure for more than a number of ticks. */
+  TicksUnderPressureAbove = "ticksUnderPressureAbove",
 }
 
 /**
@@ -163,6 +179,111 @@ interface ConditionIsVar {
   };
 }
 
+/**
+ * Condition checking the number of units inside a zone.
+ */
+export interface ConditionUnitsInZone {
+  /** Condition type is UnitsInZone. */
+  type: GameTriggerConditionType.UnitsInZone;
+  /** Configuration for the zone check. */
+  value: {
+    /** Zone to count the units in, in pixels. */
+    zone: Zone;
+    /** Optional player number the units must belong to. */
+    player?: number;
+    /** Optional team number the units must belong to. */
+    team?: number;
+    /** Optional category the units must be of. */
+    category?: UnitCategoryId;
+    /** Minimum number of units inside the zone. Default is 1. */
+    minCount?: number;
+    /** Optional maximum number of units inside the zone. */
+    maxCount?: number;
+  };
+}
+
+/**
+ * Condition checking if a unit is within a radius of a point.
+ */
+interface ConditionUnitReachedPoint {
+  /** Condition type is UnitReachedPoint. */
+  type: GameTriggerConditionType.UnitReachedPoint;
+  /** Configuration for the point check. */
+  value: {
+    /** Unit name to check. */
+    name: string;
+    /** X coordinate of the point. */
+    x: number;
+    /** Y coordinate of the point. */
+    y: number;
+    /** Distance to the point the unit must be within. */
+    radius: number;
+  };
+}
+
+/**
+ * Condition checking if the army power of a team is below a percentage of its initial army power.
+ */
+interface ConditionTeamArmyPowerBelowPercent {
+  /** Condition type is TeamArmyPowerBelowPercent. */
+  type: GameTriggerConditionType.TeamArmyPowerBelowPercent;
+  /** Configuration for the army power check. */
+  value: {
+    /** Team number to check. */
+    team: number;
+    /** Percentage of the initial army power (0-100). */
+    percent: number;
+  };
+}
+
+/**
+ * Condition checking if the victory point difference of a team is greater than a value.
+ * The difference is negative when the team is behind.
+ */
+interface ConditionVictoryPointDifferenceAbove {
+  /** Condition type is VictoryPointDifferenceAbove. */
+  type: GameTriggerConditionType.VictoryPointDifferenceAbove;
+  /** Configuration for the victory points check. */
+  value: {
+    /** Team number to check. */
+    team: number;
+    /** Victory point difference threshold. */
+    value: number;
+  };
+}
+
+/**
+ * Condition checking if the number of routing units is greater than a value.
+ */
+interface ConditionUnitsRoutingCountAbove {
+  /** Condition type is UnitsRoutingCountAbove. */
+  type: GameTriggerConditionType.UnitsRoutingCountAbove;
+  /** Configuration for the routing units check. */
+  value: {
+    /** Number of routing units threshold. */
+    value: number;
+    /** Optional player number the units must belong to. */
+    player?: number;
+    /** Optional team number the units must belong to. */
+    team?: number;
+  };
+}
+
+/**
+ * Condition checking if a player has been under pressure for more than a number of ticks.
+ */
+interface ConditionTicksUnderPressureAbove {
+  /** Condition type is TicksUnderPressureAbove. */
+  type: GameTriggerConditionType.TicksUnderPressureAbove;
+  /** Configuration for the pressure check. */
+  value: {
+    /** Player number to check. */
+    player: number;
+    /** Ticks under pressure threshold. */
+    value: number;
+  };
+}
+
 /**
  * Union type representing any valid game trigger condition.
  */
@@ -176,7 +297,13 @@ export type GameTriggerCondition =
   | ConditionIsTurnLessThan
   | ConditionChance
   | ConditionUnitMovedThisTurn
-  | ConditionIsVar;
+  | ConditionIsVar
+  | ConditionUnitsInZone
+  | ConditionUnitReachedPoint
+  | ConditionTeamArmyPowerBelowPercent
+  | ConditionVictoryPointDifferenceAbove
+  | ConditionUnitsRoutingCountAbove
+  | ConditionTicksUnderPressureAbove;
 
 /**
  * Type of action that can be executed by a game trigger.
@@ -200,6 +327,22 @@ export enum GameTriggerActionType {
   EndGame = "endGame",
   /** Action to give an order to a unit. */
   OrderUnit = "orderUnit",
+  /** Action to destroy a unit. */
+  RemoveUnit = "removeUnit",
+  /** Action to take a unit off the field without counting it as lost. */
+  WithdrawUnit = "withdrawUnit",
+  /** Action to give a unit to another player. */
+  TransferUnit = "transferUnit",
+  /** Action to give an objective to another player. */
+  TransferObjective = "transferObjective",
+  /** Action to add ammo to the ammo reserve of a player. */
+  GrantAmmo = "grantAmmo",
+  /** Action to add manpower and gold to an objective. */
+  AddObjectiveResources = "addObjectiveResources",
+  /** Action to change the formation of a unit. */
+  SetUnitFormation = "setUnitFormation",
+  /** Action to change the terrain and height of an area of the map. */
+  ChangeTerrain = "changeTerrain",
 }
 
 /**
@@ -353,6 +496,132 @@ export interface ActionOrderUnit {
   value: TriggerOrderSpec;
 }
 
+/**
+ * Action to destroy a unit.
+ */
+interface ActionRemoveUnit {
+  /** Action type is RemoveUnit. */
+  type: GameTriggerActionType.RemoveUnit;
+  /** Unit name to remove. */
+  value: string;
+}
+
+/**
+ * Action to take a unit off the field. The unit is no longer part of the
+ * army of its player, so it doesn't count as lost for the victory points.
+ */
+interface ActionWithdrawUnit {
+  /** Action type is WithdrawUnit. */
+  type: GameTriggerActionType.WithdrawUnit;
+  /** Unit name to withdraw. */
+  value: string;
+}
+
+/**
+ * Action to give a unit to another player.
+ */
+interface ActionTransferUnit {
+  /** Action type is TransferUnit. */
+  type: GameTriggerActionType.TransferUnit;
+  /** Transfer configuration. */
+  value: {
+    /** Unit name to transfer. */
+    name: string;
+    /** Player number receiving the unit. */
+    player: number;
+  };
+}
+
+/**
+ * Action to give an objective to another player.
+ */
+interface ActionTransferObjective {
+  /** Action type is TransferObjective. */
+  type: GameTriggerActionType.TransferObjective;
+  /** Transfer configuration. */
+  value: {
+    /** Objective name to transfer. */
+    name: string;
+    /** Player number receiving the objective. */
+    player: number;
+  };
+}
+
+/**
+ * Action to add ammo to the ammo reserve of a player.
+ */
+interface ActionGrantAmmo {
+  /** Action type is GrantAmmo. */
+  type: GameTriggerActionType.GrantAmmo;
+  /** Grant configuration. */
+  value: {
+    /** Player number receiving the ammo. */
+    player: number;
+    /** Amount of ammo to add. */
+    amount: number;
+  };
+}
+
+/**
+ * Action to add manpower and gold to the accumulated resources of an objective.
+ */
+export interface ActionAddObjectiveResources {
+  /** Action type is AddObjectiveResources. */
+  type: GameTriggerActionType.AddObjectiveResources;
+  /** Resources configuration. */
+  value: {
+    /** Objective name. */
+    name: string;
+    /** Optional manpower to add. */
+    manpower?: number;
+    /** Optional gold to add. */
+    gold?: number;
+  };
+}
+
+/**
+ * Action to change the formation of a unit instantly.
+ */
+interface ActionSetUnitFormation {
+  /** Action type is SetUnitFormation. */
+  type: GameTriggerActionType.SetUnitFormation;
+  /** Formation configuration. */
+  value: {
+    /** Unit name. */
+    name: string;
+    /** ID of the new formation. It must be one of the formations of the unit type. */
+    formationId: string;
+  };
+}
+
+/**
+ * Action to change the terrain and height of the tiles in a rectangle or circle of the map,
+ * e.g. to blow up a bridge, flood a field or dig a trench.
+ * Tiles are changed when their center is inside the area.
+ */
+export interface ActionChangeTerrain {
+  /** Action type is ChangeTerrain. */
+  type: GameTriggerActionType.ChangeTerrain;
+  /** Terrain change configuration. */
+  value: {
+    /** Rectangle to change, in pixels. */
+    zone?: Zone;
+    /** Circle to change, in pixels. Used when there is no zone. */
+    circle?: {
+      /** X coordinate of the center. */
+      x: number;
+      /** Y coordinate of the center. */
+      y: number;
+      /** Radius of the circle. */
+      radius: number;
+    };
+    /** Optional new terrain of the tiles. */
+    terrain?: TerrainType;
+    /** Optional new height of the tiles. */
+    height?: number;
+  };
+}
+
 /**
  * Union type representing any valid game trigger action.
  */
@@ -365,13 +634,22 @@ export type GameTriggerAction =
   | ActionSpawnNeutralObjectives
   | ActionSetVar
   | ActionEndGame
-  | ActionOrderUnit;
+  | ActionOrderUnit
+  | ActionRemoveUnit
+  | ActionWithdrawUnit
+  | ActionTransferUnit
+  | ActionTransferObjective
+  | ActionGrantAmmo
+  | ActionAddObjectiveResources
+  | ActionSetUnitFormation
+  | ActionChangeTerrain;
 
 /**
  * Event emitter for game trigger events.
+ * Each event is emitted with the triggers that fired on it.
  */
 export type GameTriggerEventEmitter = EventEmitter<
-  Record<GameTriggerEventType, any>
+  Record<GameTriggerEventType, FiredTrigger[]>
 >;
 
 /**
@@ -395,10 +673,42 @@ export interface GameTrigger {
   once?: boolean;
 }
 
+/**
+ * Record of a trigger that fired.
+ */
+export interface FiredTrigger {
+  /** Turn the trigger fired on. */
+  turn: number;
+  /** Event the trigger fired on. */
+  event: GameTriggerEventType;
+  /** The trigger that fired. */
+  trigger: GameTrigger;
+}
+
 /**
  * Interface for the trigger system that manages game triggers.
  */
-export interface ITriggerSystem {}
+export interface ITriggerSystem {
+  /** Triggers of the game that can still fire. */
+  triggers: GameTrigger[];
+  /** Every trigger that has fired, in order. */
+  firedTriggers: FiredTrigger[];
+  /** Emits each event after its triggers fire. */
+  events: GameTriggerEventEmitter;
+
+  /**
+   * Replaces the triggers of the game.
+   * @param triggers - The new triggers.
+   */
+  setTriggers(triggers: GameTrigger[]): void;
+
+  /**
+   * Fires the triggers of an event whose conditions are met and executes their actions.
+   * @param event - The event that happened.
+   * @returns The actions clients need to stay in sync with the changes of the triggers.
+   */
+  handleEvent(event: GameTriggerEventType): AnyAction[];
+}
 
 /**
  * Type of client event that can be sent to players.
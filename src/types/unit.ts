@@ -269,6 +269,7 @@ export interface IUnit {
   category: UnitCategoryId;
   player: number;
   team: number;
+  hp: number;
   org: number;
   template: UnitTemplate;
   position: Vector2;
@@ -286,6 +287,8 @@ export interface IUnit {
    * Defaults to 0 if not specified.
    */
   supplyConsumption?: number;
+  /** Damage type ids the unit won't use on autofire. Defaults to none. */
+  holdFireDamageTypes?: number[];
 
   getMaxRange: () => number;
   isRouting: () => boolean;
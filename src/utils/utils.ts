@@ -1,5 +1,5 @@
 import { DEG_TO_RAD, TWO_PI } from "@lob-sdk/constants";
-import { Zone } from "@lob-sdk/types";
+import { GameMap, TerrainChangeTile, Zone } from "@lob-sdk/types";
 import { Point2, Vector2 } from "@lob-sdk/vector";
 
 /**
@@ -85,6 +85,50 @@ export const getClosestPointInsideZone = (
   return new Vector2(clampedX, clampedY);
 };
 
+/**
+ * Checks if a point is inside a zone, including its boundaries.
+ * @param zone - The zone to check.
+ * @param point - The point to check.
+ * @returns True if the point is inside the zone.
+ */
+export function isPointInsideZone(zone: Zone, point: Point2): boolean {
+  return (
+    point.x >= zone.x &&
+    point.y >= zone.y &&
+    point.x <= zone.x + zone.width &&
+    point.y <= zone.y + zone.height
+  );
+}
+
+/**
+ * Applies terrain changes to a map. The map is not mutated, since game states share it;
+ * only the columns of the changed tiles are copied.
+ * @param map - The game map.
+ * @param tiles - The new terrain and height of each changed tile.
+ * @returns A new map with the changes applied.
+ */
+export function applyTerrainChange(
+  map: GameMap,
+  tiles: TerrainChangeTile[]
+): GameMap {
+  const terrains = [...map.terrains];
+  const heightMap = [...map.heightMap];
+  const copied = new Set<number>();
+
+  for (const [x, y, terrain, height] of tiles) {
+    if (!copied.has(x)) {
+      terrains[x] = [...terrains[x]];
+      heightMap[x] = [...heightMap[x]];
+      copied.add(x);
+    }
+
+    terrains[x][y] = terrain;
+    heightMap[x][y] = height;
+  }
+
+  return { ...map, terrains, heightMap };
+}
+
 /**
  * Converts radians to degrees and ensures the result is within the range [0, 360).
  */
@@ -119,3 +163,28 @@ export function degreesToRadiansNormalized(degrees: number): number {
   }
   return radians;
 }
+
+/**
+ * Normalizes an angle in radians to the range (-PI, PI].
+ * @param angle - The angle in radians.
+ * @returns The normalized angle.
+ */
+export function normalizeAngle(angle: number): number {
+  let normalized = angle % TWO_PI;
+  if (normalized <= -Math.PI) {
+    normalized += TWO_PI;
+  } else if (normalized > Math.PI) {
+    normalized -= TWO_PI;
+  }
+  return normalized;
+}
+
+/**
+ * Gets the signed shortest difference between two angles.
+ * @param from - The starting angle in radians.
+ * @param to - The target angle in radians.
+ * @returns The angle to add to `from` to reach `to`, in the range (-PI, PI].
+ */
+export function getAngleDifference(from: number, to: number): number {
+  return normalizeAngle(to - from);
+}